@@ -1,6 +1,6 @@
-import { useState, useMemo, useRef, useEffect, Suspense } from 'react';
+import { useState, useMemo, useRef, useEffect, useLayoutEffect, useCallback, useSyncExternalStore, Suspense } from 'react';
 import './App.css';
-import { Canvas, useFrame, extend, useThree } from '@react-three/fiber';
+import { Canvas, useFrame, extend, useThree, type ThreeEvent } from '@react-three/fiber';
 import {
   OrbitControls,
   Environment,
@@ -9,17 +9,52 @@ import {
   Float,
   Stars,
   Sparkles,
-  useTexture
+  Billboard
 } from '@react-three/drei';
-import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
+import { EffectComposer, Vignette } from '@react-three/postprocessing';
+import { BloomEffect } from 'postprocessing';
 import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 import { MathUtils } from 'three';
-import * as random from 'maath/random';
+import { usePhotoLibrary } from './photoLibrary';
+import { fitTextureBudget } from './imagePipeline';
+import { DEFAULT_CROP, photoFrame, type PhotoCrop, type PhotoFrame } from './photoCrop';
+import { EMPTY_META, createCaptionTexture, hasMeta, type PhotoMeta } from './photoCaption';
+import { getErrorTexture, usePhotoTextures, type TextureStatus } from './photoTextures';
+import { MEDIA_ACCEPT, createMediaPlayer, detectMediaKind, mediaKindFromName, type MediaKind, type MediaPlayer } from './mediaTextures';
+import { SEED_SALT, MAX_SEED, itemRng, randomSeed, pick, inSphere } from './random';
+import { PhotoLibraryPanel } from './components/PhotoLibraryPanel';
+import { MusicControls } from './components/MusicControls';
+import { CaptureMenu } from './components/CaptureMenu';
+import { DecoratePanel } from './components/DecoratePanel';
+import { AdventCountdown } from './components/AdventCountdown';
+import { ThemeEditor } from './components/ThemeEditor';
+import { TimelineEditor } from './components/TimelineEditor';
+import { GREETING_FONTS, GREETING_LIMITS, TITLE_3D_MODES, TITLE_ASPECT, createTitleTexture, greetingFontFamily, readGreetingFromLocation, writeGreetingToLocation, type Greeting, type GreetingFontId, type Title3DMode } from './greeting';
+import { createDefaultTimeline, useTimelinePlayer, type Timeline, type TimelinePlayer } from './timeline';
+import { type CaptureJob, type VideoSink, canvasToPng, captureFilename, createVideoSink } from './capture';
+import { downloadBlob, readTextFile } from './files';
+import { MUSIC_CONTROLS_SELECTOR, useBackgroundMusic, type AudioLevels } from './backgroundMusic';
+import { I18nContext, LOCALE_OPTIONS, useI18n, useLocaleState, type Locale, type LocalizedMessage, type MessageKey } from './i18n';
+import type { SceneCounts, SceneState, TreeState } from './types';
+import { type GalleryLayoutId, GALLERY_LAYOUT_OPTIONS, galleryLayoutPosition, layoutWraps, facingRotation } from './galleryLayouts';
+import { type GalleryController, useGalleryController } from './galleryController';
+import { createInstanceEmissiveMaterial, createTwinkleMaterial, composeInstance } from './instancing';
+import { type FpsMeter, type QualityMode, type QualityTier, QUALITY_TIERS, createFpsMeter, createQualityGovernor, guessInitialTier, tierIndex } from './quality';
+import { type TreeShape, type TreeShapeId, type Vec3, type ShapeMask, TREE_SHAPE_IDS, createTreeShape, loadShapeMask } from './treeShapes';
+import { ELEMENT_KINDS, ELEMENT_SURFACE, PHOTO_SURFACE, intersectShapeSurface, nearestShapeSurface, useDecorLayout, type DecorController, type DecorElement, type DecorTool } from './decorations';
+import { GARLAND_OFFSET, GARLAND_STYLES, LIGHT_STRING_OFFSET, MULTI_COLOR, createGlitterGeometry, createGlitterMaterial, createStrandGeometry, createStrandMaterial, createStrandPaths, strandMix, type GarlandSettings, type GarlandStyle, type StrandPath } from './garlands';
+import { THEME_PRESETS, useTheme, type ThemeColors } from './themes';
+import { useServiceWorker } from './pwa';
+import { SNOW_BOX, SNOW_GROUND_RADIUS, createSnowGeometry, createSnowGroundMaterial, createSnowMaterial, windVector, type SnowSettings } from './weather';
+import { COUNT_LIMITS, clampCount, buildShareUrl, readSceneFromLocation, writeSceneToLocation, sceneToJson, sceneFromJson, sanitizeCounts } from './sceneLink';
+import { parseEmbedTheme, readEmbedOptions, useEmbedHost, type EmbedCommand } from './embed';
+import { ADVENT_DAYS, ADVENT_PREVIEW_DAYS, getGiftTexture, listTimeZones, unlockPose, useAdvent, type AdventPreview, type AdventSettings } from './advent';
 // 移除手势识别依赖与相关逻辑
 
 // --- 动态生成照片列表（从 src/assets/photos 扫描，支持任意文件名） ---
-// 说明：使用 Vite 的 import.meta.glob 在构建期收集图片 URL，数量随目录内容变化
-const photoModules = import.meta.glob('./assets/photos/*.{jpg,jpeg,png,webp}', {
+// 说明：使用 Vite 的 import.meta.glob 在构建期收集图片 / 动图 / 视频 URL，数量随目录内容变化
+const photoModules = import.meta.glob('./assets/photos/*.{jpg,jpeg,png,webp,gif,mp4,webm}', {
   eager: true,
   query: '?url',
   import: 'default',
@@ -36,44 +71,45 @@ const bodyPhotoPaths = Object.values(photoModules).sort((a, b) => {
 });
 
 // --- 视觉配置 ---
-const IS_MOBILE = /Mobi|Android|iPhone|iPad/i.test(navigator.userAgent);
-const IS_QQ = /QQBrowser|MQQBrowser/i.test(navigator.userAgent);
+// 初始画质按设备能力估计，运行中由帧率自适应调节（见 QualityGovernor）
+const INITIAL_TIER = guessInitialTier();
+const IS_LIGHT_DEVICE = tierIndex(INITIAL_TIER) < tierIndex('high');
+// 树身、星星、圣诞元素、彩灯、背景与灯光的配色由主题决定（见 themes.ts）
 const CONFIG = {
   colors: {
-    emerald: '#004225', // 纯正祖母绿
-    gold: '#FFD700',
-    silver: '#ECEFF1',
-    red: '#D32F2F',
     green: '#2E7D32',
     white: '#FFFFFF',   // 纯白色
     warmLight: '#FFD54F',
-    lights: ['#FF0000', '#00FF00', '#0000FF', '#FFFF00'], // 彩灯
     ornaments: ['#D32F2F', '#FFD700', '#B0BEC5', '#1976D2'], // 红 金 银 蓝
     // 拍立得边框颜色池 (复古柔和色系)
     borders: ['#FFFAF0', '#F0E68C', '#E6E6FA', '#FFB6C1', '#98FB98', '#87CEFA', '#FFDAB9'],
-    // 圣诞元素颜色
-    giftColors: ['#D32F2F', '#FFD700', '#1976D2', '#2E7D32'],
     candyColors: ['#FF0000', '#FFFFFF']
   },
-  counts: IS_MOBILE
+  counts: (IS_LIGHT_DEVICE
     ? {
         foliage: 3000,
         ornaments: 20,   // 拍立得照片数量（移动端默认更低）
         elements: 100,   // 圣诞元素数量（移动端默认更低）
         lights: 100,     // 彩灯数量（移动端默认更低）
-        gallery: { photos: 20, scale: 2.5, radius: 14, moveSpeed: 20.0 },
+        gallery: { photos: 20, scale: 2.5, radius: 14, moveSpeed: 20.0, layout: 'ring', interval: 4 },
         camera: { distance: 40 },
         hd: true,
+        snow: { density: 1500, size: 1, wind: 1.5, direction: 30 },
+        garland: { count: 1, style: 'ribbon', color: '#B71C1C', turns: 5 },
+        lightStrings: { count: 2, turns: 6, color: 'multi' },
       }
     : {
         foliage: 15000,
         ornaments: 300,   // 拍立得照片数量
         elements: 200,    // 圣诞元素数量
         lights: 400,      // 彩灯数量
-        gallery: { photos: 20, scale: 2.5, radius: 14, moveSpeed: 20.0 }, // 照片墙参数（moveSpeed：散开→照片墙迁移速度）
+        gallery: { photos: 20, scale: 2.5, radius: 14, moveSpeed: 20.0, layout: 'ring', interval: 4 }, // 照片墙参数（moveSpeed：散开→照片墙迁移速度）
         camera: { distance: 40 }, // 默认视角距离（越小越近）
         hd: false,
-      },
+        snow: { density: 4000, size: 1, wind: 1.5, direction: 30 }, // 降雪（density 为雪花数量，0 = 关闭）
+        garland: { count: 2, style: 'ribbon', color: '#B71C1C', turns: 5 }, // 缠绕彩带（count 为条数，0 = 不显示）
+        lightStrings: { count: 3, turns: 6, color: 'multi' }, // 彩灯串（0 = 彩灯随机散布；color 为 multi 或单一颜色）
+      }) as SceneCounts,
   tree: { height: 22, radius: 9 }, // 树体尺寸
   photos: {
     // top 属性不再需要，因为已经移入 body
@@ -82,11 +118,12 @@ const CONFIG = {
 };
 
 // --- Shader Material (Foliage) ---
+// uSnow（0–1）：积雪程度，聚合后部分树叶粒子的上半部分覆盖白雪
 const FoliageMaterial = shaderMaterial(
-  { uTime: 0, uColor: new THREE.Color(CONFIG.colors.emerald), uProgress: 0, uPointScale: 60 },
+  { uTime: 0, uColor: new THREE.Color(THEME_PRESETS.classic.foliage), uProgress: 0, uPointScale: 60, uSnow: 0 },
   `precision mediump float; precision mediump int;
   uniform float uTime; uniform float uProgress; uniform float uPointScale; attribute vec3 aTargetPos; attribute float aRandom;
-  varying vec2 vUv; varying float vMix;
+  varying vec2 vUv; varying float vMix; varying float vRandom;
   float cubicInOut(float t) { return t < 0.5 ? 4.0 * t * t * t : 0.5 * pow(2.0 * t - 2.0, 3.0) + 1.0; }
   void main() {
     vUv = uv;
@@ -97,46 +134,45 @@ const FoliageMaterial = shaderMaterial(
     gl_PointSize = (uPointScale * (1.0 + aRandom)) / -mvPosition.z;
     gl_Position = projectionMatrix * mvPosition;
     vMix = t;
+    vRandom = aRandom;
   }`,
   `precision mediump float; precision mediump int;
-  uniform vec3 uColor; varying float vMix;
+  uniform vec3 uColor; uniform float uSnow; varying float vMix; varying float vRandom;
   void main() {
     float r = distance(gl_PointCoord, vec2(0.5)); if (r > 0.5) discard;
     vec3 finalColor = mix(uColor * 0.3, uColor * 1.2, vMix);
+    // 积雪：覆盖的粒子比例随 uSnow 增加，只染白粒子的上半部分（gl_PointCoord.y 向下增大）
+    float dusted = step(1.0 - uSnow * 0.7, fract(vRandom * 7.13));
+    float cap = (1.0 - smoothstep(0.25, 0.55, gl_PointCoord.y)) * dusted * vMix;
+    finalColor = mix(finalColor, vec3(0.75, 0.8, 0.85), cap);
     gl_FragColor = vec4(finalColor, 1.0);
   }`
 );
 extend({ FoliageMaterial });
 
-// --- Helper: Tree Shape ---
-const getTreePosition = () => {
-  const h = CONFIG.tree.height; const rBase = CONFIG.tree.radius;
-  const y = (Math.random() * h) - (h / 2); const normalizedY = (y + (h/2)) / h;
-  const currentRadius = rBase * (1 - normalizedY); const theta = Math.random() * Math.PI * 2;
-  const r = Math.random() * currentRadius;
-  return [r * Math.cos(theta), y, r * Math.sin(theta)];
-};
-
 // --- Component: Foliage ---
-const Foliage = ({ state, count }: { state: 'CHAOS' | 'FORMED', count: number }) => {
+const Foliage = ({ state, count, seed, shape, color, pointScale, snowCover }: { state: TreeState, count: number, seed: number, shape: TreeShape, color: string, pointScale: number, snowCover: React.MutableRefObject<number> }) => {
   const materialRef = useRef<any>(null);
+  useEffect(() => { materialRef.current?.uColor.set(color); }, [color]);
   const { positions, targetPositions, randoms } = useMemo(() => {
     const positions = new Float32Array(count * 3); const targetPositions = new Float32Array(count * 3); const randoms = new Float32Array(count);
-    const spherePoints = random.inSphere(new Float32Array(count * 3), { radius: 25 }) as Float32Array;
     for (let i = 0; i < count; i++) {
-      positions[i*3] = spherePoints[i*3]; positions[i*3+1] = spherePoints[i*3+1]; positions[i*3+2] = spherePoints[i*3+2];
-      const [tx, ty, tz] = getTreePosition();
+      const rng = itemRng(seed, SEED_SALT.foliage, i);
+      const [px, py, pz] = inSphere(rng, 25);
+      positions[i*3] = px; positions[i*3+1] = py; positions[i*3+2] = pz;
+      const [tx, ty, tz] = shape.sampleVolume(rng);
       targetPositions[i*3] = tx; targetPositions[i*3+1] = ty; targetPositions[i*3+2] = tz;
-      randoms[i] = Math.random();
+      randoms[i] = rng();
     }
     return { positions, targetPositions, randoms };
-  }, [count]);
+  }, [count, seed, shape]);
   useFrame((rootState, delta) => {
     if (materialRef.current) {
       materialRef.current.uTime = rootState.clock.elapsedTime;
       const targetProgress = state === 'FORMED' ? 1 : 0;
       materialRef.current.uProgress = MathUtils.damp(materialRef.current.uProgress, targetProgress, 1.5, delta);
-      materialRef.current.uPointScale = IS_MOBILE ? 36 : 60;
+      materialRef.current.uPointScale = pointScale;
+      materialRef.current.uSnow = snowCover.current;
     }
   });
   return (
@@ -152,132 +188,414 @@ const Foliage = ({ state, count }: { state: 'CHAOS' | 'FORMED', count: number })
   );
 };
 
-// --- Component: Photo Ornaments (Double-Sided Polaroid) ---
-const PhotoOrnaments = ({ state, photoUrls, count, transitionProgress = 0, ringRadius = 14, isGallery = false, gallerySpeed = 1.0, focusScale = 2.0, hdMode = false }: { state: 'CHAOS' | 'FORMED', photoUrls: string[], count: number, transitionProgress?: number, ringRadius?: number, isGallery?: boolean, gallerySpeed?: number, focusScale?: number, hdMode?: boolean }) => {
+// --- 拍立得几何体 ---
+// 照片区域 width×height，正反两面（背面绕 y 轴翻转 180°），UV 只取裁剪区域
+const createPhotoGeometry = ({ width, height, uv }: PhotoFrame) => {
+  const [u0, v0, uw, vh] = uv;
+  const faces = [
+    new THREE.PlaneGeometry(width, height).translate(0, 0, 0.015),
+    new THREE.PlaneGeometry(width, height).rotateY(Math.PI).translate(0, 0, -0.015),
+  ];
+  faces.forEach(face => {
+    const attr = face.getAttribute('uv');
+    for (let k = 0; k < attr.count; k++) attr.setXY(k, u0 + attr.getX(k) * uw, v0 + attr.getY(k) * vh);
+  });
+  return mergeGeometries(faces);
+};
+// 说明文字贴在底部 0.4 高的白边上（只贴正面，位于相框与照片之间）
+const CAPTION_STRIP = 0.4;
+const createCaptionGeometry = ({ width, height }: PhotoFrame) =>
+  new THREE.PlaneGeometry(width + 0.2, CAPTION_STRIP).translate(0, -height / 2 - CAPTION_STRIP / 2, 0.01);
+const captionAspect = ({ width }: PhotoFrame) => (width + 0.2) / CAPTION_STRIP;
+// 相框为单位尺寸，实际大小与位置由 borderTransform 给出
+const BORDER_GEOMETRY = mergeGeometries([
+  new THREE.PlaneGeometry(1, 1).translate(0, 0, 0.005),
+  new THREE.PlaneGeometry(1, 1).rotateY(Math.PI).translate(0, 0, -0.005),
+]);
+// 相框左右上各比照片宽 0.1、下方留 0.4 的白边（照片为 1×1 时即原先的 1.2×1.5，下移 0.15）
+const borderTransform = ({ width, height }: PhotoFrame) =>
+  new THREE.Matrix4().compose(new THREE.Vector3(0, -0.15, 0), new THREE.Quaternion(), new THREE.Vector3(width + 0.2, height + 0.5, 1));
+const textureAspect = (tex: THREE.Texture) => {
+  const img = tex.image as { width?: number, height?: number, videoWidth?: number, videoHeight?: number } | undefined;
+  const width = img?.videoWidth || img?.width; const height = img?.videoHeight || img?.height;
+  return width && height ? width / height : 1;
+};
+
+// 视频 / 动图纹理：播放器按 URL 缓存，只为新出现的 URL 创建、回收移出列表的 URL，卸载时全部回收
+// （编辑说明 / 裁剪等会生成新的列表数组，已有的播放器继续播放，不重新解码）；画面尺寸就绪后记录宽高比以重算相框
+const useMediaPlayers = (urls: string[], kinds: MediaKind[]) => {
+  const cache = useRef(new Map<string, MediaPlayer>());
+  const [snapshot, setSnapshot] = useState<ReadonlyMap<string, MediaPlayer>>(() => new Map());
+  const [aspectByUrl, setAspectByUrl] = useState<ReadonlyMap<string, number>>(() => new Map());
+  useEffect(() => {
+    const wanted = new Map<string, 'video' | 'animated'>();
+    urls.forEach((url, t) => {
+      const kind = kinds[t];
+      if (kind === 'video' || kind === 'animated') wanted.set(url, kind);
+    });
+    cache.current.forEach((player, url) => {
+      if (wanted.has(url)) return;
+      player.dispose();
+      cache.current.delete(url);
+    });
+    wanted.forEach((kind, url) => {
+      if (cache.current.has(url)) return;
+      const player = createMediaPlayer(url, kind, () => {
+        if (player.width > 0 && player.height > 0) setAspectByUrl(prev => new Map(prev).set(url, player.width / player.height));
+      });
+      cache.current.set(url, player);
+    });
+    setSnapshot(new Map(cache.current));
+    setAspectByUrl(prev => new Map(Array.from(prev).filter(([url]) => wanted.has(url))));
+  }, [urls, kinds]);
+  // 卸载时回收全部播放器（StrictMode 下重新挂载会重新创建）
+  useEffect(() => {
+    const players = cache.current;
+    return () => {
+      players.forEach(player => player.dispose());
+      players.clear();
+    };
+  }, []);
+  const players = useMemo(() => urls.map(url => snapshot.get(url) ?? null), [urls, snapshot]);
+  const aspects = useMemo(() => urls.map(url => aspectByUrl.get(url)), [urls, aspectByUrl]);
+  return { players, aspects };
+};
+// 超过该距离或不在视野内的动态挂件暂停播放
+const MEDIA_PLAY_DISTANCE = 55;
+const MEDIA_CHECK_SECONDS = 0.25;
+// 聚焦时隐藏对应实例（缩放为 0），由 FocusPhoto 代替显示
+const HIDDEN_MATRIX = new THREE.Matrix4().makeScale(0, 0, 0);
+
+// --- Component: Focus Photo（照片墙聚焦时显示的未裁剪大图，矩阵由 PhotoOrnaments 逐帧写入） ---
+type FocusPhotoProps = { meta?: PhotoMeta, borderColor: string, groupRef: React.RefObject<THREE.Group>, hdMode: boolean, onClick: (e: ThreeEvent<MouseEvent>) => void };
+const FocusPhoto = ({ texture, meta, borderColor, groupRef, hdMode, onClick }: FocusPhotoProps & { texture: THREE.Texture }) => {
+  const frame = useMemo(() => photoFrame(textureAspect(texture), { ...DEFAULT_CROP, mode: 'fit' }), [texture]);
+  const geometry = useMemo(() => createPhotoGeometry(frame), [frame]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  const caption = useMemo(() => (hasMeta(meta) ? { geometry: createCaptionGeometry(frame), texture: createCaptionTexture(meta, captionAspect(frame)) } : null), [frame, meta]);
+  useEffect(() => () => { caption?.geometry.dispose(); caption?.texture.dispose(); }, [caption]);
+  return (
+    <group ref={groupRef} matrixAutoUpdate={false} onClick={onClick}>
+      <mesh geometry={geometry}>
+        <meshStandardMaterial
+          map={texture}
+          roughness={0.5} metalness={0}
+          emissive={CONFIG.colors.white} emissiveMap={texture} emissiveIntensity={hdMode ? 0.25 : 1.0}
+          side={THREE.FrontSide}
+        />
+      </mesh>
+      <mesh geometry={BORDER_GEOMETRY} position={[0, -0.15, 0]} scale={[frame.width + 0.2, frame.height + 0.5, 1]}>
+        <meshStandardMaterial color={borderColor} roughness={0.9} metalness={0} side={THREE.FrontSide} />
+      </mesh>
+      {caption && (
+        <mesh geometry={caption.geometry}>
+          <meshStandardMaterial map={caption.texture} transparent depthWrite={false} roughness={0.9} metalness={0} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+// 静态照片聚焦时加载大图（加载完成前或失败时沿用树上的纹理）；视频 / 动图直接复用树上正在播放的纹理
+const FocusImage = ({ url, placeholder, ...props }: FocusPhotoProps & { url: string, placeholder: THREE.Texture }) => {
+  const urls = useMemo(() => [url], [url]);
+  const { textures } = usePhotoTextures(urls);
+  return <FocusPhoto texture={textures[0] ?? placeholder} {...props} />;
+};
+
+// --- Component: Photo Ornaments (Double-Sided Polaroid, Instanced) ---
+// 所有相框共用一个 InstancedMesh，照片按纹理分桶，每种纹理一个 InstancedMesh
+const scratchObject = new THREE.Object3D();
+const scratchVec = new THREE.Vector3();
+const scratchLook = new THREE.Vector3();
+const scratchTarget = new THREE.Vector3();
+const scratchFocus = new THREE.Vector3();
+const scratchGroupPos = new THREE.Vector3();
+const scratchCamLocal = new THREE.Vector3();
+const scratchMatrix = new THREE.Matrix4();
+const scratchEuler = new THREE.Euler();
+const PhotoOrnaments = ({ state, photoUrls, photoKinds, photoTextures, photoStatuses, focusUrls, photoCrops, photoMetas, count, seed, shape, transitionProgress = 0, ringRadius = 14, galleryLayout = 'ring', galleryCount = 20, selectedIndex = null, onSelect, onPhotoClick, lockedPhotos, unlockingPhotos, isGallery = false, gallerySpeed = 1.0, focusScale = 2.0, hdMode = false, mipmaps = true, placed, beginDrag, onPlace }: { state: TreeState, photoUrls: string[], photoKinds: MediaKind[], photoTextures: (THREE.Texture | null)[], photoStatuses: (TextureStatus | null)[], focusUrls: string[], photoCrops: PhotoCrop[], photoMetas: PhotoMeta[], count: number, seed: number, shape: TreeShape, transitionProgress?: number, ringRadius?: number, galleryLayout?: GalleryLayoutId, galleryCount?: number, selectedIndex?: number | null, onSelect?: (index: number | null) => void, onPhotoClick?: (photoIndex: number) => void, lockedPhotos?: boolean[], unlockingPhotos?: ReadonlyMap<number, number>, isGallery?: boolean, gallerySpeed?: number, focusScale?: number, hdMode?: boolean, mipmaps?: boolean, placed?: Record<number, Vec3>, beginDrag?: BeginDrag, onPlace?: (index: number, position: Vec3) => void }) => {
   const effectiveUrls = useMemo(() => photoUrls.slice(0, Math.min(photoUrls.length, count)), [photoUrls, count]);
-  const loadedTextures = useTexture(effectiveUrls);
+  const effectiveKinds = useMemo(() => effectiveUrls.map((_, t) => photoKinds[t] ?? 'image'), [effectiveUrls, photoKinds]);
+  // 静态图由上层逐张加载（photoTextures，与 photoUrls 对齐）：加载中显示空白相纸，失败显示占位图
+  // 视频 / 动图由播放器提供纹理
+  const { players, aspects: mediaAspects } = useMediaPlayers(effectiveUrls, effectiveKinds);
   const fallbackTexture = useMemo(() => {
     const data = new Uint8Array([255, 255, 255, 255]);
     const tex = new THREE.DataTexture(data, 1, 1, THREE.RGBAFormat);
     tex.needsUpdate = true;
     return tex as unknown as THREE.Texture;
   }, []);
-  const textures = loadedTextures.length > 0 ? loadedTextures : [fallbackTexture];
+  const textures = useMemo(() => {
+    if (effectiveUrls.length === 0) return [fallbackTexture];
+    return effectiveUrls.map((_, t) => {
+      if (effectiveKinds[t] !== 'image') return players[t]?.texture ?? fallbackTexture;
+      return photoTextures[t] ?? (photoStatuses[t] === 'error' ? getErrorTexture() : fallbackTexture);
+    });
+  }, [effectiveUrls, effectiveKinds, photoTextures, photoStatuses, players, fallbackTexture]);
+  const textureCount = textures.length;
   const groupRef = useRef<THREE.Group>(null);
-  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const { gl } = useThree();
   useEffect(() => {
-    if (IS_MOBILE) {
-      textures.forEach(tex => {
-        // 高清模式启用 mipmap 与各向异性过滤，提高清晰度
-        tex.generateMipmaps = hdMode;
-        tex.minFilter = hdMode ? THREE.LinearMipmapLinearFilter : THREE.LinearFilter;
-        tex.magFilter = THREE.LinearFilter;
-        if (hdMode && gl && (gl.capabilities as any).getMaxAnisotropy) {
-          const maxAniso = gl.capabilities.getMaxAnisotropy();
-          tex.anisotropy = Math.min(4, maxAniso || 1);
-        }
-      });
-    }
-  }, [textures]);
-
-  const borderGeometry = useMemo(() => new THREE.PlaneGeometry(1.2, 1.5), []);
-  const photoGeometry = useMemo(() => new THREE.PlaneGeometry(1, 1), []);
+    // 低画质档位关闭 mipmap 节省显存；高清模式始终启用 mipmap 与各向异性过滤，提高清晰度
+    const useMipmaps = mipmaps || hdMode;
+    textures.forEach((tex, t) => {
+      // 视频 / 动图每帧都在更新，不生成 mipmap
+      if (effectiveKinds[t] && effectiveKinds[t] !== 'image') return;
+      if (tex.generateMipmaps !== useMipmaps) {
+        tex.generateMipmaps = useMipmaps;
+        tex.minFilter = useMipmaps ? THREE.LinearMipmapLinearFilter : THREE.LinearFilter;
+        tex.needsUpdate = true;
+      }
+      tex.magFilter = THREE.LinearFilter;
+      if (hdMode && gl && (gl.capabilities as any).getMaxAnisotropy) {
+        const maxAniso = gl.capabilities.getMaxAnisotropy();
+        tex.anisotropy = Math.min(4, maxAniso || 1);
+      }
+    });
+  }, [textures, effectiveKinds, mipmaps, hdMode, gl]);
+
+  // 每张纹理按宽高比与裁剪方式生成自己的照片几何体；相框共用单位几何体，按实例缩放
+  // 视频 / 动图的画面尺寸加载后才知道（mediaAspects 更新时重算）
+  const frames = useMemo(() => textures.map((tex, t) => photoFrame(mediaAspects[t] ?? textureAspect(tex), photoCrops[t] ?? DEFAULT_CROP)), [textures, photoCrops, mediaAspects]);
+  const photoGeometries = useMemo(() => frames.map(createPhotoGeometry), [frames]);
+  useEffect(() => () => photoGeometries.forEach(g => g.dispose()), [photoGeometries]);
+  const borderLocals = useMemo(() => frames.map(borderTransform), [frames]);
+  // 有说明 / 日期 / 作者的照片在底部白边上多一个文字实例层
+  const captions = useMemo(() => frames.map((frame, t) => {
+    const meta = photoMetas[t];
+    return hasMeta(meta) ? { geometry: createCaptionGeometry(frame), texture: createCaptionTexture(meta, captionAspect(frame)) } : null;
+  }), [frames, photoMetas]);
+  useEffect(() => () => captions.forEach(c => { c?.geometry.dispose(); c?.texture.dispose(); }), [captions]);
 
   const data = useMemo(() => {
-    const step = (Math.PI * 2) / Math.max(1, textures.length);
     return new Array(count).fill(0).map((_, i) => {
-      const chaosPos = new THREE.Vector3((Math.random()-0.5)*70, (Math.random()-0.5)*70, (Math.random()-0.5)*70);
-      const h = CONFIG.tree.height; const y = (Math.random() * h) - (h / 2);
-      const rBase = CONFIG.tree.radius;
-      const currentRadius = (rBase * (1 - (y + (h/2)) / h)) + 0.5;
-      const theta = Math.random() * Math.PI * 2;
-      const targetPos = new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
-
-      // 环形照片墙目标位置（索引均匀分布）
-      const ringAngle = (i % textures.length) * step;
-      const ringPos = new THREE.Vector3(Math.sin(ringAngle) * ringRadius, Math.sin(ringAngle * 2) * 0.6, Math.cos(ringAngle) * ringRadius);
-
-      const isBig = Math.random() < 0.2;
-      const baseScale = isBig ? 2.2 : 0.8 + Math.random() * 0.6;
-      const weight = 0.8 + Math.random() * 1.2;
-      const borderColor = CONFIG.colors.borders[Math.floor(Math.random() * CONFIG.colors.borders.length)];
+      const rng = itemRng(seed, SEED_SALT.ornaments, i);
+      const chaosPos = new THREE.Vector3((rng()-0.5)*70, (rng()-0.5)*70, (rng()-0.5)*70);
+      const surfacePos = new THREE.Vector3(...shape.sampleSurface(rng, PHOTO_SURFACE.offset, PHOTO_SURFACE.scale));
+
+      const isBig = rng() < 0.2;
+      const baseScale = isBig ? 2.2 : 0.8 + rng() * 0.6;
+      const weight = 0.8 + rng() * 1.2;
+      const borderColor = pick(rng, CONFIG.colors.borders);
 
       const rotationSpeed = {
-        x: (Math.random() - 0.5) * 1.0,
-        y: (Math.random() - 0.5) * 1.0,
-        z: (Math.random() - 0.5) * 1.0
+        x: (rng() - 0.5) * 1.0,
+        y: (rng() - 0.5) * 1.0,
+        z: (rng() - 0.5) * 1.0
       };
-      const chaosRotation = new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI);
+      const chaosRotation = new THREE.Euler(rng()*Math.PI, rng()*Math.PI, rng()*Math.PI);
 
       return {
-        chaosPos, targetPos, ringPos, scale: baseScale, weight,
-        textureIndex: i % textures.length,
+        chaosPos, surfacePos, targetPos: surfacePos.clone(), scale: baseScale, weight,
+        textureIndex: i % textureCount,
         borderColor,
         currentPos: chaosPos.clone(),
+        currentScale: baseScale,
         chaosRotation,
+        rotation: chaosRotation.clone(),
         rotationSpeed,
-        wobbleOffset: Math.random() * 10,
-        wobbleSpeed: 0.5 + Math.random() * 0.5
+        matrix: new THREE.Matrix4(),
+        wobbleOffset: rng() * 10,
+        wobbleSpeed: 0.5 + rng() * 0.5
       };
     });
-  }, [textures, count, ringRadius]);
+  }, [textureCount, count, seed, shape]);
+
+  // 纹理分桶：buckets[t] 为使用第 t 张纹理的挂件序号，slotInBucket[i] 为挂件 i 在桶内的实例序号
+  const { buckets, slotInBucket } = useMemo(() => {
+    const buckets: number[][] = Array.from({ length: textureCount }, () => []);
+    const slotInBucket = data.map((obj, i) => buckets[obj.textureIndex].push(i) - 1);
+    return { buckets, slotInBucket };
+  }, [textureCount, data]);
+
+  const borderRef = useRef<THREE.InstancedMesh>(null);
+  const focusRef = useRef<THREE.Group>(null);
+  const photoRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
+  const captionRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
+
+  useLayoutEffect(() => {
+    const mesh = borderRef.current;
+    if (!mesh) return;
+    const color = new THREE.Color();
+    data.forEach((obj, i) => mesh.setColorAt(i, color.set(obj.borderColor)));
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [data]);
+
+  // 装饰模式摆放过的挂件使用保存的位置，其余沿用随机位置（只改目标，不打断当前动画）
+  useEffect(() => {
+    data.forEach((obj, i) => {
+      const position = placed?.[i];
+      if (position) obj.targetPos.fromArray(position);
+      else obj.targetPos.copy(obj.surfacePos);
+    });
+  }, [data, placed]);
+
+  // 进入散开状态时恢复初始的随机朝向（与原先按状态重设 rotation 一致）
+  useEffect(() => {
+    if (state === 'CHAOS') data.forEach(obj => obj.rotation.copy(obj.chaosRotation));
+  }, [state, data]);
+
+  // 照片墙目标位置：只有前 galleryCount 张参与排布，其余保持散开
+  const slotCount = Math.min(galleryCount, count);
+  const galleryTargets = useMemo(() => {
+    const focus = selectedIndex !== null && selectedIndex < slotCount ? selectedIndex : undefined;
+    return new Array(slotCount).fill(0).map((_, i) => new THREE.Vector3(...galleryLayoutPosition(galleryLayout, i, slotCount, ringRadius, focus)));
+  }, [galleryLayout, slotCount, ringRadius, selectedIndex]);
+  // 照片墙整体绕 y 轴的旋转：环形类布局把选中照片转到镜头正前方，平面布局整体正对镜头
+  const layoutRotation = useRef(0);
+  const yAxis = useMemo(() => new THREE.Vector3(0, 1, 0), []);
+
+  const focusItem = isGallery && selectedIndex !== null ? data[selectedIndex] : undefined;
+  // 降临节日历中锁定的照片：聚焦时只放大礼物卡片，不加载原图
+  const focusLocked = !!focusItem && !!lockedPhotos?.[focusItem.textureIndex];
+  const focusUrl = focusItem ? focusUrls[focusItem.textureIndex] : undefined;
+  const focusPlayer = focusItem ? players[focusItem.textureIndex] : null;
+
+  // 动态挂件：只播放镜头附近且在视野内的；照片墙聚焦项始终播放并取消静音
+  const mediaCheck = useRef(0);
+  const frustum = useMemo(() => new THREE.Frustum(), []);
+  const updateMediaPlayback = (cam: THREE.Camera, group: THREE.Group) => {
+    frustum.setFromProjectionMatrix(scratchMatrix.multiplyMatrices(cam.projectionMatrix, cam.matrixWorldInverse));
+    const visible = players.map(() => false);
+    const sphere = new THREE.Sphere();
+    data.forEach(objData => {
+      const t = objData.textureIndex;
+      if (!players[t] || visible[t]) return;
+      sphere.center.copy(objData.currentPos).applyMatrix4(group.matrixWorld);
+      if (sphere.center.distanceTo(cam.position) > MEDIA_PLAY_DISTANCE) return;
+      sphere.radius = objData.currentScale;
+      visible[t] = frustum.intersectsSphere(sphere);
+    });
+    const focusTexture = focusItem ? focusItem.textureIndex : -1;
+    players.forEach((player, t) => {
+      if (!player) return;
+      player.setPlaying(visible[t] || t === focusTexture);
+      player.setMuted(t !== focusTexture);
+    });
+  };
 
   useFrame((stateObj, delta) => {
-    if (!groupRef.current) return;
+    const group = groupRef.current;
+    const borderMesh = borderRef.current;
+    if (!group || !borderMesh) return;
     const isFormed = state === 'FORMED';
     const time = stateObj.clock.elapsedTime;
+    const cam = stateObj.camera as THREE.PerspectiveCamera;
+    const groupWorldPos = group.getWorldPosition(scratchGroupPos);
+    // 相机在本组局部坐标系中的位置（实例矩阵是局部坐标）
+    const camLocal = group.worldToLocal(scratchCamLocal.copy(cam.position));
+    const now = performance.now();
+
+    players.forEach(player => player?.update(delta));
+    mediaCheck.current += delta;
+    if (mediaCheck.current >= MEDIA_CHECK_SECONDS) {
+      mediaCheck.current = 0;
+      updateMediaPlayback(cam, group);
+    }
+
+    if (isGallery) {
+      const azimuth = Math.atan2(cam.position.x - groupWorldPos.x, cam.position.z - groupWorldPos.z);
+      const selectedPos = selectedIndex !== null ? galleryTargets[selectedIndex] : undefined;
+      let targetRotation = layoutRotation.current;
+      if (!layoutWraps(galleryLayout)) targetRotation = facingRotation(0, 1, azimuth, layoutRotation.current);
+      else if (selectedPos) targetRotation = facingRotation(selectedPos.x, selectedPos.z, azimuth, layoutRotation.current);
+      layoutRotation.current = MathUtils.damp(layoutRotation.current, targetRotation, 3, delta);
+    }
 
-    groupRef.current.children.forEach((group, i) => {
-      const objData = data[i];
-      // GALLERY 场景：从散开直接向环形迁移（chaos → ring）
-      const galleryTarget = objData.chaosPos.clone().lerp(objData.ringPos, transitionProgress);
-      // 非 GALLERY：从环形回归树目标（ring → target）
-      const formedTarget = objData.targetPos.clone().lerp(objData.ringPos, transitionProgress);
-      let target = isGallery ? galleryTarget : (isFormed ? formedTarget : objData.chaosPos);
+    data.forEach((objData, i) => {
+      const slot = galleryTargets[i];
+      const galleryPos = slot ? scratchVec.copy(slot).applyAxisAngle(yAxis, layoutRotation.current) : objData.chaosPos;
+      // GALLERY 场景：从散开直接向照片墙迁移（chaos → layout）
+      // 非 GALLERY：从照片墙回归树目标（layout → target）
+      // 逐帧执行，只计算用到的一支并写入复用的向量
+      const target = isGallery ? scratchTarget.copy(objData.chaosPos).lerp(galleryPos, transitionProgress)
+        : isFormed ? scratchTarget.copy(objData.targetPos).lerp(galleryPos, transitionProgress)
+        : objData.chaosPos;
       // 点击选中照片→移到屏幕中间并放大
       if (isGallery && selectedIndex === i) {
         // 动态计算屏幕中心在当前相机视角下的局部坐标
-        const cam = stateObj.camera as THREE.PerspectiveCamera;
-        const dir = new THREE.Vector3(); cam.getWorldDirection(dir);
-        const groupWorldPos = new THREE.Vector3(); groupRef.current!.getWorldPosition(groupWorldPos);
         const focusDepth = Math.max(8, cam.position.distanceTo(groupWorldPos) - ringRadius);
-        const centerWorld = cam.position.clone().add(dir.multiplyScalar(focusDepth));
-        const centerLocal = centerWorld.clone(); groupRef.current!.worldToLocal(centerLocal);
-        target = target.clone().lerp(centerLocal, 0.6);
+        const centerLocal = group.worldToLocal(cam.getWorldDirection(scratchFocus).multiplyScalar(focusDepth).add(cam.position));
+        target.lerp(centerLocal, 0.6);
       }
 
       const moveFactor = isGallery ? gallerySpeed : (isFormed ? 0.8 * objData.weight : 0.5);
       objData.currentPos.lerp(target, delta * moveFactor);
-      group.position.copy(objData.currentPos);
+      scratchObject.position.copy(objData.currentPos);
 
       if (isFormed || isGallery) {
-         const cam = stateObj.camera as THREE.PerspectiveCamera;
-         if (isGallery) {
-           group.lookAt(cam.position);
-         } else {
-           const targetLookPos = new THREE.Vector3(group.position.x * 2, group.position.y + 0.5, group.position.z * 2);
-           group.lookAt(targetLookPos);
-         }
-
-         const wobbleX = Math.sin(time * objData.wobbleSpeed + objData.wobbleOffset) * 0.05;
-         const wobbleZ = Math.cos(time * objData.wobbleSpeed * 0.8 + objData.wobbleOffset) * 0.05;
-         group.rotation.x += wobbleX;
-         group.rotation.z += wobbleZ;
-
-         // 选中照片时逐渐放大（仅在照片墙状态）
-         const targetScale = isGallery && selectedIndex === i ? objData.scale * focusScale : objData.scale;
-         const s = (group.scale as any);
-         if (s && s.lerp) s.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), delta * 3);
+        if (isGallery) {
+          scratchObject.lookAt(camLocal);
+        } else {
+          // 朝外略向上（目标点按世界坐标给出，与原先 group.lookAt 的朝向一致）
+          scratchLook.set(objData.currentPos.x * 2, objData.currentPos.y + 0.5, objData.currentPos.z * 2);
+          scratchObject.lookAt(group.worldToLocal(scratchLook));
+        }
+
+        const wobbleX = Math.sin(time * objData.wobbleSpeed + objData.wobbleOffset) * 0.05;
+        const wobbleZ = Math.cos(time * objData.wobbleSpeed * 0.8 + objData.wobbleOffset) * 0.05;
+        scratchObject.rotation.x += wobbleX;
+        scratchObject.rotation.z += wobbleZ;
+        objData.rotation.copy(scratchObject.rotation);
 
+        // 选中照片时逐渐放大（仅在照片墙状态）
+        const targetScale = isGallery && selectedIndex === i ? objData.scale * focusScale : objData.scale;
+        objData.currentScale = MathUtils.lerp(objData.currentScale, targetScale, Math.min(1, delta * 3));
       } else {
-         group.rotation.x += delta * objData.rotationSpeed.x;
-         group.rotation.y += delta * objData.rotationSpeed.y;
-         group.rotation.z += delta * objData.rotationSpeed.z;
+        objData.rotation.x += delta * objData.rotationSpeed.x;
+        objData.rotation.y += delta * objData.rotationSpeed.y;
+        objData.rotation.z += delta * objData.rotationSpeed.z;
       }
+
+      // 降临节日历：当天解锁的照片播放拆礼物动画（附加在当前姿态上，不改变挂件自身的状态）
+      const unlockStart = unlockingPhotos?.get(objData.textureIndex);
+      const pose = unlockStart === undefined ? null : unlockPose((now - unlockStart) / 1000);
+      if (pose) {
+        scratchEuler.copy(objData.rotation);
+        scratchEuler.z += pose.roll;
+        composeInstance(objData.matrix, objData.currentPos, scratchEuler, objData.currentScale * pose.scale);
+      } else {
+        composeInstance(objData.matrix, objData.currentPos, objData.rotation, objData.currentScale);
+      }
+      const hidden = i === selectedIndex && focusRef.current !== null;
+      borderMesh.setMatrixAt(i, hidden ? HIDDEN_MATRIX : scratchMatrix.multiplyMatrices(objData.matrix, borderLocals[objData.textureIndex]));
+      photoRefs.current[objData.textureIndex]?.setMatrixAt(slotInBucket[i], hidden ? HIDDEN_MATRIX : objData.matrix);
+      captionRefs.current[objData.textureIndex]?.setMatrixAt(slotInBucket[i], hidden ? HIDDEN_MATRIX : objData.matrix);
+      if (i === selectedIndex) focusRef.current?.matrix.copy(objData.matrix);
+    });
+    borderMesh.instanceMatrix.needsUpdate = true;
+    // 点击拾取依赖包围球；照片墙与装饰模式中实例会移动，让它在下次拾取时按新位置重算
+    const movable = isGallery || !!beginDrag;
+    if (movable) borderMesh.boundingSphere = null;
+    [...photoRefs.current, ...captionRefs.current].forEach(mesh => {
+      if (!mesh) return;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (movable) mesh.boundingSphere = null;
     });
   });
 
+
+  const handleSelect = (e: ThreeEvent<MouseEvent>, index: number | undefined) => {
+    if (index === undefined || index >= data.length) return;
+    // 嵌入模式：任何状态下点击照片都通知宿主页面（传照片序号，不是挂件序号；锁定的礼物不通知）
+    if (!lockedPhotos?.[data[index].textureIndex]) onPhotoClick?.(data[index].textureIndex);
+    if (!isGallery || index >= slotCount) return;
+    e.stopPropagation();
+    onSelect?.(selectedIndex === index ? null : index);
+  };
+
+  // 装饰模式：按住挂件拖动，挂件直接跟随指针，松开后保存位置
+  const handleGrab = (e: ThreeEvent<PointerEvent>, index: number | undefined) => {
+    if (!beginDrag || index === undefined) return;
+    const obj = data[index];
+    beginDrag(e, {
+      surface: PHOTO_SURFACE,
+      onMove: (position) => { obj.targetPos.fromArray(position); obj.currentPos.fromArray(position); },
+      onDrop: (position) => onPlace?.(index, position),
+    });
+  };
+
   return (
     <group ref={groupRef}
       onPointerDown={(e) => { if (isGallery) e.stopPropagation(); }}
@@ -285,142 +603,275 @@ const PhotoOrnaments = ({ state, photoUrls, count, transitionProgress = 0, ringR
       onPointerUp={(e) => { if (isGallery) e.stopPropagation(); }}
       onClick={(e) => { if (isGallery) e.stopPropagation(); }}
     >
-      {data.map((obj, i) => (
-        <group key={i} scale={[obj.scale, obj.scale, obj.scale]} rotation={state === 'CHAOS' ? obj.chaosRotation : [0,0,0]}
-          onClick={(e) => { if (isGallery) { e.stopPropagation(); setSelectedIndex(si => si === i ? null : i); } }}
+      <instancedMesh key={`border-${count}`} ref={borderRef} args={[BORDER_GEOMETRY, undefined, count]} frustumCulled={false}
+        onClick={(e) => handleSelect(e, e.instanceId)}
+        onPointerDown={(e) => handleGrab(e, e.instanceId)}
+      >
+        <meshStandardMaterial roughness={0.9} metalness={0} side={THREE.FrontSide} />
+      </instancedMesh>
+      {buckets.map((ids, t) => (
+        <instancedMesh key={`photo-${t}-${ids.length}`} ref={(el) => { photoRefs.current[t] = el; }} args={[photoGeometries[t], undefined, ids.length]} frustumCulled={false}
+          onClick={(e) => handleSelect(e, e.instanceId === undefined ? undefined : ids[e.instanceId])}
+          onPointerDown={(e) => handleGrab(e, e.instanceId === undefined ? undefined : ids[e.instanceId])}
         >
-          {/* 正面 */}
-          <group position={[0, 0, 0.015]}>
-            <mesh geometry={photoGeometry}>
-              <meshStandardMaterial
-                map={textures[obj.textureIndex]}
-                roughness={0.5} metalness={0}
-                emissive={CONFIG.colors.white} emissiveMap={textures[obj.textureIndex]} emissiveIntensity={hdMode ? 0.25 : 1.0}
-                side={THREE.FrontSide}
-              />
-            </mesh>
-            <mesh geometry={borderGeometry} position={[0, -0.15, -0.01]}>
-              <meshStandardMaterial color={obj.borderColor} roughness={0.9} metalness={0} side={THREE.FrontSide} />
-            </mesh>
-          </group>
-          {/* 背面 */}
-          <group position={[0, 0, -0.015]} rotation={[0, Math.PI, 0]}>
-            <mesh geometry={photoGeometry}>
-              <meshStandardMaterial
-                map={textures[obj.textureIndex]}
-                roughness={0.5} metalness={0}
-                emissive={CONFIG.colors.white} emissiveMap={textures[obj.textureIndex]} emissiveIntensity={hdMode ? 0.25 : 1.0}
-                side={THREE.FrontSide}
-              />
-            </mesh>
-            <mesh geometry={borderGeometry} position={[0, -0.15, -0.01]}>
-              <meshStandardMaterial color={obj.borderColor} roughness={0.9} metalness={0} side={THREE.FrontSide} />
-            </mesh>
-          </group>
-        </group>
+          <meshStandardMaterial
+            map={textures[t]}
+            roughness={0.5} metalness={0}
+            emissive={CONFIG.colors.white} emissiveMap={textures[t]} emissiveIntensity={hdMode ? 0.25 : 1.0}
+            side={THREE.FrontSide}
+          />
+        </instancedMesh>
       ))}
+      {buckets.map((ids, t) => {
+        const caption = captions[t];
+        if (!caption) return null;
+        return (
+          <instancedMesh key={`caption-${t}-${ids.length}`} ref={(el) => { captionRefs.current[t] = el; }} args={[caption.geometry, undefined, ids.length]} frustumCulled={false}>
+            <meshStandardMaterial map={caption.texture} transparent depthWrite={false} roughness={0.9} metalness={0} />
+          </instancedMesh>
+        );
+      })}
+      {focusItem && !focusLocked && focusPlayer && (
+        <FocusPhoto texture={focusPlayer.texture} meta={photoMetas[focusItem.textureIndex]} borderColor={focusItem.borderColor} groupRef={focusRef} hdMode={hdMode} onClick={(e) => handleSelect(e, selectedIndex ?? undefined)} />
+      )}
+      {focusItem && !focusLocked && !focusPlayer && focusUrl && (
+        <FocusImage url={focusUrl} placeholder={textures[focusItem.textureIndex]} meta={photoMetas[focusItem.textureIndex]} borderColor={focusItem.borderColor} groupRef={focusRef} hdMode={hdMode} onClick={(e) => handleSelect(e, selectedIndex ?? undefined)} />
+      )}
     </group>
   );
 };
 
-// --- Component: Christmas Elements ---
-const ChristmasElements = ({ state, count }: { state: 'CHAOS' | 'FORMED', count: number }) => {
-  const groupRef = useRef<THREE.Group>(null);
-
-  const boxGeometry = useMemo(() => new THREE.BoxGeometry(0.8, 0.8, 0.8), []);
-  const sphereGeometry = useMemo(() => new THREE.SphereGeometry(0.5, 16, 16), []);
-  const caneGeometry = useMemo(() => new THREE.CylinderGeometry(0.15, 0.15, 1.2, 8), []);
+// --- Component: Christmas Elements (Instanced) ---
+// 随机生成元素规格（类型 / 颜色 / 大小 / 树上位置）；装饰模式保存布局后改用保存的列表
+// 颜色取自主题的颜色池：换主题只改颜色，位置与类型不变
+const randomElements = (count: number, seed: number, shape: TreeShape, colors: Pick<ThemeColors, 'elements' | 'candy'>): DecorElement[] =>
+  new Array(count).fill(0).map((_, i) => {
+    const rng = itemRng(seed, SEED_SALT.elements, i);
+    // 前三个随机数是散开位置（ChristmasElements 按同一序列生成），跳过以保持同一种子下的布局不变
+    rng(); rng(); rng();
+    const position = shape.sampleSurface(rng, ELEMENT_SURFACE.offset, ELEMENT_SURFACE.scale);
+    const type = Math.floor(rng() * 3);
+    let color; let scale = 1;
+    if (type === 0) { color = pick(rng, colors.elements); scale = 0.8 + rng() * 0.4; }
+    else if (type === 1) { color = pick(rng, colors.elements); scale = 0.6 + rng() * 0.4; }
+    else { color = rng() > 0.5 ? colors.candy[0] : colors.candy[1]; scale = 0.7 + rng() * 0.3; }
+    return { id: i, kind: ELEMENT_KINDS[type], color, scale, position };
+  });
 
+// 三种造型各一个 InstancedMesh，颜色为逐实例颜色（自发光同样按实例颜色）
+// 散开位置与自转按元素 id 生成；增删元素时其余元素沿用当前位置，不会重新飞入
+const ChristmasElements = ({ state, elements, seed, tool = null, beginDrag, onPlace, onRemove }: { state: TreeState, elements: DecorElement[], seed: number, tool?: DecorTool | null, beginDrag?: BeginDrag, onPlace?: (id: number, position: Vec3) => void, onRemove?: (id: number) => void }) => {
+  const geometries = useMemo(() => [
+    new THREE.BoxGeometry(0.8, 0.8, 0.8),
+    new THREE.SphereGeometry(0.5, 16, 16),
+    new THREE.CylinderGeometry(0.15, 0.15, 1.2, 8),
+  ], []);
+  useEffect(() => () => geometries.forEach(g => g.dispose()), [geometries]);
+  const material = useMemo(() => createInstanceEmissiveMaterial({ roughness: 0.3, metalness: 0.4, emissiveIntensity: 0.2 }), []);
+  useEffect(() => () => material.dispose(), [material]);
+
+  const previous = useRef(new Map<number, { currentPos: THREE.Vector3, rotation: THREE.Euler }>());
   const data = useMemo(() => {
-    return new Array(count).fill(0).map(() => {
-      const chaosPos = new THREE.Vector3((Math.random()-0.5)*60, (Math.random()-0.5)*60, (Math.random()-0.5)*60);
-      const h = CONFIG.tree.height;
-      const y = (Math.random() * h) - (h / 2);
-      const rBase = CONFIG.tree.radius;
-      const currentRadius = (rBase * (1 - (y + (h/2)) / h)) * 0.95;
-      const theta = Math.random() * Math.PI * 2;
-
-      const targetPos = new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
-
-      const type = Math.floor(Math.random() * 3);
-      let color; let scale = 1;
-      if (type === 0) { color = CONFIG.colors.giftColors[Math.floor(Math.random() * CONFIG.colors.giftColors.length)]; scale = 0.8 + Math.random() * 0.4; }
-      else if (type === 1) { color = CONFIG.colors.giftColors[Math.floor(Math.random() * CONFIG.colors.giftColors.length)]; scale = 0.6 + Math.random() * 0.4; }
-      else { color = Math.random() > 0.5 ? CONFIG.colors.red : CONFIG.colors.white; scale = 0.7 + Math.random() * 0.3; }
-
-      const rotationSpeed = { x: (Math.random()-0.5)*2.0, y: (Math.random()-0.5)*2.0, z: (Math.random()-0.5)*2.0 };
-      return { type, chaosPos, targetPos, color, scale, currentPos: chaosPos.clone(), chaosRotation: new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI), rotationSpeed };
+    return elements.map(el => {
+      const rng = itemRng(seed, SEED_SALT.elements, el.id);
+      const chaosPos = new THREE.Vector3((rng()-0.5)*60, (rng()-0.5)*60, (rng()-0.5)*60);
+      const rotationSpeed = { x: (rng()-0.5)*2.0, y: (rng()-0.5)*2.0, z: (rng()-0.5)*2.0 };
+      const prev = previous.current.get(el.id);
+      return {
+        id: el.id, type: ELEMENT_KINDS.indexOf(el.kind), color: el.color, scale: el.scale,
+        chaosPos, targetPos: new THREE.Vector3(...el.position),
+        currentPos: prev?.currentPos ?? chaosPos.clone(),
+        rotation: prev?.rotation ?? new THREE.Euler(rng()*Math.PI, rng()*Math.PI, rng()*Math.PI),
+        rotationSpeed, matrix: new THREE.Matrix4(),
+      };
     });
-  }, [boxGeometry, sphereGeometry, caneGeometry, count]);
+  }, [elements, seed]);
+  useEffect(() => { previous.current = new Map(data.map(obj => [obj.id, obj])); }, [data]);
+
+  const { buckets, slotInBucket } = useMemo(() => {
+    const buckets: number[][] = geometries.map(() => []);
+    const slotInBucket = data.map((obj, i) => buckets[obj.type].push(i) - 1);
+    return { buckets, slotInBucket };
+  }, [geometries, data]);
+
+  const meshRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
+
+  useLayoutEffect(() => {
+    const color = new THREE.Color();
+    data.forEach((obj, i) => meshRefs.current[obj.type]?.setColorAt(slotInBucket[i], color.set(obj.color)));
+    meshRefs.current.forEach(mesh => { if (mesh?.instanceColor) mesh.instanceColor.needsUpdate = true; });
+  }, [data, slotInBucket]);
 
   useFrame((_, delta) => {
-    if (!groupRef.current) return;
     const isFormed = state === 'FORMED';
-    groupRef.current.children.forEach((child, i) => {
-      const mesh = child as THREE.Mesh;
-      const objData = data[i];
+    data.forEach((objData, i) => {
       const target = isFormed ? objData.targetPos : objData.chaosPos;
       objData.currentPos.lerp(target, delta * 1.5);
-      mesh.position.copy(objData.currentPos);
-      mesh.rotation.x += delta * objData.rotationSpeed.x; mesh.rotation.y += delta * objData.rotationSpeed.y; mesh.rotation.z += delta * objData.rotationSpeed.z;
+      objData.rotation.x += delta * objData.rotationSpeed.x; objData.rotation.y += delta * objData.rotationSpeed.y; objData.rotation.z += delta * objData.rotationSpeed.z;
+      composeInstance(objData.matrix, objData.currentPos, objData.rotation, objData.scale);
+      meshRefs.current[objData.type]?.setMatrixAt(slotInBucket[i], objData.matrix);
+    });
+    meshRefs.current.forEach(mesh => {
+      if (!mesh) return;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (tool) mesh.boundingSphere = null;
     });
   });
 
+  // 装饰模式：移动工具拖动元素，删除工具点击即移除
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>, index: number | undefined) => {
+    if (!tool || index === undefined) return;
+    const obj = data[index];
+    if (tool === 'remove') {
+      e.stopPropagation();
+      onRemove?.(obj.id);
+    } else if (tool === 'move' && beginDrag) {
+      beginDrag(e, {
+        surface: ELEMENT_SURFACE,
+        onMove: (position) => { obj.targetPos.fromArray(position); obj.currentPos.fromArray(position); },
+        onDrop: (position) => onPlace?.(obj.id, position),
+      });
+    }
+  };
+
   return (
-    <group ref={groupRef}>
-      {data.map((obj, i) => {
-        let geometry; if (obj.type === 0) geometry = boxGeometry; else if (obj.type === 1) geometry = sphereGeometry; else geometry = caneGeometry;
-        return ( <mesh key={i} scale={[obj.scale, obj.scale, obj.scale]} geometry={geometry} rotation={obj.chaosRotation}>
-          <meshStandardMaterial color={obj.color} roughness={0.3} metalness={0.4} emissive={obj.color} emissiveIntensity={0.2} />
-        </mesh> )})}
+    <group>
+      {buckets.map((ids, type) => (
+        <instancedMesh key={`${type}-${ids.length}`} ref={(el) => { meshRefs.current[type] = el; }} args={[geometries[type], material, ids.length]} frustumCulled={false}
+          onPointerDown={(e) => handlePointerDown(e, e.instanceId === undefined ? undefined : ids[e.instanceId])}
+        />
+      ))}
     </group>
   );
 };
 
-// --- Component: Fairy Lights ---
-const FairyLights = ({ state, count }: { state: 'CHAOS' | 'FORMED', count: number }) => {
-  const groupRef = useRef<THREE.Group>(null);
-  const geometry = useMemo(() => new THREE.SphereGeometry(0.8, 8, 8), []);
+// --- Component: Fairy Lights (Instanced) ---
+// 单个 InstancedMesh；闪烁在着色器中按实例属性 aTwinkle 计算，不再逐帧写材质
+// 播放音乐时亮度跟随频谱，停止后平滑退回正弦闪烁
+// 有灯串时灯泡按顺序均匀挂在各条灯串上，随导线一起松开 / 缠绕
+// 颜色只写实例颜色，换主题 / 灯泡颜色时灯泡不会重新飞入
+const FairyLights = ({ state, count, seed, shape, audio, strings, palette, bulbColor, strandProgress }: { state: TreeState, count: number, seed: number, shape: TreeShape, audio: AudioLevels, strings: StrandPath[], palette: string[], bulbColor: string, strandProgress: React.MutableRefObject<number> }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const { material, uniforms } = useMemo(() => createTwinkleMaterial(), []);
+  useEffect(() => () => material.dispose(), [material]);
+  const paletteSize = palette.length;
 
   const data = useMemo(() => {
-    return new Array(count).fill(0).map(() => {
-      const chaosPos = new THREE.Vector3((Math.random()-0.5)*60, (Math.random()-0.5)*60, (Math.random()-0.5)*60);
-      const h = CONFIG.tree.height; const y = (Math.random() * h) - (h / 2); const rBase = CONFIG.tree.radius;
-      const currentRadius = (rBase * (1 - (y + (h/2)) / h)) + 0.3; const theta = Math.random() * Math.PI * 2;
-      const targetPos = new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
-      const color = CONFIG.colors.lights[Math.floor(Math.random() * CONFIG.colors.lights.length)];
-      const speed = 2 + Math.random() * 3;
-      return { chaosPos, targetPos, color, speed, currentPos: chaosPos.clone(), timeOffset: Math.random() * 100 };
+    return new Array(count).fill(0).map((_, i) => {
+      const rng = itemRng(seed, SEED_SALT.lights, i);
+      const chaosPos = new THREE.Vector3((rng()-0.5)*60, (rng()-0.5)*60, (rng()-0.5)*60);
+      const targetPos = new THREE.Vector3(...shape.sampleSurface(rng, LIGHT_STRING_OFFSET));
+      // 颜色池中的序号（池长度固定，见 themes.ts）
+      const slot = Math.floor(rng() * paletteSize);
+      const speed = 2 + rng() * 3;
+      // stringU：灯泡在灯串上的位置（0–1），-1 表示随机散布
+      let stringU = -1;
+      if (strings.length > 0) {
+        const path = strings[i % strings.length];
+        stringU = (Math.floor(i / strings.length) + 0.5) / Math.ceil(count / strings.length);
+        path.chaos.getPointAt(stringU, chaosPos);
+        path.formed.getPointAt(stringU, targetPos);
+      }
+      return { chaosPos, targetPos, slot, speed, stringU, currentPos: chaosPos.clone(), timeOffset: rng() * 100 };
     });
-  }, [count]);
+  }, [count, seed, shape, strings, paletteSize]);
+
+  const geometry = useMemo(() => {
+    const geo = new THREE.SphereGeometry(0.8, 8, 8);
+    const twinkle = new Float32Array(count * 2);
+    data.forEach((obj, i) => { twinkle[i * 2] = obj.speed; twinkle[i * 2 + 1] = obj.timeOffset; });
+    geo.setAttribute('aTwinkle', new THREE.InstancedBufferAttribute(twinkle, 2));
+    return geo;
+  }, [count, data]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const color = new THREE.Color();
+    data.forEach((obj, i) => mesh.setColorAt(i, color.set(bulbColor === MULTI_COLOR ? palette[obj.slot] : bulbColor)));
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [data, geometry, palette, bulbColor]);
+
+  const rotation = useMemo(() => new THREE.Euler(), []);
+  const matrix = useMemo(() => new THREE.Matrix4(), []);
 
   useFrame((stateObj, delta) => {
-    if (!groupRef.current) return;
+    const mesh = meshRef.current;
+    if (!mesh) return;
     const isFormed = state === 'FORMED';
-    const time = stateObj.clock.elapsedTime;
-    groupRef.current.children.forEach((child, i) => {
-      const objData = data[i];
-      const target = isFormed ? objData.targetPos : objData.chaosPos;
-      objData.currentPos.lerp(target, delta * 2.0);
-      const mesh = child as THREE.Mesh;
-      mesh.position.copy(objData.currentPos);
-      const intensity = (Math.sin(time * objData.speed + objData.timeOffset) + 1) / 2;
-      if (mesh.material) { (mesh.material as THREE.MeshStandardMaterial).emissiveIntensity = isFormed ? 3 + intensity * 4 : 0; }
+    uniforms.uTime.value = stateObj.clock.elapsedTime;
+    uniforms.uLit.value = isFormed ? 1 : 0;
+    uniforms.uAudio.value = MathUtils.damp(uniforms.uAudio.value, audio.active ? 1 : 0, 3, delta);
+    uniforms.uBands.value.set(Math.max(audio.bass, audio.beat), audio.treble);
+    data.forEach((objData, i) => {
+      if (objData.stringU >= 0) {
+        objData.currentPos.lerpVectors(objData.chaosPos, objData.targetPos, strandMix(strandProgress.current, objData.stringU));
+      } else {
+        const target = isFormed ? objData.targetPos : objData.chaosPos;
+        objData.currentPos.lerp(target, delta * 2.0);
+      }
+      mesh.setMatrixAt(i, composeInstance(matrix, objData.currentPos, rotation, 0.15));
     });
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh key={count} ref={meshRef} args={[geometry, material, count]} frustumCulled={false} />
+  );
+};
+
+// --- Component: Garlands（彩带 / 金属丝带 / 灯串导线：沿树螺旋缠绕，散开时松开飘散） ---
+// 缠绕进度 strandProgress 由 Experience 统一更新，导线与灯泡读取同一个值保持同步
+const STRAND_SPEED = 1.2;
+const LIGHT_WIRE_COLOR = '#1B3A1B';
+const Strands = ({ paths, turns, style, color, strandProgress }: { paths: StrandPath[], turns: number, style: GarlandStyle | 'wire', color: string, strandProgress: React.MutableRefObject<number> }) => {
+  const geometry = useMemo(() => createStrandGeometry(paths, turns, style), [paths, turns, style]);
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+  const { material, uniforms } = useMemo(() => createStrandMaterial(style === 'tinsel'
+    ? { metalness: 0.9, roughness: 0.25, emissiveIntensity: 0.25 }
+    : { metalness: 0.2, roughness: 0.55, emissiveIntensity: style === 'wire' ? 0 : 0.12 }), [style]);
+  useEffect(() => () => material.dispose(), [material]);
+  useEffect(() => {
+    material.color.set(color);
+    material.emissive.set(color);
+  }, [material, color]);
+  useFrame(() => { uniforms.uProgress.value = strandProgress.current; });
+  if (!geometry) return null;
+  return <mesh geometry={geometry} material={material} frustumCulled={false} />;
+};
+
+// 金属丝带的闪光点
+const Glitter = ({ paths, turns, seed, color, strandProgress }: { paths: StrandPath[], turns: number, seed: number, color: string, strandProgress: React.MutableRefObject<number> }) => {
+  const geometry = useMemo(() => createGlitterGeometry(paths, turns, seed, SEED_SALT.garlands), [paths, turns, seed]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  const { material, uniforms } = useMemo(() => createGlitterMaterial(), []);
+  useEffect(() => { uniforms.uColor.value.set(color); }, [uniforms, color]);
+  useFrame((stateObj) => {
+    uniforms.uProgress.value = strandProgress.current;
+    uniforms.uTime.value = stateObj.clock.elapsedTime;
   });
+  return <points geometry={geometry} material={material} frustumCulled={false} />;
+};
 
+const Garlands = ({ settings, seed, shape, strandProgress }: { settings: GarlandSettings, seed: number, shape: TreeShape, strandProgress: React.MutableRefObject<number> }) => {
+  const { count, turns, style, color } = settings;
+  const paths = useMemo(() => createStrandPaths(shape, CONFIG.tree, { count, turns, offset: GARLAND_OFFSET, seed, salt: SEED_SALT.garlands }), [shape, count, turns, seed]);
+  if (paths.length === 0) return null;
   return (
-    <group ref={groupRef}>
-      {data.map((obj, i) => ( <mesh key={i} scale={[0.15, 0.15, 0.15]} geometry={geometry}>
-          <meshStandardMaterial color={obj.color} emissive={obj.color} emissiveIntensity={0} toneMapped={false} />
-        </mesh> ))}
+    <group>
+      <Strands paths={paths} turns={turns} style={style} color={color} strandProgress={strandProgress} />
+      {style === 'tinsel' && <Glitter paths={paths} turns={turns} seed={seed} color={color} strandProgress={strandProgress} />}
     </group>
   );
 };
 
 // --- Component: Top Star (No Photo, Pure Gold 3D Star) ---
-const TopStar = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
+// 播放音乐时自发光随节拍脉动
+const STAR_EMISSIVE = 1.5;
+const TopStar = ({ state, apex, color, audio }: { state: TreeState, apex: Vec3, color: string, audio: AudioLevels }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const pulseRef = useRef(0);
 
   const starShape = useMemo(() => {
     const shape = new THREE.Shape();
@@ -441,14 +892,16 @@ const TopStar = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
     });
   }, [starShape]);
 
-  // 纯金材质
+  // 纯金材质（颜色随主题）
   const goldMaterial = useMemo(() => new THREE.MeshStandardMaterial({
-    color: CONFIG.colors.gold,
-    emissive: CONFIG.colors.gold,
-    emissiveIntensity: 1.5, // 适中亮度，既发光又有质感
+    emissiveIntensity: STAR_EMISSIVE, // 适中亮度，既发光又有质感
     roughness: 0.1,
     metalness: 1.0,
   }), []);
+  useEffect(() => {
+    goldMaterial.color.set(color);
+    goldMaterial.emissive.set(color);
+  }, [goldMaterial, color]);
 
   useFrame((_, delta) => {
     if (groupRef.current) {
@@ -456,10 +909,13 @@ const TopStar = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
       const targetScale = state === 'FORMED' ? 1 : 0;
       groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), delta * 3);
     }
+    const pulse = audio.active ? audio.beat * 2.5 + audio.bass * 0.8 : 0;
+    pulseRef.current = MathUtils.damp(pulseRef.current, pulse, 12, delta);
+    goldMaterial.emissiveIntensity = STAR_EMISSIVE + pulseRef.current;
   });
 
   return (
-    <group ref={groupRef} position={[0, CONFIG.tree.height / 2 + 1.8, 0]}>
+    <group ref={groupRef} position={[apex[0], apex[1] + 1.8, apex[2]]}>
       <Float speed={2} rotationIntensity={0.2} floatIntensity={0.2}>
         <mesh geometry={starGeometry} material={goldMaterial} />
       </Float>
@@ -467,52 +923,369 @@ const TopStar = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
   );
 };
 
+// --- Component: Greeting Title（五角星上方的 3D 标题；颜色超出泛光阈值，随 Bloom 发光） ---
+const TITLE_WIDTH = 16;
+const TITLE_OFFSET = 5.5;
+// 立体金字：正面之后叠放若干层深色文字，模拟挤出厚度
+const EXTRUDE_LAYERS = 10;
+const EXTRUDE_DEPTH = 0.6;
+const TITLE_GLOW_COLOR = new THREE.Color(2.2, 2.0, 1.6);
+const TITLE_FRONT_COLOR = new THREE.Color(1.3, 1.25, 1.1);
+const GreetingTitle = ({ text, font, mode, visible, apex }: { text: string, font: GreetingFontId, mode: Exclude<Title3DMode, 'off'>, visible: boolean, apex: Vec3 }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const front = useMemo(() => createTitleTexture(text, font), [text, font]);
+  const side = useMemo(() => (mode === 'extruded' ? createTitleTexture(text, font, 'shadow') : null), [text, font, mode]);
+  useEffect(() => () => front.dispose(), [front]);
+  useEffect(() => () => side?.dispose(), [side]);
+  const geometry = useMemo(() => new THREE.PlaneGeometry(TITLE_WIDTH, TITLE_WIDTH / TITLE_ASPECT), []);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((_, delta) => {
+    if (!groupRef.current) return;
+    const target = visible ? 1 : 0;
+    groupRef.current.scale.setScalar(MathUtils.damp(groupRef.current.scale.x, target, 3, delta));
+    groupRef.current.visible = groupRef.current.scale.x > 0.01;
+  });
+
+  return (
+    <group ref={groupRef} position={[apex[0], apex[1] + TITLE_OFFSET, apex[2]]} scale={0}>
+      <Billboard>
+        <Float speed={1.5} rotationIntensity={mode === 'extruded' ? 0.4 : 0.05} floatIntensity={0.3}>
+          {side && Array.from({ length: EXTRUDE_LAYERS }, (_, i) => (
+            <mesh key={i} geometry={geometry} position={[0, 0, -((i + 1) * EXTRUDE_DEPTH) / EXTRUDE_LAYERS]}>
+              <meshBasicMaterial map={side} alphaTest={0.5} />
+            </mesh>
+          ))}
+          <mesh geometry={geometry}>
+            {mode === 'glow'
+              ? <meshBasicMaterial map={front} color={TITLE_GLOW_COLOR} transparent depthWrite={false} toneMapped={false} />
+              : <meshBasicMaterial map={front} color={TITLE_FRONT_COLOR} alphaTest={0.5} toneMapped={false} />}
+          </mesh>
+        </Float>
+      </Billboard>
+    </group>
+  );
+};
+
+// --- Component: Weather（GPU 降雪 + 地面积雪；积雪程度同时驱动树叶上的积雪） ---
+// 默认雪量下约 90 秒积满，停雪后约 20 秒融化
+const SNOW_ACCUMULATE_SECONDS = 90;
+const SNOW_MELT_SECONDS = 20;
+const SNOW_REFERENCE_DENSITY = 4000;
+const Snowfall = ({ count, settings }: { count: number, settings: SnowSettings }) => {
+  const { material, uniforms } = useMemo(() => createSnowMaterial(), []);
+  const geometry = useMemo(() => createSnowGeometry(count), [count]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+  const wind = useMemo(() => new THREE.Vector2(), []);
+  useFrame((rootState, delta) => {
+    uniforms.uTime.value = rootState.clock.elapsedTime;
+    uniforms.uDrift.value.addScaledVector(windVector(settings, wind), delta);
+    uniforms.uSize.value = settings.size;
+  });
+  return <points geometry={geometry} material={material} frustumCulled={false} />;
+};
+
+const SnowGround = ({ cover }: { cover: React.MutableRefObject<number> }) => {
+  const { material, uniforms } = useMemo(() => createSnowGroundMaterial(), []);
+  useEffect(() => () => material.dispose(), [material]);
+  useFrame(() => { uniforms.uCover.value = cover.current; });
+  return (
+    <mesh position={[0, SNOW_BOX.min.y, 0]} rotation={[-Math.PI / 2, 0, 0]} material={material} renderOrder={-1}>
+      <circleGeometry args={[SNOW_GROUND_RADIUS, 64]} />
+    </mesh>
+  );
+};
+
+const Weather = ({ settings, maxFlakes, cover }: { settings: SnowSettings, maxFlakes: number, cover: React.MutableRefObject<number> }) => {
+  const count = Math.min(settings.density, maxFlakes);
+  useFrame((_, delta) => {
+    // 积雪速度按设置的雪量计算（不受画质上限影响），低档设备积雪效果一致
+    const rate = settings.density > 0
+      ? Math.min(2, settings.density / SNOW_REFERENCE_DENSITY) / SNOW_ACCUMULATE_SECONDS
+      : -1 / SNOW_MELT_SECONDS;
+    cover.current = MathUtils.clamp(cover.current + rate * delta, 0, 1);
+  });
+  return (
+    <>
+      {count > 0 && <Snowfall count={count} settings={settings} />}
+      <SnowGround cover={cover} />
+    </>
+  );
+};
+
+// --- Component: Quality Governor（按实测帧时间自动升降画质档位） ---
+const QualityGovernor = ({ adjust, tier, onTierChange, onFps }: { adjust: boolean, tier: number, onTierChange: (index: number) => void, onFps: (fps: number) => void }) => {
+  const onTierChangeRef = useRef(onTierChange);
+  onTierChangeRef.current = onTierChange;
+  const [governor] = useState(() => createQualityGovernor(tier, (index) => onTierChangeRef.current(index)));
+  // 外部切换档位（例如从锁定切回自动）时同步内部状态
+  useEffect(() => { governor.setTier(tier); }, [governor, tier]);
+  useFrame((_, delta) => {
+    const fps = governor.sample(delta, adjust);
+    if (fps !== null) onFps(fps);
+  });
+  return null;
+};
+
+// --- Component: FPS Readout（统计面板中的帧率，由 QualityGovernor 经 FpsMeter 推送） ---
+const FpsReadout = ({ meter }: { meter: FpsMeter }) => {
+  const { t } = useI18n();
+  const fps = useSyncExternalStore(meter.subscribe, meter.get);
+  return fps !== null ? ` · ${t('stats.fps', { fps: Math.round(fps) })}` : null;
+};
+
+// --- Component: Audio Sampler（每帧刷新一次音频电平，供彩灯 / 星星 / 泛光读取） ---
+const AudioSampler = ({ sample }: { sample: (delta: number) => void }) => {
+  useFrame((_, delta) => sample(delta));
+  return null;
+};
+
+// --- Component: Audio Bloom（泛光强度随节拍与响度起伏） ---
+// 直接持有 BloomEffect 实例逐帧改 intensity（<Bloom> 的 ref 类型声明为构造函数，无法按实例使用）
+const BLOOM_INTENSITY = 1.5;
+const AudioBloom = ({ audio }: { audio: AudioLevels }) => {
+  const bloom = useMemo(() => new BloomEffect({ luminanceThreshold: 0.8, luminanceSmoothing: 0.1, intensity: BLOOM_INTENSITY, radius: 0.5, mipmapBlur: true }), []);
+  useEffect(() => () => bloom.dispose(), [bloom]);
+  const boostRef = useRef(0);
+  useFrame((_, delta) => {
+    const boost = audio.active ? audio.beat * 1.2 + audio.energy * 0.8 : 0;
+    boostRef.current = MathUtils.damp(boostRef.current, boost, 10, delta);
+    bloom.intensity = BLOOM_INTENSITY + boostRef.current;
+  });
+  return <primitive object={bloom} dispose={null} />;
+};
+
+// --- Component: Capture Director（截图 / 录屏：frameloop 为 never 时按固定步长手动推进渲染） ---
+type CaptureResult = { blob: Blob, filename: string } | { error: LocalizedMessage };
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+// 截图前预跑的帧数，让泛光与阻尼动画适应新的画布尺寸
+const CAPTURE_WARMUP_FRAMES = 3;
+const ORBIT_AXIS = new THREE.Vector3(0, 1, 0);
+const CaptureDirector = ({ job, onSceneState, onProgress, onDone }: { job: CaptureJob | null, onSceneState: (state: SceneState) => void, onProgress: (progress: number) => void, onDone: (result: CaptureResult) => void }) => {
+  const { gl, size, camera, clock, advance } = useThree();
+  // 回调可能每次渲染都是新函数，放进 ref 以免重启正在进行的录制
+  const callbacks = useRef({ onSceneState, onProgress, onDone });
+  callbacks.current = { onSceneState, onProgress, onDone };
+  // 画布已按任务分辨率重新布局
+  const ready = !!job && size.width === job.preset.width && size.height === job.preset.height;
+
+  useEffect(() => {
+    if (!job || !ready) return;
+    let cancelled = false;
+    let sink: VideoSink | null = null;
+    const canvas = gl.domElement;
+    const run = async (): Promise<CaptureResult | null> => {
+      // 等待后期处理按新尺寸重建
+      await nextFrame();
+      await nextFrame();
+      if (cancelled) return null;
+      const maxSize = gl.capabilities.maxTextureSize;
+      if (job.preset.width > maxSize || job.preset.height > maxSize) return { error: { key: 'capture.tooLarge', params: { max: String(maxSize) } } };
+      // advance 传入的是绝对时间：停住时钟，从当前时间接着推进，每次的 delta 恰好一帧
+      clock.stop();
+      const t0 = clock.elapsedTime;
+      if (job.kind === 'png') {
+        for (let i = 1; i <= CAPTURE_WARMUP_FRAMES; i++) advance(t0 + i / 60);
+        return { blob: await canvasToPng(canvas), filename: captureFilename('png') };
+      }
+      const { fps, sequence } = job;
+      let frame = 0;
+      const step = () => { frame += 1; advance(t0 + frame / fps); };
+      // 预跑：先散开（不录制），再切换到聚合
+      if (sequence.scatterSeconds > 0) {
+        callbacks.current.onSceneState('CHAOS');
+        await nextFrame();
+        for (let i = 0; i < sequence.scatterSeconds * fps && !cancelled; i++) step();
+        callbacks.current.onSceneState('FORMED');
+        await nextFrame();
+      }
+      if (cancelled) return null;
+      sink = await createVideoSink(canvas, fps);
+      if (!sink) return { error: { key: 'capture.unsupported' } };
+      const assembleFrames = Math.round(sequence.assembleSeconds * fps);
+      const total = assembleFrames + Math.round(sequence.orbitSeconds * fps);
+      const orbitStep = sequence.orbitAngle / Math.max(1, total - assembleFrames);
+      for (let i = 0; i < total; i++) {
+        if (cancelled) return null;
+        if (i >= assembleFrames) camera.position.applyAxisAngle(ORBIT_AXIS, orbitStep);
+        step();
+        await sink.addFrame(i);
+        if (i % 10 === 0) callbacks.current.onProgress(i / total);
+      }
+      const blob = await sink.finish();
+      sink = null;
+      return { blob, filename: captureFilename('webm') };
+    };
+    run()
+      .then(result => { if (!cancelled && result) callbacks.current.onDone(result); })
+      .catch((err: unknown) => { if (!cancelled) callbacks.current.onDone({ error: { key: 'capture.failed', params: { detail: err instanceof Error ? err.message : String(err) } } }); });
+    return () => {
+      cancelled = true;
+      sink?.cancel();
+      // 手动推进后 clock.oldTime 是秒而不是毫秒：切回实时渲染前重新启动，避免第一帧的 delta 异常
+      clock.start();
+    };
+  }, [job, ready, gl, camera, clock, advance]);
+
+  return null;
+};
+
+// --- Component: Timeline Orbit（贺卡时间线的环绕步骤：在 OrbitControls 更新之前转动镜头） ---
+const TimelineOrbit = ({ orbit }: { orbit: TimelinePlayer['orbit'] }) => {
+  const camera = useThree(state => state.camera);
+  useFrame((_, delta) => {
+    if (orbit) camera.position.applyAxisAngle(ORBIT_AXIS, (orbit.radians * delta) / orbit.seconds);
+  }, -2);
+  return null;
+};
+
+// --- 装饰模式：把指针位置换算为树表面上的点（拖动挂件 / 点击添加元素） ---
+type SurfaceOffset = { offset: number, scale: number };
+// snapToEdge：指针不在树上时吸附到最近的轮廓边缘（拖动用）；否则返回 null（点击添加用）
+type SurfacePicker = (clientX: number, clientY: number, surface: SurfaceOffset, snapToEdge: boolean) => Vec3 | null;
+type SurfaceDrag = { surface: SurfaceOffset, onMove: (position: Vec3) => void, onDrop: (position: Vec3) => void };
+type BeginDrag = (e: ThreeEvent<PointerEvent>, drag: SurfaceDrag) => void;
+// 按下与抬起之间移动不超过该距离（px）视为点击，否则是在旋转视角
+const CLICK_TOLERANCE = 5;
+
+const useSurfacePicker = (treeRef: React.RefObject<THREE.Group>, shape: TreeShape): SurfacePicker => {
+  const camera = useThree(state => state.camera);
+  const gl = useThree(state => state.gl);
+  const [raycaster] = useState(() => new THREE.Raycaster());
+  return useCallback((clientX, clientY, { offset, scale }, snapToEdge) => {
+    const group = treeRef.current;
+    if (!group) return null;
+    // 导出时画布经 CSS 缩放显示，按实际显示区域换算
+    const rect = gl.domElement.getBoundingClientRect();
+    const ndc = new THREE.Vector2(((clientX - rect.left) / rect.width) * 2 - 1, -((clientY - rect.top) / rect.height) * 2 + 1);
+    raycaster.setFromCamera(ndc, camera);
+    const ray = raycaster.ray.clone().applyMatrix4(scratchMatrix.copy(group.matrixWorld).invert());
+    return intersectShapeSurface(shape, ray, offset, scale) ?? (snapToEdge ? nearestShapeSurface(shape, ray, offset, scale) : null);
+  }, [treeRef, shape, camera, gl, raycaster]);
+};
+
+// 拖动期间暂停 OrbitControls；指针捕获到画布上，移出树或越过面板也能继续拖动
+const useSurfaceDrag = (pick: SurfacePicker, controlsRef: React.MutableRefObject<{ enabled: boolean } | null>): BeginDrag => {
+  const gl = useThree(state => state.gl);
+  return (e, { surface, onMove, onDrop }) => {
+    e.stopPropagation();
+    const canvas = gl.domElement;
+    const controls = controlsRef.current;
+    if (controls) controls.enabled = false;
+    canvas.setPointerCapture(e.pointerId);
+    let last: Vec3 | null = null;
+    const move = (ev: PointerEvent) => {
+      const position = pick(ev.clientX, ev.clientY, surface, true);
+      if (position) { last = position; onMove(position); }
+    };
+    const end = () => {
+      canvas.removeEventListener('pointermove', move);
+      canvas.removeEventListener('pointerup', end);
+      canvas.removeEventListener('pointercancel', end);
+      if (canvas.hasPointerCapture(e.pointerId)) canvas.releasePointerCapture(e.pointerId);
+      if (controls) controls.enabled = true;
+      if (last) onDrop(last);
+    };
+    canvas.addEventListener('pointermove', move);
+    canvas.addEventListener('pointerup', end);
+    canvas.addEventListener('pointercancel', end);
+  };
+};
+
+// 点击树表面（不是拖动视角）时回调表面上的点
+const useSurfaceClick = (enabled: boolean, pick: SurfacePicker, surface: SurfaceOffset, onPick: (position: Vec3) => void) => {
+  const gl = useThree(state => state.gl);
+  const onPickRef = useRef(onPick);
+  onPickRef.current = onPick;
+  useEffect(() => {
+    if (!enabled) return;
+    const canvas = gl.domElement;
+    let down: { x: number, y: number } | null = null;
+    const onDown = (e: PointerEvent) => { down = { x: e.clientX, y: e.clientY }; };
+    const onUp = (e: PointerEvent) => {
+      const start = down;
+      down = null;
+      if (!start || Math.hypot(e.clientX - start.x, e.clientY - start.y) > CLICK_TOLERANCE) return;
+      const position = pick(e.clientX, e.clientY, surface, false);
+      if (position) onPickRef.current(position);
+    };
+    canvas.addEventListener('pointerdown', onDown);
+    canvas.addEventListener('pointerup', onUp);
+    return () => {
+      canvas.removeEventListener('pointerdown', onDown);
+      canvas.removeEventListener('pointerup', onUp);
+    };
+  }, [enabled, gl, pick, surface]);
+};
+
 // --- Main Scene Experience ---
-const Experience = ({ sceneState, rotationSpeed, photoUrls, counts, transitionProgress = 0, ringRadius = 14, isGallery = false, gallerySpeed = 1.0 }: { sceneState: 'CHAOS' | 'FORMED', rotationSpeed: number, photoUrls: string[], counts: { foliage: number; ornaments: number; elements: number; lights: number; gallery: { photos: number; scale: number; radius: number; moveSpeed: number }; camera: { distance: number }; hd: boolean }, transitionProgress?: number, ringRadius?: number, isGallery?: boolean, gallerySpeed?: number }) => {
+const Experience = ({ sceneState, rotationSpeed, photoUrls, photoKinds, photoTextures, photoStatuses, focusUrls, photoCrops, photoMetas, counts, seed, shape, gallery, quality, audio, greeting, decor, theme, onPhotoClick, lockedPhotos, unlockingPhotos, decorating = false, transitionProgress = 0, ringRadius = 14, isGallery = false, gallerySpeed = 1.0 }: { sceneState: TreeState, rotationSpeed: number, photoUrls: string[], photoKinds: MediaKind[], photoTextures: (THREE.Texture | null)[], photoStatuses: (TextureStatus | null)[], focusUrls: string[], photoCrops: PhotoCrop[], photoMetas: PhotoMeta[], counts: SceneCounts, seed: number, shape: TreeShape, gallery: GalleryController, quality: QualityTier, audio: AudioLevels, greeting: Greeting, decor: DecorController, theme: ThemeColors, onPhotoClick?: (photoIndex: number) => void, lockedPhotos?: boolean[], unlockingPhotos?: ReadonlyMap<number, number>, decorating?: boolean, transitionProgress?: number, ringRadius?: number, isGallery?: boolean, gallerySpeed?: number }) => {
   const controlsRef = useRef<any>(null);
+  // 装饰模式：拖动 / 点击换算到树的局部坐标（树整体下移 6）
+  const treeRef = useRef<THREE.Group>(null);
+  const decorTool = decorating ? decor.tool : null;
+  const pickSurface = useSurfacePicker(treeRef, shape);
+  const beginDrag = useSurfaceDrag(pickSurface, controlsRef);
+  useSurfaceClick(decorTool === 'add', pickSurface, ELEMENT_SURFACE, decor.addElement);
+  // 彩带与灯串的缠绕进度（0 = 松开，1 = 缠绕）
+  const strandProgress = useRef(0);
+  const { count: stringCount, turns: stringTurns, color: bulbColor } = counts.lightStrings;
+  const lightStrings = useMemo(() => createStrandPaths(shape, CONFIG.tree, { count: stringCount, turns: stringTurns, offset: LIGHT_STRING_OFFSET, seed, salt: SEED_SALT.lightStrings }), [shape, stringCount, stringTurns, seed]);
+  // 积雪程度（0–1），由 Weather 逐帧更新，树叶与地面读取
+  const snowCover = useRef(0);
   const { gl } = useThree();
-  const supportsPost = !!(gl && (gl as any).capabilities && (gl as any).capabilities.isWebGL2) && !IS_MOBILE;
-  const effCounts = IS_MOBILE ? {
-    foliage: Math.min(counts.foliage, 8000),
-    ornaments: Math.min(counts.ornaments, 160),
-    elements: Math.min(counts.elements, 120),
-    lights: Math.min(counts.lights, 180)
-  } : counts;
-  useFrame(() => {
+  const supportsPost = !!(gl && (gl as any).capabilities && (gl as any).capabilities.isWebGL2) && quality.bloom;
+  // 当前画质档位的数量上限
+  const effCounts = {
+    foliage: Math.min(counts.foliage, quality.foliage),
+    ornaments: Math.min(counts.ornaments, quality.ornaments),
+    lights: Math.min(counts.lights, quality.lights)
+  };
+  // 手动布局的元素数量不受参数面板限制，但仍受画质档位上限约束
+  const elements = useMemo(() => decor.elements.slice(0, quality.elements), [decor.elements, quality.elements]);
+  useFrame((_, delta) => {
     if (controlsRef.current) {
       controlsRef.current.setAzimuthalAngle(controlsRef.current.getAzimuthalAngle() + rotationSpeed);
       controlsRef.current.update();
     }
+    strandProgress.current = MathUtils.damp(strandProgress.current, sceneState === 'FORMED' ? 1 : 0, STRAND_SPEED, delta);
   });
 
   return (
     <>
       <PerspectiveCamera makeDefault position={[0, 8, counts.camera.distance]} fov={45} />
-      <OrbitControls ref={controlsRef} enablePan={false} enableZoom={true} minDistance={30} maxDistance={120} autoRotate={rotationSpeed === 0 && sceneState === 'FORMED'} autoRotateSpeed={0.3} maxPolarAngle={Math.PI / 1.7} />
+      <OrbitControls ref={controlsRef} enablePan={false} enableZoom={true} minDistance={30} maxDistance={120} autoRotate={rotationSpeed === 0 && sceneState === 'FORMED' && !decorTool} autoRotateSpeed={0.3} maxPolarAngle={Math.PI / 1.7} />
 
-      <color attach="background" args={['#000300']} />
-      <Stars radius={100} depth={50} count={IS_QQ ? 1000 : (IS_MOBILE ? 2000 : 5000)} factor={4} saturation={0} fade speed={1} />
-      {!IS_MOBILE && <Environment preset="night" background={false} />}
+      <color attach="background" args={[theme.background]} />
+      <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />
+      {quality.environment && <Environment preset="night" background={false} />}
 
-      <ambientLight intensity={0.4} color="#003311" />
-      <pointLight position={[30, 30, 30]} intensity={100} color={CONFIG.colors.warmLight} />
-      <pointLight position={[-30, 10, -30]} intensity={50} color={CONFIG.colors.gold} />
-      <pointLight position={[0, -20, 10]} intensity={30} color="#ffffff" />
+      <ambientLight intensity={0.4} color={theme.ambient} />
+      <pointLight position={[30, 30, 30]} intensity={100} color={theme.keyLight} />
+      <pointLight position={[-30, 10, -30]} intensity={50} color={theme.fillLight} />
+      <pointLight position={[0, -20, 10]} intensity={30} color={theme.bottomLight} />
 
-      <group position={[0, -6, 0]}>
-        <Foliage state={sceneState} count={effCounts.foliage} />
+      <group ref={treeRef} position={[0, -6, 0]}>
+        <Foliage state={sceneState} count={effCounts.foliage} seed={seed} shape={shape} color={theme.foliage} pointScale={quality.pointScale} snowCover={snowCover} />
         <Suspense fallback={null}>
-           <PhotoOrnaments state={sceneState} photoUrls={photoUrls} count={effCounts.ornaments} transitionProgress={transitionProgress} ringRadius={ringRadius} isGallery={isGallery} gallerySpeed={gallerySpeed} focusScale={counts.gallery.scale} hdMode={counts.hd} />
-           <ChristmasElements state={sceneState} count={effCounts.elements} />
-           <FairyLights state={sceneState} count={effCounts.lights} />
-           <TopStar state={sceneState} />
+           <PhotoOrnaments state={sceneState} photoUrls={photoUrls} photoKinds={photoKinds} photoTextures={photoTextures} photoStatuses={photoStatuses} focusUrls={focusUrls} photoCrops={photoCrops} photoMetas={photoMetas} count={effCounts.ornaments} seed={seed} shape={shape} transitionProgress={transitionProgress} ringRadius={ringRadius} galleryLayout={counts.gallery.layout} galleryCount={counts.gallery.photos} selectedIndex={gallery.selectedIndex} onSelect={gallery.select} onPhotoClick={onPhotoClick} lockedPhotos={lockedPhotos} unlockingPhotos={unlockingPhotos} isGallery={isGallery} gallerySpeed={gallerySpeed} focusScale={counts.gallery.scale} hdMode={counts.hd} mipmaps={quality.mipmaps} placed={decor.layout?.photos} beginDrag={decorTool === 'move' ? beginDrag : undefined} onPlace={decor.placePhoto} />
+           <ChristmasElements state={sceneState} elements={elements} seed={seed} tool={decorTool} beginDrag={beginDrag} onPlace={decor.placeElement} onRemove={decor.removeElement} />
+           <FairyLights state={sceneState} count={effCounts.lights} seed={seed} shape={shape} audio={audio} strings={lightStrings} palette={theme.bulbs} bulbColor={bulbColor} strandProgress={strandProgress} />
+           <Strands paths={lightStrings} turns={stringTurns} style="wire" color={LIGHT_WIRE_COLOR} strandProgress={strandProgress} />
+           <Garlands settings={counts.garland} seed={seed} shape={shape} strandProgress={strandProgress} />
+           <TopStar state={sceneState} apex={shape.apex} color={theme.star} audio={audio} />
+           {greeting.title3d !== 'off' && greeting.title && (
+             <GreetingTitle text={greeting.title} font={greeting.font} mode={greeting.title3d} visible={sceneState === 'FORMED' || isGallery} apex={shape.apex} />
+           )}
         </Suspense>
-        <Sparkles count={IS_MOBILE ? 200 : 600} scale={50} size={8} speed={0.4} opacity={0.4} color={CONFIG.colors.silver} />
+        <Sparkles count={quality.sparkles} scale={50} size={8} speed={0.4} opacity={0.4} color={theme.sparkles} />
       </group>
+      <Weather settings={counts.snow} maxFlakes={quality.snow} cover={snowCover} />
 
       {supportsPost && (
         <EffectComposer>
-          <Bloom luminanceThreshold={0.8} luminanceSmoothing={0.1} intensity={1.5} radius={0.5} mipmapBlur />
+          <AudioBloom audio={audio} />
           <Vignette eskil={false} offset={0.1} darkness={1.2} />
         </EffectComposer>
       )}
@@ -529,176 +1302,702 @@ const Experience = ({ sceneState, rotationSpeed, photoUrls, counts, transitionPr
 // --- 已移除 GestureController ---
 
 // --- App Entry ---
+// 说明面板的段落（按显示顺序）；交互改动时同步更新 i18n 中对应的 help.* 文案
+const HELP_SECTIONS: MessageKey[] = ['help.states', 'help.gallery', 'help.upload', 'help.library', 'help.music', 'help.timeline', 'help.greeting', 'help.decorate', 'help.capture', 'help.weather', 'help.garland', 'help.theme', 'help.settings', 'help.share', 'help.advent', 'help.offline', 'help.language'];
+
 export default function GrandTreeApp() {
-  const [sceneState, setSceneState] = useState<'CHAOS' | 'FORMED' | 'GALLERY'>('FORMED');
+  // 界面语言：按浏览器语言检测，可在右上角手动切换
+  const i18n = useLocaleState();
+  const { t, formatNumber } = i18n;
+  // 启动时解析分享链接（#scene=...），越界值已按面板范围截断
+  const [initialScene] = useState(() => readSceneFromLocation({ state: 'FORMED', counts: CONFIG.counts, seed: randomSeed(), shape: 'cone' }));
+  // 嵌入模式（?embed）：地址中的初始参数优先于分享链接，照片由宿主页面提供，可隐藏部分界面
+  const [embedOptions] = useState(() => readEmbedOptions(initialScene?.counts ?? CONFIG.counts));
+  const hidden = embedOptions.hidden;
+  const [sceneState, setSceneState] = useState<SceneState>(embedOptions.state ?? initialScene?.state ?? 'FORMED');
   const [rotationSpeed] = useState(0);
   // 已移除 AI 状态与调试模式
-  // 动态照片列表（默认使用构建期扫描的资源，可追加用户上传）
-  const [photoUrls, setPhotoUrls] = useState<string[]>(bodyPhotoPaths);
   const fileInputRef = useRef<HTMLInputElement>(null);
   // 参数设置（可视化可调）
-  const [counts, setCounts] = useState(CONFIG.counts);
+  const [counts, setCounts] = useState<SceneCounts>(embedOptions.counts ?? initialScene?.counts ?? CONFIG.counts);
+  // 布局种子：写入链接，保证同一链接打开后是同一棵树
+  const [seed, setSeed] = useState(() => initialScene?.seed ?? randomSeed());
+  // 树形：剪影图片只保存在本次会话中，链接仅记录形状类型
+  const [shapeId, setShapeId] = useState<TreeShapeId>(initialScene?.shape ?? 'cone');
+  const [shapeMask, setShapeMask] = useState<ShapeMask | null>(null);
+  const [shapeError, setShapeError] = useState<LocalizedMessage | null>(null);
+  const treeShape = useMemo(() => createTreeShape(shapeId, CONFIG.tree, shapeMask), [shapeId, shapeMask]);
+  const maskInputRef = useRef<HTMLInputElement>(null);
+  const handleMaskSelected: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+    const file = e.target.files?.[0];
+    if (maskInputRef.current) maskInputRef.current.value = '';
+    if (!file) return;
+    try {
+      setShapeMask(await loadShapeMask(file));
+      setShapeId('mask');
+      setShapeError(null);
+    } catch {
+      setShapeError({ key: 'settings.maskError' });
+    }
+  };
+  // 祝福语：可由链接参数个性化（title / subtitle / to / font / title3d），修改后同步到地址栏
+  const [greeting, setGreeting] = useState<Greeting>(() => readGreetingFromLocation());
+  useEffect(() => { writeGreetingToLocation(greeting); }, [greeting]);
+  const updateGreeting = (patch: Partial<Greeting>) => setGreeting(g => ({ ...g, ...patch }));
   const [showSettings, setShowSettings] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  // 配色主题：链接中带主题时优先使用，否则沿用本机保存的主题
+  const theme = useTheme(embedOptions.theme ?? initialScene?.theme, !embedOptions.enabled);
+  const themeColors = theme.theme.colors;
+  const [showTheme, setShowTheme] = useState(false);
+  // 降临节日历：开启后前 24 张照片按 12 月的日期解锁；预览日期只在本机生效，不写入链接
+  const [adventSettings, setAdventSettings] = useState<AdventSettings | null>(initialScene?.advent ?? null);
+  const [adventPreview, setAdventPreview] = useState<AdventPreview>(null);
+  const advent = useAdvent(adventSettings, adventPreview);
+  const timeZones = useMemo(() => (showSettings && adventSettings ? listTimeZones() : []), [showSettings, adventSettings]);
+  // 离线安装：新版本就绪时提示刷新
+  const serviceWorker = useServiceWorker();
 
   const handlePickFiles = () => fileInputRef.current?.click();
   const handleFilesSelected: React.ChangeEventHandler<HTMLInputElement> = (e) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
-    const topRegex = /^top\.(jpg|jpeg|png|webp)$/i;
-    const selected = Array.from(files).map(f => ({ url: URL.createObjectURL(f), name: f.name || '' }));
-    selected.sort((a, b) => {
-      const aTop = topRegex.test(a.name);
-      const bTop = topRegex.test(b.name);
-      if (aTop && !bTop) return -1;
-      if (!aTop && bTop) return 1;
-      return a.name.localeCompare(b.name);
-    });
-    const newUrls = selected.map(s => s.url);
-    // 仅使用用户上传的照片来组成圣诞树
-    setPhotoUrls(newUrls);
+    // 右下角上传：替换整个照片库（追加请使用照片库面板）
+    library.replacePhotos(Array.from(files));
     // 清空 input 值，便于重复选择同一文件
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // 画质：自动模式由 QualityGovernor 按帧率升降档，也可在参数面板锁定
+  const [qualityMode, setQualityMode] = useState<QualityMode>('auto');
+  const [autoTier, setAutoTier] = useState(() => tierIndex(INITIAL_TIER));
+  const [fpsMeter] = useState(createFpsMeter);
+  const quality = QUALITY_TIERS[qualityMode === 'auto' ? autoTier : tierIndex(qualityMode)];
+  // 高清模式下允许设备最高像素比
+  const canvasDpr = Math.min(counts.hd ? 2 : quality.dpr, window.devicePixelRatio || 1);
+
+  // 装饰模式：手动摆放的布局按树形保存在本机；未摆放时元素按数量与种子随机生成
+  const { elements: elementColors, candy: candyColors } = themeColors;
+  const generatedElements = useMemo(() => randomElements(Math.min(counts.elements, quality.elements), seed, treeShape, { elements: elementColors, candy: candyColors }), [counts.elements, quality.elements, seed, treeShape, elementColors, candyColors]);
+  const decor = useDecorLayout({ shape: shapeId, randomElements: generatedElements, persist: !embedOptions.enabled });
+  const handleToggleDecor = () => {
+    if (decor.enabled) { decor.setEnabled(false); return; }
+    decor.setEnabled(true);
+    setSceneState('FORMED');
+  };
+
+  // 照片库（IndexedDB 持久化）；为空时使用构建期扫描的内置照片
+  // 上传时按当前档位预处理：树上用缩略图，照片墙聚焦时换成大图
+  const library = usePhotoLibrary({ thumbEdge: quality.thumbEdge, largeEdge: quality.largeEdge });
+  // 宿主页面通过 setPhotos 指定的照片优先于照片库与内置照片
+  const [embedPhotos, setEmbedPhotos] = useState<string[] | null>(embedOptions.photos ?? null);
+  // 显存预算：超出时树上只使用前 N 张照片（其余挂件循环复用这些纹理）
+  // 内置照片的类型：按扩展名判断，.webp 需读取文件头确认是否为动图
+  const [bundledKinds, setBundledKinds] = useState<MediaKind[]>(() => bodyPhotoPaths.map(mediaKindFromName));
+  useEffect(() => {
+    let cancelled = false;
+    bodyPhotoPaths.forEach((path, i) => {
+      if (!/\.webp$/i.test(path)) return;
+      fetch(path)
+        .then(res => res.blob())
+        .then(blob => detectMediaKind(blob, path))
+        .then(kind => {
+          if (cancelled || kind === 'image') return;
+          setBundledKinds(prev => prev.map((k, j) => (j === i ? kind : k)));
+        })
+        .catch(() => { /* 读取失败按静态图处理 */ });
+    });
+    return () => { cancelled = true; };
+  }, []);
+  const textureBudget = useMemo(() => {
+    // 视频 / 动图在树上以原尺寸作为纹理
+    const used = (embedPhotos ? [] : library.photos).slice(0, Math.min(counts.ornaments, quality.ornaments))
+      .map(p => (p.kind === 'image' ? p : { ...p, thumbWidth: p.width, thumbHeight: p.height }));
+    return { ...fitTextureBudget(used, quality.textureBudgetMB, quality.mipmaps || counts.hd), used: used.length };
+  }, [embedPhotos, library.photos, counts.ornaments, counts.hd, quality]);
+  const budgetWarning = textureBudget.count < textureBudget.used
+    ? t('stats.budgetWarning', { total: Math.round(textureBudget.totalMB), tier: t(`quality.${quality.id}`), budget: textureBudget.budgetMB, count: textureBudget.count })
+    : null;
+  // 视频 / 动图在树上直接播放原文件，静态图使用缩略图
+  const photoLists = useMemo(() => {
+    if (embedPhotos) return { photoUrls: embedPhotos, photoKinds: embedPhotos.map(url => mediaKindFromName(url.split(/[?#]/)[0])), focusUrls: embedPhotos, photoCrops: [], photoMetas: [] };
+    // 照片库读取完成前不显示照片：否则内置照片先出现，随后又被库中的照片替换
+    if (!library.loaded) return { photoUrls: [], photoKinds: [], focusUrls: [], photoCrops: [], photoMetas: [] };
+    if (library.photos.length === 0) return { photoUrls: bodyPhotoPaths, photoKinds: bundledKinds, focusUrls: bodyPhotoPaths, photoCrops: [], photoMetas: [] };
+    const shown = library.photos.slice(0, textureBudget.count);
+    return {
+      photoUrls: shown.map(p => (p.kind === 'image' ? p.thumbUrl : p.url)),
+      photoKinds: shown.map(p => p.kind),
+      focusUrls: shown.map(p => p.url),
+      photoCrops: shown.map(p => p.crop),
+      photoMetas: shown.map(p => p.meta),
+    };
+  }, [embedPhotos, library.loaded, library.photos, textureBudget.count, bundledKinds]);
+  // 降临节日历只使用前 24 张照片；锁定的照片不加载原图、不显示说明，挂件显示为礼物
+  const { photoUrls, photoKinds, focusUrls, photoCrops, photoMetas } = useMemo(() => {
+    if (!advent.enabled) return photoLists;
+    return {
+      photoUrls: photoLists.photoUrls.slice(0, ADVENT_DAYS),
+      photoKinds: photoLists.photoKinds.slice(0, ADVENT_DAYS).map((kind, t) => (advent.locked[t] ? 'image' : kind)),
+      focusUrls: photoLists.focusUrls.slice(0, ADVENT_DAYS),
+      photoCrops: photoLists.photoCrops.slice(0, ADVENT_DAYS).map((crop, t) => (advent.locked[t] ? DEFAULT_CROP : crop)),
+      photoMetas: photoLists.photoMetas.slice(0, ADVENT_DAYS).map((meta, t) => (advent.locked[t] ? EMPTY_META : meta)),
+    };
+  }, [photoLists, advent.enabled, advent.locked]);
+  // 聚焦照片的说明：挂件 i 使用第 i % n 张照片（n 为实际加载的照片数）
+  const loadedPhotoCount = Math.min(photoUrls.length, counts.ornaments, quality.ornaments);
+  // 树上静态照片的纹理逐张加载：其余部分照常渲染，单张失败显示占位图，可重试或从照片库移除
+  const treeImageUrls = useMemo(() => photoUrls.slice(0, loadedPhotoCount).map((url, t) => (photoKinds[t] === 'image' && !advent.locked[t] ? url : null)), [photoUrls, photoKinds, loadedPhotoCount, advent.locked]);
+  const photoTextures = usePhotoTextures(treeImageUrls);
+  const treeTextures = useMemo(() => (advent.enabled ? photoTextures.textures.map((texture, t) => (advent.locked[t] ? getGiftTexture(t + 1) : texture)) : photoTextures.textures), [photoTextures.textures, advent.enabled, advent.locked]);
+  const failedPhotos = photoTextures.statuses.flatMap((status, t) => {
+    if (status !== 'error') return [];
+    const url = treeImageUrls[t]!;
+    const photo = !embedPhotos && library.photos.length > 0 ? library.photos[t] : undefined;
+    return [{ url, name: photo?.name ?? decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() ?? ''), id: photo?.id }];
+  });
+  const { loaded: texturesLoaded, failed: texturesFailed, total: texturesTotal } = photoTextures.progress;
+
+  // 背景音乐：驱动彩灯、星星与泛光；无音乐时保持原有闪烁
+  const music = useBackgroundMusic();
+
+  // 截图 / 录屏：导出期间画布按任务分辨率布局（缩放显示），逐帧手动渲染
+  const [showCapture, setShowCapture] = useState(false);
+  const [captureJob, setCaptureJob] = useState<CaptureJob | null>(null);
+  const [captureProgress, setCaptureProgress] = useState(0);
+  const [captureMessage, setCaptureMessage] = useState<LocalizedMessage | null>(null);
+  const sceneBeforeCapture = useRef<SceneState>('FORMED');
+  const handleStartCapture = (job: CaptureJob) => {
+    sceneBeforeCapture.current = sceneState;
+    setCaptureProgress(0);
+    setCaptureMessage(null);
+    setCaptureJob(job);
+  };
+  const handleCaptureDone = (result: CaptureResult) => {
+    setCaptureJob(null);
+    setSceneState(sceneBeforeCapture.current);
+    if ('error' in result) { setCaptureMessage(result.error); return; }
+    downloadBlob(result.blob, result.filename);
+    setCaptureMessage({ key: 'capture.saved', params: { filename: result.filename } });
+  };
+  const handleCancelCapture = () => {
+    setCaptureJob(null);
+    setSceneState(sceneBeforeCapture.current);
+    setCaptureMessage({ key: 'capture.cancelled' });
+  };
+  const captureStyle: React.CSSProperties | null = captureJob && {
+    width: `${captureJob.preset.width}px`,
+    height: `${captureJob.preset.height}px`,
+    top: '50%',
+    left: '50%',
+    transform: `translate(-50%, -50%) scale(${Math.min(window.innerWidth / captureJob.preset.width, window.innerHeight / captureJob.preset.height)})`,
+  };
+
+  // 照片墙导航：键盘 / 滑动 / 按钮 / 自动播放
+  const gallery = useGalleryController({
+    active: sceneState === 'GALLERY',
+    // 与照片墙实际渲染的挂件数一致（受画质档位上限约束）
+    total: Math.min(counts.gallery.photos, counts.ornaments, quality.ornaments),
+    intervalSeconds: counts.gallery.interval,
+  });
+
+  // 贺卡时间线：链接中带有时间线时自动播放；观看者点击屏幕即停止
+  const [timeline, setTimeline] = useState<Timeline>(() => initialScene?.timeline ?? createDefaultTimeline(t('timeline.defaultMessage')));
+  const [embedTimeline, setEmbedTimeline] = useState(!!initialScene?.timeline);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const player = useTimelinePlayer({
+    timeline,
+    autoplay: !!initialScene?.timeline,
+    onSceneState: setSceneState,
+    onFocusPhoto: (index) => gallery.select(gallery.total > 0 ? index % gallery.total : null),
+  });
+  const sharedTimeline = embedTimeline ? timeline : undefined;
+
+  // 地址栏始终保存当前场景，刷新或复制地址即可复现
+  useEffect(() => {
+    writeSceneToLocation({ state: sceneState, counts, seed, shape: shapeId, timeline: sharedTimeline, theme: theme.theme, advent: adventSettings ?? undefined });
+  }, [sceneState, counts, seed, shapeId, sharedTimeline, theme.theme, adventSettings]);
+
+  // 嵌入模式：执行宿主页面的命令，把状态变化与照片点击发回宿主
+  const { emit: emitEmbedEvent } = useEmbedHost(embedOptions, (command: EmbedCommand) => {
+    switch (command.type) {
+      case 'setState': setSceneState(command.state); break;
+      case 'setPhotos': setEmbedPhotos(command.photos); break;
+      case 'focusPhoto':
+        if (command.index !== null) setSceneState('GALLERY');
+        gallery.select(command.index !== null && gallery.total > 0 ? command.index % gallery.total : null);
+        break;
+      // 只给出的字段生效，其余保持当前值
+      case 'setCounts': setCounts(c => sanitizeCounts(command.counts, c)); break;
+      case 'setTheme': {
+        const next = parseEmbedTheme(command.theme);
+        if (next) theme.restore(next);
+        break;
+      }
+    }
+  });
+  useEffect(() => { emitEmbedEvent({ type: 'stateChange', state: sceneState }); }, [emitEmbedEvent, sceneState]);
+  const handlePhotoClick = useCallback((index: number) => {
+    emitEmbedEvent({ type: 'photoClick', index, url: focusUrls[index] });
+  }, [emitEmbedEvent, focusUrls]);
+
+  const sceneFileRef = useRef<HTMLInputElement>(null);
+  const [shareMessage, setShareMessage] = useState<LocalizedMessage | null>(null);
+  const handleCopyLink = async () => {
+    const url = buildShareUrl({ state: sceneState, counts, seed, shape: shapeId, timeline: sharedTimeline, theme: theme.theme, advent: adventSettings ?? undefined });
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareMessage({ key: 'share.copied' });
+    } catch {
+      // 剪贴板不可用（非 HTTPS / 权限被拒）时退回手动复制
+      window.prompt(t('share.copyPrompt'), url);
+    }
+  };
+  const handleExportJson = () => {
+    const blob = new Blob([sceneToJson({ state: sceneState, counts, seed, shape: shapeId, timeline: sharedTimeline, decor: decor.layout ?? undefined, theme: theme.theme, advent: adventSettings ?? undefined })], { type: 'application/json' });
+    downloadBlob(blob, 'christmas-tree-scene.json');
+  };
+  const handleImportJson: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+    const file = e.target.files?.[0];
+    if (sceneFileRef.current) sceneFileRef.current.value = '';
+    if (!file) return;
+    const text = await readTextFile(file);
+    const scene = text === null ? null : sceneFromJson(text, { state: sceneState, counts, seed, shape: shapeId });
+    if (!scene) { setShareMessage({ key: 'share.invalidFile' }); return; }
+    setCounts(scene.counts);
+    setSceneState(scene.state);
+    setSeed(scene.seed);
+    setShapeId(scene.shape);
+    if (scene.timeline) {
+      setTimeline(scene.timeline);
+      setEmbedTimeline(true);
+    }
+    if (scene.decor) decor.restore(scene.decor);
+    if (scene.theme) theme.restore(scene.theme);
+    setAdventSettings(scene.advent ?? null);
+    setShareMessage({ key: 'share.imported' });
+  };
+
   const handleToggleByClick = () => setSceneState(s => (
     s === 'GALLERY' ? s : (s === 'FORMED' ? 'CHAOS' : s === 'CHAOS' ? 'GALLERY' : 'FORMED')
   ));
 
   return (
-    <div onClick={(e) => {
-      const el = e.target as HTMLElement;
-      if (el.closest('.ui-buttons') || el.closest('.settings-panel') || el.closest('.help-panel') || el.closest('.top-right-buttons')) return;
-      handleToggleByClick();
-    }} style={{ width: '100vw', height: '100vh', backgroundColor: '#000', position: 'relative', overflow: 'hidden' }}>
-      {/* 顶部固定文案（不随视角/缩放/状态变化） */}
-      <div className="top-banner">
-        <div className="title">Merry Christmax</div>
-        <div className="subtitle">点击任意处开始（PC端更清晰哦）</div>
-      </div>
-      <div style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0, zIndex: 1 }}>
-        <Canvas dpr={IS_MOBILE ? (counts.hd ? Math.min(2, window.devicePixelRatio || 2) : 1) : [1, 2]} gl={{ toneMapping: THREE.ReinhardToneMapping, antialias: IS_MOBILE ? counts.hd : true, powerPreference: 'high-performance' }} shadows={!IS_MOBILE}>
-          <SceneRoot sceneState={sceneState} rotationSpeed={rotationSpeed} photoUrls={photoUrls} counts={counts} />
-        </Canvas>
-      </div>
-
-      {/* UI - Stats */}
-      <div style={{ position: 'absolute', bottom: '30px', left: '40px', color: '#888', zIndex: 10, fontFamily: 'sans-serif', userSelect: 'none' }}>
-        <div style={{ marginBottom: '15px' }}>
-          <p style={{ fontSize: '10px', letterSpacing: '2px', textTransform: 'uppercase', marginBottom: '4px' }}>回忆</p>
-          <p style={{ fontSize: '24px', color: '#FFD700', fontWeight: 'bold', margin: 0 }}>
-            {counts.ornaments.toLocaleString()} <span style={{ fontSize: '10px', color: '#555', fontWeight: 'normal' }}>照片数量</span>
-          </p>
-        </div>
-        <div>
-          <p style={{ fontSize: '10px', letterSpacing: '2px', textTransform: 'uppercase', marginBottom: '4px' }}>叶子</p>
-          <p style={{ fontSize: '24px', color: '#004225', fontWeight: 'bold', margin: 0 }}>
-            {(counts.foliage / 1000).toFixed(0)}K <span style={{ fontSize: '10px', color: '#555', fontWeight: 'normal' }}>叶子数量</span>
-          </p>
+    <I18nContext.Provider value={i18n}>
+      <div onClick={(e) => {
+        const el = e.target as HTMLElement;
+        if (el.closest('.ui-buttons') || el.closest('.settings-panel') || el.closest('.help-panel') || el.closest('.library-panel') || el.closest('.gallery-controls') || el.closest('.top-right-buttons') || el.closest('.timeline-panel') || el.closest('.decor-panel') || el.closest('.theme-panel') || el.closest('.photo-errors') || el.closest('.pwa-toast') || el.closest(MUSIC_CONTROLS_SELECTOR)) return;
+        // 装饰模式中点击用于摆放元素，不切换状态
+        if (decor.enabled && sceneState === 'FORMED') return;
+        // 贺卡播放中：点击只停止播放，交还给观看者
+        if (player.playing) { player.stop(); return; }
+        handleToggleByClick();
+      }} {...gallery.swipeHandlers} style={{ width: '100vw', height: '100vh', backgroundColor: '#000', position: 'relative', overflow: 'hidden' }}>
+        {/* 顶部固定文案（不随视角/缩放/状态变化） */}
+        {!hidden.has('banner') && (
+          <div className="top-banner">
+            {greeting.recipient && <div className="recipient" style={{ fontFamily: greetingFontFamily(greeting.font) }}>{t('banner.recipient', { name: greeting.recipient })}</div>}
+            {greeting.title && <div className="title" style={{ fontFamily: greetingFontFamily(greeting.font) }}>{greeting.title}</div>}
+            {player.playing
+              ? <div className="subtitle">{t('banner.timelinePlaying')}</div>
+              : <div className="subtitle">{greeting.subtitle || t('banner.hint')}</div>}
+            {adventSettings && <AdventCountdown settings={adventSettings} preview={adventPreview} />}
+          </div>
+        )}
+        <div style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0, zIndex: 1, ...captureStyle }}>
+          {/* antialias / shadows 只能在创建上下文时确定，按初始档位决定 */}
+          {/* 按 offsetWidth 测量尺寸：导出时容器经 CSS 缩放显示，画布仍保持任务分辨率 */}
+          <Canvas dpr={captureJob ? 1 : canvasDpr} frameloop={captureJob ? 'never' : 'always'} resize={{ offsetSize: true }} gl={{ toneMapping: THREE.ReinhardToneMapping, antialias: !IS_LIGHT_DEVICE || counts.hd, powerPreference: 'high-performance' }} shadows={!IS_LIGHT_DEVICE}>
+            <QualityGovernor adjust={qualityMode === 'auto' && !captureJob} tier={autoTier} onTierChange={setAutoTier} onFps={fpsMeter.report} />
+            <TimelineOrbit orbit={player.orbit} />
+            <CaptureDirector job={captureJob} onSceneState={setSceneState} onProgress={setCaptureProgress} onDone={handleCaptureDone} />
+            <AudioSampler sample={music.sample} />
+            <SceneRoot sceneState={sceneState} rotationSpeed={rotationSpeed} photoUrls={photoUrls} photoKinds={photoKinds} photoTextures={treeTextures} photoStatuses={photoTextures.statuses} focusUrls={focusUrls} photoCrops={photoCrops} photoMetas={photoMetas} counts={counts} seed={seed} shape={treeShape} gallery={gallery} quality={quality} audio={music.levels} greeting={greeting} decor={decor} theme={themeColors} onPhotoClick={handlePhotoClick} lockedPhotos={advent.locked} unlockingPhotos={advent.unlocking} />
+          </Canvas>
         </div>
-      </div>
 
-      {/* UI - Buttons */}
-      <div className="ui-buttons" style={{ position: 'absolute', bottom: '30px', right: '40px', zIndex: 10, display: 'flex', gap: '10px' }}>
-        {/* 上传照片（支持多选） */}
-        <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleFilesSelected} style={{ display: 'none' }} />
-        <button onClick={handlePickFiles} style={{ padding: '12px 15px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontFamily: 'sans-serif', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
-           上传照片
-        </button>
-        {sceneState === 'GALLERY' ? (
-          <button onClick={() => setSceneState('FORMED')} style={{ padding: '12px 24px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid rgba(255, 215, 0, 0.5)', color: '#FFD700', fontFamily: 'serif', fontSize: '14px', fontWeight: 'bold', letterSpacing: '3px', textTransform: 'uppercase', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
-            返回树
-          </button>
-        ) : (
-          <>
-            <button onClick={() => setSceneState(s => s === 'CHAOS' ? 'FORMED' : 'CHAOS')} style={{ padding: '12px 30px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid rgba(255, 215, 0, 0.5)', color: '#FFD700', fontFamily: 'serif', fontSize: '14px', fontWeight: 'bold', letterSpacing: '3px', textTransform: 'uppercase', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
-              {sceneState === 'CHAOS' ? '聚合树' : '散开树'}
-            </button>
-            <button onClick={() => setSceneState('GALLERY')} style={{ padding: '12px 18px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontFamily: 'sans-serif', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
-              照片墙
-            </button>
-          </>
+        {/* UI - Stats */}
+        {!hidden.has('stats') && (
+          <div style={{ position: 'absolute', bottom: '30px', left: '40px', color: '#888', zIndex: 10, fontFamily: 'sans-serif', userSelect: 'none' }}>
+            <div style={{ marginBottom: '15px' }}>
+              <p style={{ fontSize: '10px', letterSpacing: '2px', textTransform: 'uppercase', marginBottom: '4px' }}>{t('stats.memories')}</p>
+              <p style={{ fontSize: '24px', color: '#FFD700', fontWeight: 'bold', margin: 0 }}>
+                {formatNumber(counts.ornaments)} <span style={{ fontSize: '10px', color: '#555', fontWeight: 'normal' }}>{t('stats.photos')}</span>
+              </p>
+            </div>
+            <div style={{ marginBottom: '15px' }}>
+              <p style={{ fontSize: '10px', letterSpacing: '2px', textTransform: 'uppercase', marginBottom: '4px' }}>{t('stats.foliage')}</p>
+              <p style={{ fontSize: '24px', color: '#004225', fontWeight: 'bold', margin: 0 }}>
+                {formatNumber(counts.foliage, { notation: 'compact', maximumFractionDigits: 1 })} <span style={{ fontSize: '10px', color: '#555', fontWeight: 'normal' }}>{t('stats.particles')}</span>
+              </p>
+            </div>
+            <div>
+              <p style={{ fontSize: '10px', letterSpacing: '2px', textTransform: 'uppercase', marginBottom: '4px' }}>{t('stats.quality')}</p>
+              <p style={{ fontSize: '14px', color: '#FFD700', fontWeight: 'bold', margin: 0 }}>
+                {t(`quality.${quality.id}`)} <span style={{ fontSize: '10px', color: '#555', fontWeight: 'normal' }}>{qualityMode === 'auto' ? t('stats.auto') : t('stats.locked')}<FpsReadout meter={fpsMeter} /></span>
+              </p>
+              {library.processing > 0 && <p style={{ fontSize: '10px', color: '#aaa', margin: '6px 0 0' }}>{t('stats.processing', { count: library.processing })}</p>}
+              {budgetWarning && <p style={{ fontSize: '10px', color: '#ff9966', margin: '6px 0 0', maxWidth: '260px' }}>⚠ {budgetWarning}</p>}
+              {texturesLoaded + texturesFailed < texturesTotal && (
+                <div style={{ margin: '6px 0 0', width: '160px' }}>
+                  <p style={{ fontSize: '10px', color: '#aaa', margin: '0 0 3px' }}>{t('stats.loadingPhotos', { loaded: texturesLoaded + texturesFailed, total: texturesTotal })}</p>
+                  <div style={{ height: '3px', background: 'rgba(255,255,255,0.15)', borderRadius: '2px', overflow: 'hidden' }}>
+                    <div style={{ width: `${((texturesLoaded + texturesFailed) / texturesTotal) * 100}%`, height: '100%', background: '#FFD700', transition: 'width 0.2s' }} />
+                  </div>
+                </div>
+              )}
+              {failedPhotos.length > 0 && (
+                <div className="photo-errors" style={{ margin: '6px 0 0', maxWidth: '260px', userSelect: 'text' }}>
+                  <p style={{ fontSize: '10px', color: '#ff9966', margin: '0 0 3px' }}>⚠ {t('stats.photoErrors', { count: failedPhotos.length })}</p>
+                  <ul style={{ listStyle: 'none', margin: 0, padding: 0, maxHeight: '96px', overflowY: 'auto' }}>
+                    {failedPhotos.map(photo => (
+                      <li key={photo.url} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '10px', color: '#ccc', padding: '1px 0' }}>
+                        <span title={photo.name} style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{photo.name}</span>
+                        <button onClick={() => photoTextures.retry(photo.url)} style={{ padding: '1px 6px', background: 'transparent', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', fontSize: '10px', cursor: 'pointer', borderRadius: '3px' }}>{t('button.retry')}</button>
+                        {photo.id && <button onClick={() => library.removePhoto(photo.id!)} style={{ padding: '1px 6px', background: 'transparent', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', fontSize: '10px', cursor: 'pointer', borderRadius: '3px' }}>{t('button.remove')}</button>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
         )}
-      </div>
 
-      {/* UI - Top Right Buttons */}
-      <div className="top-right-buttons" style={{ position: 'absolute', top: '20px', right: '20px', zIndex: 12, display: 'flex', gap: '8px' }}>
-        <button onClick={() => setShowSettings(true)} style={{ padding: '8px 12px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
-          参数设置
-        </button>
-        <button onClick={() => setShowHelp(true)} style={{ padding: '8px 12px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
-          说明
-        </button>
-      </div>
+        {/* UI - Buttons */}
+        {!hidden.has('buttons') && (
+          <div className="ui-buttons" style={{ position: 'absolute', bottom: '30px', right: '40px', zIndex: 10, display: 'flex', gap: '10px' }}>
+            {/* 上传照片（支持多选） */}
+            <input ref={fileInputRef} type="file" accept={MEDIA_ACCEPT} multiple onChange={handleFilesSelected} style={{ display: 'none' }} />
+            <button onClick={handlePickFiles} style={{ padding: '12px 15px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontFamily: 'sans-serif', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+               {t('button.upload')}
+            </button>
+            {sceneState === 'GALLERY' ? (
+              <button onClick={() => setSceneState('FORMED')} style={{ padding: '12px 24px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid rgba(255, 215, 0, 0.5)', color: '#FFD700', fontFamily: 'serif', fontSize: '14px', fontWeight: 'bold', letterSpacing: '3px', textTransform: 'uppercase', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+                {t('button.backToTree')}
+              </button>
+            ) : (
+              <>
+                <button onClick={() => setSceneState(s => s === 'CHAOS' ? 'FORMED' : 'CHAOS')} style={{ padding: '12px 30px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid rgba(255, 215, 0, 0.5)', color: '#FFD700', fontFamily: 'serif', fontSize: '14px', fontWeight: 'bold', letterSpacing: '3px', textTransform: 'uppercase', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+                  {sceneState === 'CHAOS' ? t('button.assemble') : t('button.scatter')}
+                </button>
+                <button onClick={() => setSceneState('GALLERY')} style={{ padding: '12px 18px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontFamily: 'sans-serif', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+                  {t('button.gallery')}
+                </button>
+              </>
+            )}
+          </div>
+        )}
 
-      {/* 参数面板 */}
-      {showSettings && (
-        <div className="settings-panel" style={{ position: 'absolute', top: '60px', right: '20px', zIndex: 13, width: '320px', background: 'rgba(0,0,0,0.7)', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', padding: '12px', borderRadius: '8px', backdropFilter: 'blur(6px)' }}>
-          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
-            <span style={{ fontWeight: 'bold' }}>参数设置</span>
-            <button onClick={() => setShowSettings(false)} style={{ background: 'transparent', border: 'none', color: '#FFD700', cursor: 'pointer' }}>✕</button>
+        {/* UI - Timeline Message（贺卡祝福语） */}
+        {player.message && <div key={player.stepIndex} className="timeline-message">{player.message}</div>}
+
+        {/* UI - Gallery Controls（仅照片墙） */}
+        {sceneState === 'GALLERY' && !hidden.has('gallery') && (
+          <div className="gallery-controls">
+            <button onClick={gallery.prev} title={t('gallery.prev')}>‹</button>
+            <span className="gallery-index">
+              {gallery.selectedIndex !== null ? gallery.selectedIndex + 1 : '-'} / {gallery.total}
+            </span>
+            <button onClick={gallery.next} title={t('gallery.next')}>›</button>
+            <button onClick={() => gallery.setAutoplay(!gallery.autoplay)} title={t('gallery.autoplay')}>
+              {gallery.autoplay ? (gallery.paused ? t('gallery.paused') : t('gallery.playing')) : t('gallery.start')}
+            </button>
           </div>
-          <div className="settings-grid">
-            <label>树叶粒子数量（越大越密，性能压力增）</label>
-            <input type="number" min={1000} max={80000} value={counts.foliage} onChange={(e) => setCounts(c => ({ ...c, foliage: Math.max(1000, Math.min(80000, Number(e.target.value) || 0)) }))} inputMode="numeric" />
+        )}
 
-            <label>拍立得照片数量（可超过照片数，循环使用）</label>
-            <input type="number" min={10} max={1000} value={counts.ornaments} onChange={(e) => setCounts(c => ({ ...c, ornaments: Math.max(1, Math.min(2000, Number(e.target.value) || 0)) }))} inputMode="numeric" />
+        {/* UI - Music（左上角） */}
+        {!hidden.has('music') && <MusicControls music={music} />}
 
-            <label>圣诞元素数量（礼物盒、球、拐杖糖）</label>
-            <input type="number" min={10} max={1000} value={counts.elements} onChange={(e) => setCounts(c => ({ ...c, elements: Math.max(0, Math.min(2000, Number(e.target.value) || 0)) }))} inputMode="numeric" />
+        {/* UI - Top Right Buttons */}
+        {!hidden.has('toolbar') && (
+          <div className="top-right-buttons" style={{ position: 'absolute', top: '20px', right: '20px', zIndex: 12, display: 'flex', gap: '8px' }}>
+            <button onClick={() => setShowSettings(true)} style={{ padding: '8px 12px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+              {t('button.settings')}
+            </button>
+            <button onClick={() => setShowTimeline(true)} style={{ padding: '8px 12px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+              {t('button.timeline')}
+            </button>
+            <button onClick={() => setShowCapture(true)} style={{ padding: '8px 12px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+              {t('button.capture')}
+            </button>
+            <button onClick={() => setShowLibrary(true)} style={{ padding: '8px 12px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+              {t('button.library')}
+            </button>
+            <button onClick={handleToggleDecor} style={{ padding: '8px 12px', backgroundColor: decor.enabled ? 'rgba(255,215,0,0.25)' : 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+              {t('button.decorate')}
+            </button>
+            <button onClick={() => setShowTheme(true)} style={{ padding: '8px 12px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+              {t('button.theme')}
+            </button>
+            <button onClick={() => setShowHelp(true)} style={{ padding: '8px 12px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+              {t('button.help')}
+            </button>
+            <select value={i18n.locale} onChange={(e) => i18n.setLocale(e.target.value as Locale)} title={t('locale.label')} style={{ padding: '8px 6px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+              {LOCALE_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+            </select>
+          </div>
+        )}
 
-            <label>彩灯数量（闪烁灯泡数）</label>
-            <input type="number" min={10} max={1000} value={counts.lights} onChange={(e) => setCounts(c => ({ ...c, lights: Math.max(0, Math.min(2000, Number(e.target.value) || 0)) }))} inputMode="numeric" />
+        {/* 参数面板 */}
+        {showSettings && (
+          <div className="settings-panel" style={{ position: 'absolute', top: '60px', right: '20px', zIndex: 13, width: '320px', background: 'rgba(0,0,0,0.7)', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', padding: '12px', borderRadius: '8px', backdropFilter: 'blur(6px)' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+              <span style={{ fontWeight: 'bold' }}>{t('settings.title')}</span>
+              <button onClick={() => setShowSettings(false)} style={{ background: 'transparent', border: 'none', color: '#FFD700', cursor: 'pointer' }}>✕</button>
+            </div>
+            <div className="settings-grid">
+              <label>{t('settings.foliage')}</label>
+              <input type="number" min={COUNT_LIMITS.foliage.min} max={COUNT_LIMITS.foliage.max} value={counts.foliage} onChange={(e) => setCounts(c => ({ ...c, foliage: clampCount('foliage', Number(e.target.value) || 0) }))} inputMode="numeric" />
+
+              <label>{t('settings.ornaments')}</label>
+              <input type="number" min={COUNT_LIMITS.ornaments.min} max={COUNT_LIMITS.ornaments.max} value={counts.ornaments} onChange={(e) => setCounts(c => ({ ...c, ornaments: clampCount('ornaments', Number(e.target.value) || 0) }))} inputMode="numeric" />
+
+              <label>{t('settings.elements')}</label>
+              <input type="number" min={COUNT_LIMITS.elements.min} max={COUNT_LIMITS.elements.max} value={counts.elements} onChange={(e) => setCounts(c => ({ ...c, elements: clampCount('elements', Number(e.target.value) || 0) }))} inputMode="numeric" />
+
+              <label>{t('settings.lights')}</label>
+              <input type="number" min={COUNT_LIMITS.lights.min} max={COUNT_LIMITS.lights.max} value={counts.lights} onChange={(e) => setCounts(c => ({ ...c, lights: clampCount('lights', Number(e.target.value) || 0) }))} inputMode="numeric" />
+
+              <label>{t('settings.cameraDistance')}</label>
+              <input type="number" min={COUNT_LIMITS.cameraDistance.min} max={COUNT_LIMITS.cameraDistance.max} value={counts.camera.distance} onChange={(e) => setCounts(c => ({ ...c, camera: { distance: clampCount('cameraDistance', Number(e.target.value) || 0) }, gallery: c.gallery }))} inputMode="numeric" />
+
+              <label>{t('settings.galleryPhotos')}</label>
+              <input type="number" min={COUNT_LIMITS.galleryPhotos.min} max={COUNT_LIMITS.galleryPhotos.max} value={counts.gallery.photos} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, photos: clampCount('galleryPhotos', Number(e.target.value) || 0) } }))} inputMode="numeric" />
+
+              <label>{t('settings.galleryLayout')}</label>
+              <select value={counts.gallery.layout} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, layout: e.target.value as GalleryLayoutId } }))}>
+                {GALLERY_LAYOUT_OPTIONS.map(o => <option key={o.id} value={o.id}>{t(`layout.${o.id}`)}</option>)}
+              </select>
+
+              <label>{t('settings.galleryScale')}</label>
+              <input type="number" min={COUNT_LIMITS.galleryScale.min} max={COUNT_LIMITS.galleryScale.max} value={counts.gallery.scale} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, scale: clampCount('galleryScale', Number(e.target.value) || 0) } }))} inputMode="numeric" />
+
+              <label>{t('settings.galleryRadius')}</label>
+              <input type="number" min={COUNT_LIMITS.galleryRadius.min} max={COUNT_LIMITS.galleryRadius.max} value={counts.gallery.radius} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, radius: clampCount('galleryRadius', Number(e.target.value) || 0) } }))} inputMode="numeric" />
+
+              <label>{t('settings.galleryInterval')}</label>
+              <input type="number" min={COUNT_LIMITS.galleryInterval.min} max={COUNT_LIMITS.galleryInterval.max} value={counts.gallery.interval} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, interval: clampCount('galleryInterval', Number(e.target.value) || 0) } }))} inputMode="numeric" />
+
+              <label>{t('settings.galleryMoveSpeed')}</label>
+              <input type="number" min={COUNT_LIMITS.galleryMoveSpeed.min} max={COUNT_LIMITS.galleryMoveSpeed.max} value={counts.gallery.moveSpeed} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, moveSpeed: clampCount('galleryMoveSpeed', Number(e.target.value) || 0) } }))} inputMode="numeric" />
+
+              <label>{t('settings.seed')}</label>
+              <div className="seed-input">
+                <input type="number" min={0} max={MAX_SEED} value={seed} onChange={(e) => setSeed(Math.max(0, Math.min(MAX_SEED, Math.floor(Number(e.target.value) || 0))))} inputMode="numeric" />
+                <button onClick={() => setSeed(randomSeed())} title={t('settings.randomSeed')}>🎲</button>
+              </div>
+
+              <label>{t('settings.shape')}</label>
+              <select value={shapeId} onChange={(e) => setShapeId(e.target.value as TreeShapeId)}>
+                {TREE_SHAPE_IDS.map(id => <option key={id} value={id}>{t(`shape.${id}`)}</option>)}
+              </select>
+
+              {shapeId === 'mask' && (
+                <>
+                  <label>{t('settings.mask')}{!shapeMask && t('settings.maskMissing')}</label>
+                  <div>
+                    <input ref={maskInputRef} type="file" accept="image/*" onChange={handleMaskSelected} style={{ display: 'none' }} />
+                    <button className="panel-button" onClick={() => maskInputRef.current?.click()}>{t('settings.pickImage')}</button>
+                  </div>
+                </>
+              )}
+
+              <label>{t('settings.quality')}</label>
+              <select value={qualityMode} onChange={(e) => setQualityMode(e.target.value as QualityMode)}>
+                <option value="auto">{t('settings.qualityAuto', { tier: t(`quality.${QUALITY_TIERS[autoTier].id}`) })}</option>
+                {QUALITY_TIERS.map(tier => <option key={tier.id} value={tier.id}>{t('settings.qualityLocked', { tier: t(`quality.${tier.id}`) })}</option>)}
+              </select>
+
+              <label>{t('settings.hd')}</label>
+              <input type="checkbox" checked={!!counts.hd} onChange={(e) => setCounts(c => ({ ...c, hd: e.target.checked }))} />
+
+              <label>{t('settings.snowDensity', { max: quality.snow })}</label>
+              <input type="number" min={COUNT_LIMITS.snowDensity.min} max={COUNT_LIMITS.snowDensity.max} step={500} value={counts.snow.density} onChange={(e) => setCounts(c => ({ ...c, snow: { ...c.snow, density: clampCount('snowDensity', Math.round(Number(e.target.value) || 0)) } }))} inputMode="numeric" />
+
+              <label>{t('settings.snowSize')}</label>
+              <input type="number" min={COUNT_LIMITS.snowSize.min} max={COUNT_LIMITS.snowSize.max} step={0.1} value={counts.snow.size} onChange={(e) => setCounts(c => ({ ...c, snow: { ...c.snow, size: clampCount('snowSize', Number(e.target.value) || 0) } }))} inputMode="decimal" />
+
+              <label>{t('settings.snowWind')}</label>
+              <input type="number" min={COUNT_LIMITS.snowWind.min} max={COUNT_LIMITS.snowWind.max} step={0.5} value={counts.snow.wind} onChange={(e) => setCounts(c => ({ ...c, snow: { ...c.snow, wind: clampCount('snowWind', Number(e.target.value) || 0) } }))} inputMode="decimal" />
+
+              <label>{t('settings.snowDirection', { degrees: counts.snow.direction })}</label>
+              <input type="range" min={COUNT_LIMITS.snowDirection.min} max={COUNT_LIMITS.snowDirection.max} step={15} value={counts.snow.direction} onChange={(e) => setCounts(c => ({ ...c, snow: { ...c.snow, direction: clampCount('snowDirection', Number(e.target.value) || 0) } }))} />
+
+              <label>{t('settings.garlandCount')}</label>
+              <input type="number" min={COUNT_LIMITS.garlandCount.min} max={COUNT_LIMITS.garlandCount.max} value={counts.garland.count} onChange={(e) => setCounts(c => ({ ...c, garland: { ...c.garland, count: clampCount('garlandCount', Math.round(Number(e.target.value) || 0)) } }))} inputMode="numeric" />
+
+              <label>{t('settings.garlandStyle')}</label>
+              <div className="color-row">
+                <select value={counts.garland.style} onChange={(e) => setCounts(c => ({ ...c, garland: { ...c.garland, style: e.target.value as GarlandStyle } }))}>
+                  {GARLAND_STYLES.map(style => <option key={style} value={style}>{t(`garland.${style}`)}</option>)}
+                </select>
+                <input type="color" value={counts.garland.color} onChange={(e) => setCounts(c => ({ ...c, garland: { ...c.garland, color: e.target.value } }))} title={t('settings.garlandColor')} />
+              </div>
+
+              <label>{t('settings.garlandTurns')}</label>
+              <input type="number" min={COUNT_LIMITS.garlandTurns.min} max={COUNT_LIMITS.garlandTurns.max} step={0.5} value={counts.garland.turns} onChange={(e) => setCounts(c => ({ ...c, garland: { ...c.garland, turns: clampCount('garlandTurns', Number(e.target.value) || 0) } }))} inputMode="decimal" />
+
+              <label>{t('settings.lightStringCount')}</label>
+              <input type="number" min={COUNT_LIMITS.lightStringCount.min} max={COUNT_LIMITS.lightStringCount.max} value={counts.lightStrings.count} onChange={(e) => setCounts(c => ({ ...c, lightStrings: { ...c.lightStrings, count: clampCount('lightStringCount', Math.round(Number(e.target.value) || 0)) } }))} inputMode="numeric" />
+
+              <label>{t('settings.lightStringTurns')}</label>
+              <input type="number" min={COUNT_LIMITS.lightStringTurns.min} max={COUNT_LIMITS.lightStringTurns.max} step={0.5} value={counts.lightStrings.turns} onChange={(e) => setCounts(c => ({ ...c, lightStrings: { ...c.lightStrings, turns: clampCount('lightStringTurns', Number(e.target.value) || 0) } }))} inputMode="decimal" />
+
+              <label>{t('settings.bulbColor')}</label>
+              <div className="color-row">
+                <label>
+                  <input type="checkbox" checked={counts.lightStrings.color === MULTI_COLOR} onChange={(e) => setCounts(c => ({ ...c, lightStrings: { ...c.lightStrings, color: e.target.checked ? MULTI_COLOR : CONFIG.colors.warmLight } }))} />{t('settings.bulbMulti')}
+                </label>
+                <input type="color" disabled={counts.lightStrings.color === MULTI_COLOR} value={counts.lightStrings.color === MULTI_COLOR ? CONFIG.colors.warmLight : counts.lightStrings.color} onChange={(e) => setCounts(c => ({ ...c, lightStrings: { ...c.lightStrings, color: e.target.value } }))} />
+              </div>
+
+              <label>{t('settings.advent')}</label>
+              <input type="checkbox" checked={adventSettings !== null} onChange={(e) => setAdventSettings(e.target.checked ? { timeZone: '' } : null)} />
+
+              {adventSettings && (
+                <>
+                  <label>{t('settings.adventTimeZone')}</label>
+                  <select value={adventSettings.timeZone} onChange={(e) => setAdventSettings({ timeZone: e.target.value })}>
+                    <option value="">{t('settings.adventLocalZone')}</option>
+                    {timeZones.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+                  </select>
+
+                  <label>{t('settings.adventPreview')}</label>
+                  <select value={adventPreview ?? ''} onChange={(e) => setAdventPreview(e.target.value === '' ? null : Number(e.target.value))}>
+                    <option value="">{t('settings.adventPreviewOff')}</option>
+                    {ADVENT_PREVIEW_DAYS.map(day => <option key={day} value={day}>{day === 0 ? t('advent.previewBefore') : t('advent.previewDay', { day })}</option>)}
+                  </select>
+                </>
+              )}
+
+              <label>{t('settings.greetingTitle')}</label>
+              <input type="text" maxLength={GREETING_LIMITS.title} value={greeting.title} onChange={(e) => updateGreeting({ title: e.target.value })} />
+
+              <label>{t('settings.greetingSubtitle')}</label>
+              <input type="text" maxLength={GREETING_LIMITS.subtitle} value={greeting.subtitle} onChange={(e) => updateGreeting({ subtitle: e.target.value })} />
+
+              <label>{t('settings.greetingRecipient')}</label>
+              <input type="text" maxLength={GREETING_LIMITS.recipient} value={greeting.recipient} onChange={(e) => updateGreeting({ recipient: e.target.value })} />
+
+              <label>{t('settings.greetingFont')}</label>
+              <select value={greeting.font} onChange={(e) => updateGreeting({ font: e.target.value as GreetingFontId })}>
+                {GREETING_FONTS.map(f => <option key={f.id} value={f.id}>{t(`font.${f.id}`)}</option>)}
+              </select>
+
+              <label>{t('settings.title3d')}</label>
+              <select value={greeting.title3d} onChange={(e) => updateGreeting({ title3d: e.target.value as Title3DMode })}>
+                {TITLE_3D_MODES.map(mode => <option key={mode} value={mode}>{t(`title3d.${mode}`)}</option>)}
+              </select>
+              <hr style={{ borderColor: 'rgba(255,215,0,0.2)' }} />
+            </div>
+            <p className="hint">{t('settings.hint')}</p>
+            <div className="share-actions">
+              <input ref={sceneFileRef} type="file" accept="application/json,.json" onChange={handleImportJson} style={{ display: 'none' }} />
+              <button onClick={handleCopyLink}>{t('share.copyLink')}</button>
+              <button onClick={handleExportJson}>{t('button.exportJson')}</button>
+              <button onClick={() => sceneFileRef.current?.click()}>{t('button.importJson')}</button>
+            </div>
+            {shareMessage && <p className="hint">{t(shareMessage.key, shareMessage.params)}</p>}
+            {shapeError && <p className="hint">{t(shapeError.key, shapeError.params)}</p>}
+          </div>
+        )}
 
-            <label>默认视角距离（越小越近）</label>
-            <input type="number" min={25} max={120} value={counts.camera.distance} onChange={(e) => setCounts(c => ({ ...c, camera: { distance: Math.max(25, Math.min(120, Number(e.target.value) || 0)) }, gallery: c.gallery }))} inputMode="numeric" />
+        {/* 贺卡时间线面板 */}
+        {showTimeline && (
+          <TimelineEditor
+            timeline={timeline}
+            player={player}
+            embed={embedTimeline}
+            onChange={setTimeline}
+            onEmbedChange={setEmbedTimeline}
+            onClose={() => setShowTimeline(false)}
+          />
+        )}
 
-            <label>照片墙：照片数量</label>
-            <input type="number" min={3} max={100} value={counts.gallery.photos} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, photos: Math.max(3, Math.min(100, Number(e.target.value) || 0)) } }))} inputMode="numeric" />
+        {/* 装饰模式面板 */}
+        {decor.enabled && (
+          <DecoratePanel decor={decor} formed={sceneState === 'FORMED'} onClose={() => decor.setEnabled(false)} />
+        )}
 
-            <label>照片墙：照片大小（缩放）</label>
-            <input type="number" min={0.5} max={2.5} value={counts.gallery.scale} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, scale: Math.max(0.5, Math.min(2.5, Number(e.target.value) || 0)) } }))} inputMode="numeric" />
+        {/* 配色主题面板 */}
+        {showTheme && (
+          <ThemeEditor theme={theme} onClose={() => setShowTheme(false)} />
+        )}
 
-            <label>照片墙：环形半径（密度）</label>
-            <input type="number" min={8} max={30} value={counts.gallery.radius} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, radius: Math.max(8, Math.min(30, Number(e.target.value) || 0)) } }))} inputMode="numeric" />
+        {/* 截图 / 录屏面板 */}
+        {(showCapture || captureJob) && (
+          <CaptureMenu
+            busy={captureJob?.kind ?? null}
+            progress={captureProgress}
+            message={captureMessage && t(captureMessage.key, captureMessage.params)}
+            onCapture={handleStartCapture}
+            onCancel={handleCancelCapture}
+            onClose={() => setShowCapture(false)}
+          />
+        )}
 
-            <label>照片墙：迁移速度（散开→照片墙）</label>
-            <input type="number" min={0.2} max={20} value={counts.gallery.moveSpeed} onChange={(e) => setCounts(c => ({ ...c, gallery: { ...c.gallery, moveSpeed: Math.max(0.2, Math.min(20, Number(e.target.value) || 0)) } }))} inputMode="numeric" />
+        {/* 照片库面板 */}
+        {showLibrary && (
+          <PhotoLibraryPanel
+            photos={library.photos}
+            processing={library.processing}
+            error={library.error}
+            skipped={library.skipped}
+            warning={budgetWarning}
+            onAdd={library.addPhotos}
+            onRemove={library.removePhoto}
+            onMove={library.movePhoto}
+            onSetTop={library.setTopPhoto}
+            onCrop={library.setPhotoCrop}
+            onMeta={library.setPhotoMeta}
+            onClear={library.clearPhotos}
+            onClose={() => setShowLibrary(false)}
+          />
+        )}
 
-            <label>移动端高清模式（更清晰，稍增负载）</label>
-            <input type="checkbox" checked={!!counts.hd} onChange={(e) => setCounts(c => ({ ...c, hd: e.target.checked }))} />
-            <hr style={{ borderColor: 'rgba(255,215,0,0.2)' }} />
+        {/* 说明面板 */}
+        {showHelp && (
+          <div className="help-panel" style={{ position: 'absolute', top: '60px', right: '20px', zIndex: 13, width: '360px', background: 'rgba(0,0,0,0.7)', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', padding: '12px', borderRadius: '8px', backdropFilter: 'blur(6px)' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+              <span style={{ fontWeight: 'bold' }}>{t('help.title')}</span>
+              <button onClick={() => setShowHelp(false)} style={{ background: 'transparent', border: 'none', color: '#FFD700', cursor: 'pointer' }}>✕</button>
+            </div>
+            <div style={{ color: '#eee', fontSize: '12px', lineHeight: 1.6 }}>
+              {HELP_SECTIONS.map((key, i) => (
+                <div key={key}>
+                  <p>{t(key)}</p>
+                  {i === 0 && <hr style={{ borderColor: 'rgba(255,215,0,0.3)' }} />}
+                </div>
+              ))}
+              <p>{t('help.outro')}</p>
+            </div>
           </div>
-          <p className="hint">提示：数值越大视觉越华丽，但在手机端可能卡顿。建议逐步调试找到合适的平衡。</p>
-        </div>
-      )}
+        )}
 
-      {/* 说明面板 */}
-      {showHelp && (
-        <div className="help-panel" style={{ position: 'absolute', top: '60px', right: '20px', zIndex: 13, width: '360px', background: 'rgba(0,0,0,0.7)', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', padding: '12px', borderRadius: '8px', backdropFilter: 'blur(6px)' }}>
-          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
-            <span style={{ fontWeight: 'bold' }}>使用说明</span>
-            <button onClick={() => setShowHelp(false)} style={{ background: 'transparent', border: 'none', color: '#FFD700', cursor: 'pointer' }}>✕</button>
+        {/* 离线安装提示 */}
+        {serviceWorker.updateReady ? (
+          <div className="pwa-toast">
+            <span>{t('pwa.updateReady')}</span>
+            <button onClick={serviceWorker.applyUpdate}>{t('pwa.reload')}</button>
+            <button onClick={serviceWorker.dismiss}>{t('pwa.later')}</button>
           </div>
-          <div style={{ color: '#eee', fontSize: '12px', lineHeight: 1.6 }}>
-            <p>🖱 点击屏幕任意处 → 在 Disperse（散开）与 Assemble（聚合）两种状态间切换。</p>
-            <hr style={{ borderColor: 'rgba(255,215,0,0.3)' }} />
-            <p>📸 上传照片：点击右下角“上传照片”，从电脑或手机选择多张图片。上传后将仅使用你上传的照片来组成圣诞树（若文件名为 top.jpg/png/webp，将优先显示）。支持 jpg/jpeg/png/webp。</p>
-            <p>⚙️ 参数说明：
-              树叶粒子数量=树身密度；拍立得照片数量=挂件数量（不足时循环纹理）；圣诞元素数量=礼物盒/球/拐杖糖的总数；彩灯数量=闪烁灯泡数。数值越大，视觉更华丽，但对性能的影响也更明显，尤其在移动端。</p>
-            <p>🎄 圣诞快乐！</p>
+        ) : serviceWorker.offlineReady && (
+          <div className="pwa-toast">
+            <span>{t('pwa.offlineReady')}</span>
+            <button onClick={serviceWorker.dismiss}>✕</button>
           </div>
-        </div>
-      )}
-    </div>
+        )}
+      </div>
+    </I18nContext.Provider>
   );
 }
 // --- Root Scene: 控制树与照片墙的可见度过渡 ---
-const SceneRoot = ({ sceneState, rotationSpeed, photoUrls, counts }: { sceneState: 'CHAOS' | 'FORMED' | 'GALLERY', rotationSpeed: number, photoUrls: string[], counts: { foliage: number; ornaments: number; elements: number; lights: number; gallery: { photos: number; scale: number; radius: number; moveSpeed: number }; camera: { distance: number }; hd: boolean } }) => {
+const SceneRoot = ({ sceneState, rotationSpeed, photoUrls, photoKinds, photoTextures, photoStatuses, focusUrls, photoCrops, photoMetas, counts, seed, shape, gallery, quality, audio, greeting, decor, theme, onPhotoClick, lockedPhotos, unlockingPhotos }: { sceneState: SceneState, rotationSpeed: number, photoUrls: string[], photoKinds: MediaKind[], photoTextures: (THREE.Texture | null)[], photoStatuses: (TextureStatus | null)[], focusUrls: string[], photoCrops: PhotoCrop[], photoMetas: PhotoMeta[], counts: SceneCounts, seed: number, shape: TreeShape, gallery: GalleryController, quality: QualityTier, audio: AudioLevels, greeting: Greeting, decor: DecorController, theme: ThemeColors, onPhotoClick?: (photoIndex: number) => void, lockedPhotos?: boolean[], unlockingPhotos?: ReadonlyMap<number, number> }) => {
   const [galleryVis, setGalleryVis] = useState(0);
-  const prevRef = useRef<'CHAOS' | 'FORMED' | 'GALLERY'>(sceneState);
-  const originRef = useRef<'CHAOS' | 'FORMED'>('FORMED');
+  const prevRef = useRef<SceneState>(sceneState);
+  const originRef = useRef<TreeState>('FORMED');
   useEffect(() => {
     if (sceneState === 'GALLERY' && prevRef.current !== 'GALLERY') {
       originRef.current = (prevRef.current === 'CHAOS' ? 'CHAOS' : 'FORMED');
@@ -710,11 +2009,11 @@ const SceneRoot = ({ sceneState, rotationSpeed, photoUrls, counts }: { sceneStat
     setGalleryVis(v => MathUtils.damp(v, target, 2.5, delta));
   });
   // GALLERY 期间保持树为散开（背景沿用散开场景），同时让照片挂件向环形迁移
-  const treeState: 'CHAOS' | 'FORMED' = sceneState === 'GALLERY' ? 'CHAOS' : (sceneState as 'CHAOS' | 'FORMED');
+  const treeState: TreeState = sceneState === 'GALLERY' ? 'CHAOS' : (sceneState as TreeState);
   return (
     <>
       {/* 单一场景：保留散开状态的背景，仅对照片挂件进行环形插值重组 */}
-      <Experience sceneState={treeState} rotationSpeed={rotationSpeed} photoUrls={photoUrls} counts={counts} transitionProgress={galleryVis} ringRadius={counts.gallery.radius} isGallery={sceneState === 'GALLERY'} gallerySpeed={counts.gallery.moveSpeed} />
+      <Experience sceneState={treeState} rotationSpeed={rotationSpeed} photoUrls={photoUrls} photoKinds={photoKinds} photoTextures={photoTextures} photoStatuses={photoStatuses} focusUrls={focusUrls} photoCrops={photoCrops} photoMetas={photoMetas} counts={counts} seed={seed} shape={shape} gallery={gallery} quality={quality} audio={audio} greeting={greeting} decor={decor} theme={theme} onPhotoClick={onPhotoClick} lockedPhotos={lockedPhotos} unlockingPhotos={unlockingPhotos} decorating={decor.enabled && sceneState === 'FORMED'} transitionProgress={galleryVis} ringRadius={counts.gallery.radius} isGallery={sceneState === 'GALLERY'} gallerySpeed={counts.gallery.moveSpeed} />
     </>
   );
 };
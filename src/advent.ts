@@ -0,0 +1,300 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+
+// --- 降临节日历：前 24 张照片依次对应 12 月 1–24 日，到日期才解锁；顶部横幅显示圣诞倒计时 ---
+// 日期按设置的时区计算（空字符串为浏览器本地时区），作者可用“预览日期”临时假设今天是 12 月某日
+
+export const ADVENT_DAYS = 24;
+
+// 写入分享链接与场景 JSON；存在即表示开启
+export interface AdventSettings {
+  // IANA 时区名，如 Asia/Shanghai；'' 表示观看者本地时区
+  timeZone: string;
+}
+
+// 预览日期：0 表示 12 月之前（全部锁定），1–25 表示 12 月的某一天；null 按实际日期
+export type AdventPreview = number | null;
+export const ADVENT_PREVIEW_DAYS = Array.from({ length: ADVENT_DAYS + 2 }, (_, day) => day);
+
+export interface ChristmasCountdown {
+  // 圣诞节当天为 true，其余时间为距 12 月 25 日 0 点的剩余时间
+  christmas: boolean;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+export interface AdventCalendar {
+  enabled: boolean;
+  // 按照片序号：仍显示为礼物（含正在拆开、尚未翻到照片的）
+  locked: boolean[];
+  // 正在播放拆礼物动画的照片序号 → 动画开始时间（performance.now()，可能在未来：多张依次拆开）
+  unlocking: ReadonlyMap<number, number>;
+}
+
+export const isValidTimeZone = (timeZone: string) => {
+  if (timeZone === '') return true;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const sanitizeAdvent = (raw: unknown): AdventSettings | null => {
+  if (!isRecord(raw)) return null;
+  const timeZone = typeof raw.timeZone === 'string' && isValidTimeZone(raw.timeZone) ? raw.timeZone : '';
+  return { timeZone };
+};
+
+// 设置面板的时区列表：浏览器支持的全部 IANA 时区
+export const listTimeZones = (): string[] => {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [];
+  }
+};
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// 某一时刻在指定时区的日期与钟点
+const wallClock = (date: Date, timeZone: string): WallClock => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timeZone || undefined,
+    year: 'numeric', month: 'numeric', day: 'numeric',
+    hour: 'numeric', minute: 'numeric', second: 'numeric', hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// 预览只替换日期，钟点仍按实际时间走（倒计时照常跳动）
+const adventToday = (date: Date, timeZone: string, preview: AdventPreview): WallClock => {
+  const now = wallClock(date, timeZone);
+  if (preview === null) return now;
+  return preview === 0 ? { ...now, month: 11, day: 30 } : { ...now, month: 12, day: preview };
+};
+
+// 只在 12 月解锁；圣诞节之后（12 月 25 日起）全部打开，新的一年重新锁定
+const unlockedDayCount = (today: WallClock) => (today.month === 12 ? Math.min(today.day, ADVENT_DAYS) : 0);
+
+// 按时区的钟点相减（忽略期间的夏令时切换，最多差一小时）
+const countdownTo = (today: WallClock): ChristmasCountdown => {
+  if (today.month === 12 && today.day === 25) return { christmas: true, days: 0, hours: 0, minutes: 0, seconds: 0 };
+  const past = today.month === 12 && today.day > 25;
+  const target = Date.UTC(today.year + (past ? 1 : 0), 11, 25);
+  const current = Date.UTC(today.year, today.month - 1, today.day, today.hour, today.minute, today.second);
+  const total = Math.max(0, Math.floor((target - current) / 1000));
+  return {
+    christmas: false,
+    days: Math.floor(total / 86400),
+    hours: Math.floor(total / 3600) % 24,
+    minutes: Math.floor(total / 60) % 60,
+    seconds: total % 60,
+  };
+};
+
+// 横幅倒计时（AdventCountdown 组件每秒调用）
+export const christmasCountdown = (date: Date, timeZone: string, preview: AdventPreview) =>
+  countdownTo(adventToday(date, timeZone, preview));
+
+// 距所选时区下一个午夜的毫秒数（多等一秒，确保触发时日期已经变化）
+const msUntilNextDay = (date: Date, timeZone: string) => {
+  const { hour, minute, second } = wallClock(date, timeZone);
+  return (86400 - (hour * 3600 + minute * 60 + second)) * 1000 + 1000;
+};
+
+// --- 拆礼物动画：先摇晃，再旋转缩小、在最小时换成照片，随后弹回原大小 ---
+export const UNLOCK_SHAKE = 1.2;
+export const UNLOCK_SPIN = 1.0;
+export const UNLOCK_DURATION = UNLOCK_SHAKE + UNLOCK_SPIN;
+// 换成照片的时刻（旋转阶段的一半）
+const UNLOCK_REVEAL = UNLOCK_SHAKE + UNLOCK_SPIN / 2;
+// 同时解锁多天（如预览跳到后面的日期）时依次拆开的间隔
+const UNLOCK_STAGGER = 0.6;
+
+export interface UnlockPose {
+  // 绕照片法线的附加旋转（弧度）与缩放倍数
+  roll: number;
+  scale: number;
+}
+
+// elapsed 为动画开始后的秒数；尚未开始或已结束时返回 null
+export const unlockPose = (elapsed: number): UnlockPose | null => {
+  if (elapsed < 0 || elapsed >= UNLOCK_DURATION) return null;
+  if (elapsed < UNLOCK_SHAKE) {
+    const k = elapsed / UNLOCK_SHAKE;
+    return { roll: Math.sin(elapsed * 40) * 0.2 * k, scale: 1 + 0.15 * k };
+  }
+  const k = (elapsed - UNLOCK_SHAKE) / UNLOCK_SPIN;
+  const scale = k < 0.5 ? 1.15 - 2 * k : 0.15 + 1.7 * (k - 0.5) + 0.4 * Math.sin((k - 0.5) * 2 * Math.PI);
+  return { roll: k * Math.PI * 2, scale };
+};
+
+// 已经看过拆开动画的日期（按年份记录）：再次打开页面时直接显示照片
+const STORAGE_KEY = 'christmas-tree-advent';
+
+const loadOpened = (year: number): Set<number> | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as unknown;
+    if (!isRecord(saved) || saved.year !== year || !Array.isArray(saved.days)) return null;
+    return new Set(saved.days.filter((day): day is number => Number.isInteger(day)));
+  } catch {
+    return null;
+  }
+};
+
+const saveOpened = (year: number, days: Iterable<number>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ year, days: Array.from(days) }));
+  } catch { /* 隐私模式下 localStorage 不可用：每次打开都会重新播放当天的动画 */ }
+};
+
+const NOT_LOCKED: boolean[] = [];
+
+export const useAdvent = (settings: AdventSettings | null, preview: AdventPreview): AdventCalendar => {
+  const enabled = settings !== null;
+  const timeZone = settings?.timeZone ?? '';
+  // 解锁只按日期变化：在所选时区的午夜刷新一次（秒级的倒计时由 AdventCountdown 组件自己计时，不重新渲染整个应用）
+  // 夏令时切换当天提前触发时日期未变，下一次等待时间照常按新的钟点计算
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!enabled) return;
+    let timer = 0;
+    const tick = () => {
+      setNow(Date.now());
+      timer = window.setTimeout(tick, msUntilNextDay(new Date(), timeZone));
+    };
+    tick();
+    return () => window.clearTimeout(timer);
+  }, [enabled, timeZone]);
+
+  const today = enabled ? adventToday(new Date(now), timeZone, preview) : null;
+  const unlockedDays = today ? unlockedDayCount(today) : 0;
+  const year = today?.year ?? 0;
+  const previewing = preview !== null;
+
+  // 当前显示为照片的日期；新解锁的日期在动画换面时加入
+  const [opened, setOpened] = useState<ReadonlySet<number>>(() => new Set());
+  const [unlocking, setUnlocking] = useState<ReadonlyMap<number, number>>(() => new Map());
+  // 解锁判断需要读取最新的 opened，但 opened 变化本身不应触发新的动画
+  const openedRef = useRef(opened);
+  useEffect(() => { openedRef.current = opened; });
+
+  useEffect(() => {
+    if (!enabled) {
+      setOpened(new Set());
+      setUnlocking(new Map());
+      return;
+    }
+    // 预览不记录到本机：只在本次预览中播放动画
+    const saved = previewing ? null : loadOpened(year);
+    const firstVisit = !previewing && saved === null;
+    const next = new Set<number>();
+    const fresh: number[] = [];
+    for (let day = 1; day <= unlockedDays; day++) {
+      // 首次打开时，今天之前的日期直接显示；今天的照片播放拆开动画
+      if (openedRef.current.has(day) || saved?.has(day) || (firstVisit && day < unlockedDays)) next.add(day);
+      else fresh.push(day);
+    }
+    setOpened(next);
+    // 拆开（换成照片）之后才记为已看过：动画途中刷新页面会重新播放
+    const persist = (days: Iterable<number>) => { if (!previewing) saveOpened(year, days); };
+    persist(next);
+    const start = performance.now();
+    setUnlocking(new Map(fresh.map((day, k) => [day - 1, start + k * UNLOCK_STAGGER * 1000])));
+    if (fresh.length === 0) return;
+
+    const timers = fresh.flatMap((day, k) => {
+      const delay = k * UNLOCK_STAGGER * 1000;
+      return [
+        window.setTimeout(() => {
+          setOpened(prev => new Set(prev).add(day));
+          persist([...next, ...fresh.slice(0, k + 1)]);
+        }, delay + UNLOCK_REVEAL * 1000),
+        window.setTimeout(() => setUnlocking(prev => {
+          const rest = new Map(prev);
+          rest.delete(day - 1);
+          return rest;
+        }), delay + UNLOCK_DURATION * 1000),
+      ];
+    });
+    // 日期再次变化（预览切换 / 跨过午夜）时，未拆完的礼物按新的日期重新判断
+    return () => timers.forEach(id => window.clearTimeout(id));
+  }, [enabled, unlockedDays, year, previewing]);
+
+  const locked = useMemo(() => (enabled ? Array.from({ length: ADVENT_DAYS }, (_, t) => !opened.has(t + 1)) : NOT_LOCKED), [enabled, opened]);
+
+  return {
+    enabled,
+    locked,
+    unlocking,
+  };
+};
+
+// --- 礼物包装纹理：锁定的照片挂件（树上与照片墙共用），中间的标签写着日期并带一把小锁 ---
+const WRAPPING_COLORS = ['#B3001B', '#0B6623', '#1E3A8A', '#8B1E3F'];
+const giftTextures = new Map<number, THREE.Texture>();
+
+export const getGiftTexture = (day: number) => {
+  const cached = giftTextures.get(day);
+  if (cached) return cached;
+  const size = 256;
+  const canvas = document.createElement('canvas');
+  canvas.width = size; canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    // 包装纸：底色 + 斜条纹
+    ctx.fillStyle = WRAPPING_COLORS[day % WRAPPING_COLORS.length];
+    ctx.fillRect(0, 0, size, size);
+    ctx.strokeStyle = 'rgba(255,255,255,0.12)';
+    ctx.lineWidth = 10;
+    for (let x = -size; x < size * 2; x += 32) {
+      ctx.beginPath();
+      ctx.moveTo(x, 0); ctx.lineTo(x + size, size);
+      ctx.stroke();
+    }
+    // 十字丝带与蝴蝶结
+    ctx.fillStyle = '#E6B422';
+    ctx.fillRect(size / 2 - 14, 0, 28, size);
+    ctx.fillRect(0, size / 2 - 14, size, 28);
+    ctx.beginPath();
+    ctx.ellipse(size / 2 - 26, 30, 26, 14, -0.5, 0, Math.PI * 2);
+    ctx.ellipse(size / 2 + 26, 30, 26, 14, 0.5, 0, Math.PI * 2);
+    ctx.fill();
+    // 日期标签
+    ctx.fillStyle = '#FFF8E7';
+    ctx.beginPath();
+    ctx.arc(size / 2, size / 2 + 8, 58, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#8B0000';
+    ctx.font = 'bold 64px Georgia, serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(day), size / 2, size / 2 + 20);
+    // 小锁
+    ctx.strokeStyle = '#8B0000';
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(size / 2, size / 2 - 28, 8, Math.PI, 0);
+    ctx.stroke();
+    ctx.fillRect(size / 2 - 12, size / 2 - 28, 24, 16);
+  }
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  giftTextures.set(day, texture);
+  return texture;
+};
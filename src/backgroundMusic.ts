@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+// --- 背景音乐：内置曲目 / 本地上传，Web Audio 频谱分析驱动彩灯、星星与泛光 ---
+// 无音乐、暂停或浏览器拦截自动播放时 levels.active 为 false，场景退回原来的正弦闪烁
+
+// 构建期扫描 src/assets/music 下的曲目（目录为空时只能上传）
+const bundledModules = import.meta.glob('./assets/music/*.{mp3,ogg,m4a,wav}', { eager: true, query: '?url', import: 'default' }) as Record<string, string>;
+
+export interface MusicTrack {
+  id: string;
+  name: string;
+  url: string;
+  bundled: boolean;
+}
+
+const trackName = (path: string) => path.split('/').pop()!.replace(/\.[^.]+$/, '');
+
+const BUNDLED_TRACKS: MusicTrack[] = Object.entries(bundledModules)
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([path, url]) => ({ id: `bundled:${path}`, name: trackName(path), url, bundled: true }));
+
+// 每帧的音频电平（0–1）；对象本身保持不变，场景在 useFrame 中直接读取
+export interface AudioLevels {
+  active: boolean;
+  bass: number;
+  mid: number;
+  treble: number;
+  // 节拍：检测到低频突增时置 1，随后衰减
+  beat: number;
+  // 整体响度
+  energy: number;
+}
+
+// 频段划分（Hz）
+const BANDS = { bass: [20, 150], mid: [150, 2000], treble: [2000, 8000] } as const;
+// 低频超过近期均值的倍数即判为节拍；两拍最短间隔（秒）
+const BEAT_THRESHOLD = 1.35;
+const BEAT_MIN_LEVEL = 0.3;
+const BEAT_MIN_INTERVAL = 0.25;
+const BEAT_DECAY = 6;
+const FFT_SIZE = 1024;
+// 音乐控件的容器（见 MusicControls）
+export const MUSIC_CONTROLS_SELECTOR = '.music-controls';
+
+const bandAverage = (bins: Uint8Array, sampleRate: number, [low, high]: readonly [number, number]) => {
+  const hzPerBin = sampleRate / 2 / bins.length;
+  const start = Math.max(0, Math.floor(low / hzPerBin));
+  const end = Math.min(bins.length, Math.ceil(high / hzPerBin));
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += bins[i];
+  return end > start ? sum / (end - start) / 255 : 0;
+};
+
+// 错误类型：playback = 无法播放，format = 不是音频文件（提示文字由界面按语言生成）
+export type MusicError = 'playback' | 'format';
+
+export interface BackgroundMusic {
+  tracks: MusicTrack[];
+  trackId: string | null;
+  playing: boolean;
+  volume: number;
+  // 自动播放被浏览器拦截：等待用户点击后再播放
+  blocked: boolean;
+  error: MusicError | null;
+  levels: AudioLevels;
+  // 每帧调用一次，刷新 levels
+  sample: (deltaSeconds: number) => void;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  setVolume: (volume: number) => void;
+  selectTrack: (id: string) => void;
+  addTrack: (file: File) => void;
+}
+
+interface AudioGraph {
+  context: AudioContext;
+  analyser: AnalyserNode;
+  gain: GainNode;
+  bins: Uint8Array;
+}
+
+export const useBackgroundMusic = (): BackgroundMusic => {
+  const [uploaded, setUploaded] = useState<MusicTrack[]>([]);
+  const tracks = useMemo(() => [...BUNDLED_TRACKS, ...uploaded], [uploaded]);
+  const [trackId, setTrackId] = useState<string | null>(BUNDLED_TRACKS[0]?.id ?? null);
+  const [playing, setPlaying] = useState(false);
+  const [volume, setVolumeState] = useState(0.6);
+  const [blocked, setBlocked] = useState(false);
+  const [error, setError] = useState<MusicError | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const graphRef = useRef<AudioGraph | null>(null);
+  const volumeRef = useRef(volume);
+  // 用户意图：切换曲目或重建音频后是否继续播放（初始为 true，即尝试自动播放）
+  const wantPlaying = useRef(true);
+  const uploadedRef = useRef(uploaded);
+  uploadedRef.current = uploaded;
+  const levels = useMemo<AudioLevels>(() => ({ active: false, bass: 0, mid: 0, treble: 0, beat: 0, energy: 0 }), []);
+  const beatState = useRef({ average: 0, sinceBeat: 0 });
+
+  // 每次挂载创建新的 <audio>：MediaElementSource 与元素一一绑定，不能跨 AudioContext 复用
+  useEffect(() => {
+    const audio = new Audio();
+    audio.loop = true;
+    audio.preload = 'auto';
+    audio.crossOrigin = 'anonymous';
+    audio.onplay = () => setPlaying(true);
+    audio.onpause = () => setPlaying(false);
+    audio.onerror = () => { if (audio.getAttribute('src')) setError('playback'); };
+    audioRef.current = audio;
+    return () => {
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+      graphRef.current?.context.close().catch(() => {});
+      graphRef.current = null;
+      audioRef.current = null;
+      levels.active = false;
+    };
+  }, [levels]);
+
+  // 上传的曲目只保存在本次会话中
+  useEffect(() => () => uploadedRef.current.forEach(t => URL.revokeObjectURL(t.url)), []);
+
+  // 分析图在首次播放时建立（AudioContext 需要用户手势才能启动）
+  const ensureGraph = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return null;
+    if (graphRef.current) return graphRef.current;
+    const AudioContextClass = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return null;
+    const context = new AudioContextClass();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = FFT_SIZE;
+    analyser.smoothingTimeConstant = 0.6;
+    const gain = context.createGain();
+    gain.gain.value = volumeRef.current;
+    // 分析在音量调节之前，调小音量不影响灯光律动
+    context.createMediaElementSource(audio).connect(analyser);
+    analyser.connect(gain);
+    gain.connect(context.destination);
+    graphRef.current = { context, analyser, gain, bins: new Uint8Array(analyser.frequencyBinCount) };
+    return graphRef.current;
+  }, []);
+
+  const play = useCallback(() => {
+    const audio = audioRef.current;
+    wantPlaying.current = true;
+    if (!audio || !audio.getAttribute('src')) return;
+    const graph = ensureGraph();
+    if (!graph) audio.volume = volumeRef.current;
+    graph?.context.resume().catch(() => {});
+    audio.play()
+      .then(() => { setBlocked(false); setError(null); })
+      .catch((err: DOMException) => {
+        if (err.name === 'NotAllowedError') setBlocked(true);
+        else if (err.name !== 'AbortError') setError('playback');
+      });
+  }, [ensureGraph]);
+
+  const pause = useCallback(() => {
+    wantPlaying.current = false;
+    audioRef.current?.pause();
+  }, []);
+  const toggle = useCallback(() => {
+    if (audioRef.current?.paused) play();
+    else pause();
+  }, [play, pause]);
+
+  // 切换曲目：更换音源后沿用当前的播放意图
+  // 首次加载即尝试自动播放；被拦截时 blocked = true，等待用户点击
+  const currentUrl = tracks.find(t => t.id === trackId)?.url ?? null;
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!currentUrl) { audio.pause(); audio.removeAttribute('src'); return; }
+    audio.src = currentUrl;
+    if (wantPlaying.current) play();
+  }, [currentUrl, play]);
+
+  // 自动播放被拦截：用户在页面任意处点击后重试（音乐控件自身的点击由按钮处理）
+  useEffect(() => {
+    if (!blocked) return;
+    const retry = (e: PointerEvent) => {
+      if ((e.target as HTMLElement | null)?.closest?.(MUSIC_CONTROLS_SELECTOR)) return;
+      play();
+    };
+    window.addEventListener('pointerdown', retry);
+    return () => window.removeEventListener('pointerdown', retry);
+  }, [blocked, play]);
+
+  const setVolume = useCallback((next: number) => {
+    const clamped = Math.min(1, Math.max(0, next));
+    volumeRef.current = clamped;
+    setVolumeState(clamped);
+    if (graphRef.current) graphRef.current.gain.gain.value = clamped;
+    else if (audioRef.current) audioRef.current.volume = clamped;
+  }, []);
+
+  const selectTrack = useCallback((id: string) => {
+    setError(null);
+    setTrackId(id);
+  }, []);
+
+  const addTrack = useCallback((file: File) => {
+    if (!file.type.startsWith('audio/') && !/\.(mp3|ogg|m4a|wav|flac|aac)$/i.test(file.name)) {
+      setError('format');
+      return;
+    }
+    const track: MusicTrack = { id: `upload:${Date.now()}:${file.name}`, name: file.name.replace(/\.[^.]+$/, ''), url: URL.createObjectURL(file), bundled: false };
+    setUploaded(list => [...list, track]);
+    setError(null);
+    // 上传即播放（属于用户手势，不会被拦截）
+    wantPlaying.current = true;
+    setTrackId(track.id);
+  }, []);
+
+  const sample = useCallback((delta: number) => {
+    const graph = graphRef.current;
+    const audio = audioRef.current;
+    const active = !!graph && !!audio && !audio.paused && graph.context.state === 'running';
+    levels.active = active;
+    if (!active) {
+      levels.bass = levels.mid = levels.treble = levels.beat = levels.energy = 0;
+      return;
+    }
+    graph.analyser.getByteFrequencyData(graph.bins);
+    const rate = graph.context.sampleRate;
+    levels.bass = bandAverage(graph.bins, rate, BANDS.bass);
+    levels.mid = bandAverage(graph.bins, rate, BANDS.mid);
+    levels.treble = bandAverage(graph.bins, rate, BANDS.treble);
+    levels.energy = levels.bass * 0.5 + levels.mid * 0.3 + levels.treble * 0.2;
+    // 简单能量节拍检测：低频明显高于近期均值
+    const beat = beatState.current;
+    beat.sinceBeat += delta;
+    if (levels.bass > BEAT_MIN_LEVEL && levels.bass > beat.average * BEAT_THRESHOLD && beat.sinceBeat > BEAT_MIN_INTERVAL) {
+      levels.beat = 1;
+      beat.sinceBeat = 0;
+    } else {
+      levels.beat *= Math.exp(-delta * BEAT_DECAY);
+    }
+    beat.average += (levels.bass - beat.average) * Math.min(1, delta * 2);
+  }, [levels]);
+
+  return { tracks, trackId, playing, volume, blocked, error, levels, sample, play, pause, toggle, setVolume, selectTrack, addTrack };
+};
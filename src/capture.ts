@@ -0,0 +1,161 @@
+import { buildWebm, type WebmFrame } from './webm';
+
+// --- 截图与录屏：固定分辨率渲染画布（不含页面按钮），导出 PNG / WebM ---
+
+export type CapturePresetId = '4k' | 'square' | 'story' | '1080p';
+
+// 显示名称见 i18n 消息目录（capturePreset.* / captureSequence.*）
+export interface CapturePreset {
+  id: CapturePresetId;
+  width: number;
+  height: number;
+}
+
+export const CAPTURE_PRESETS: CapturePreset[] = [
+  { id: '4k', width: 3840, height: 2160 },
+  { id: '1080p', width: 1920, height: 1080 },
+  { id: 'square', width: 2048, height: 2048 },
+  { id: 'story', width: 1080, height: 1920 },
+];
+
+export const CAPTURE_FPS_OPTIONS = [24, 30, 60];
+
+// 录屏脚本：先散开，再聚合成树，最后缓慢环绕；或只环绕当前场景
+export type CaptureSequenceId = 'assemble-orbit' | 'orbit';
+
+export interface CaptureSequence {
+  id: CaptureSequenceId;
+  // 开始前在散开状态预跑（不录制）的秒数；0 表示保持当前状态
+  scatterSeconds: number;
+  // 聚合阶段时长
+  assembleSeconds: number;
+  // 环绕阶段时长与总环绕角度（弧度）
+  orbitSeconds: number;
+  orbitAngle: number;
+}
+
+export const CAPTURE_SEQUENCES: CaptureSequence[] = [
+  { id: 'assemble-orbit', scatterSeconds: 2, assembleSeconds: 5, orbitSeconds: 8, orbitAngle: Math.PI / 2 },
+  { id: 'orbit', scatterSeconds: 0, assembleSeconds: 0, orbitSeconds: 10, orbitAngle: Math.PI * 2 / 3 },
+];
+
+export type CaptureJob =
+  | { kind: 'png', preset: CapturePreset }
+  | { kind: 'video', preset: CapturePreset, fps: number, sequence: CaptureSequence };
+
+export const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  // toBlob 在调用时即复制画布内容，必须紧跟在渲染之后调用
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), 'image/png');
+});
+
+export const captureFilename = (extension: string) => {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `christmas-tree-${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}.${extension}`;
+};
+
+// --- 视频写入：优先 WebCodecs（按帧号打时间戳，与实时帧率无关），否则退回 MediaRecorder ---
+export interface VideoSink {
+  // 在画布渲染完一帧后立即调用
+  addFrame: (index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+// 关键帧间隔（秒）
+const KEYFRAME_SECONDS = 2;
+// 编码队列上限，超过时等待编码器消化，避免长视频占满内存
+const MAX_ENCODE_QUEUE = 4;
+
+const MAX_BITRATE = 40_000_000;
+const bitrateFor = (width: number, height: number, fps: number) => Math.min(MAX_BITRATE, Math.round(width * height * fps * 0.15));
+
+// VP9 profile 0 / 8-bit；level 按画面像素数选择（4.1 ≈ 2K，5.1 ≈ 4K）
+const vp9Codec = (width: number, height: number) => {
+  const pixels = width * height;
+  const level = pixels <= 2228224 ? '41' : pixels <= 8912896 ? '51' : '61';
+  return `vp09.00.${level}.08`;
+};
+
+const createWebCodecsSink = async (canvas: HTMLCanvasElement, fps: number): Promise<VideoSink | null> => {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return null;
+  const { width, height } = canvas;
+  const base = { width, height, bitrate: bitrateFor(width, height, fps), framerate: fps };
+  const candidates = [{ codec: vp9Codec(width, height), webm: 'V_VP9' as const }, { codec: 'vp8', webm: 'V_VP8' as const }];
+  let chosen: (typeof candidates)[number] | null = null;
+  for (const c of candidates) {
+    const support = await VideoEncoder.isConfigSupported({ ...base, codec: c.codec }).catch(() => null);
+    if (support?.supported) { chosen = c; break; }
+  }
+  if (!chosen) return null;
+  const webmCodec = chosen.webm;
+
+  const frames: WebmFrame[] = [];
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({ data, timestamp: Math.round(chunk.timestamp / 1000), keyFrame: chunk.type === 'key' });
+    },
+    error: (err) => { failure = err instanceof Error ? err : new Error(String(err)); },
+  });
+  encoder.configure({ ...base, codec: chosen.codec });
+  const frameMicros = 1e6 / fps;
+  const keyInterval = Math.max(1, Math.round(fps * KEYFRAME_SECONDS));
+  let frameCount = 0;
+
+  return {
+    addFrame: async (index) => {
+      if (failure) throw failure;
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameMicros), duration: Math.round(frameMicros) });
+      encoder.encode(frame, { keyFrame: index % keyInterval === 0 });
+      frame.close();
+      frameCount = index + 1;
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await new Promise(r => setTimeout(r, 5));
+    },
+    finish: async () => {
+      await encoder.flush();
+      encoder.close();
+      if (failure) throw failure;
+      frames.sort((a, b) => a.timestamp - b.timestamp);
+      return buildWebm({ codec: webmCodec, width, height, frames, durationMs: (frameCount * 1000) / fps });
+    },
+    cancel: () => { if (encoder.state !== 'closed') encoder.close(); },
+  };
+};
+
+// MediaRecorder 按实际时间打时间戳：逐帧手动推送，并按目标帧率等待，保证播放速度正确
+const createRecorderSink = (canvas: HTMLCanvasElement, fps: number): VideoSink | null => {
+  if (typeof MediaRecorder === 'undefined' || !canvas.captureStream) return null;
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as MediaStreamTrack & { requestFrame?: () => void };
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(t => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: bitrateFor(canvas.width, canvas.height, fps) });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  recorder.start();
+  const frameMs = 1000 / fps;
+  const startedAt = performance.now();
+  const stop = () => new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+    if (recorder.state !== 'inactive') recorder.stop(); else resolve();
+    stream.getTracks().forEach(t => t.stop());
+  });
+  return {
+    addFrame: async (index) => {
+      track.requestFrame?.();
+      const wait = startedAt + (index + 1) * frameMs - performance.now();
+      if (wait > 0) await new Promise(r => setTimeout(r, wait));
+    },
+    finish: async () => {
+      await stop();
+      return new Blob(chunks, { type: 'video/webm' });
+    },
+    cancel: () => { stop(); },
+  };
+};
+
+// 浏览器两种方式都不支持时返回 null
+export const createVideoSink = async (canvas: HTMLCanvasElement, fps: number): Promise<VideoSink | null> =>
+  (await createWebCodecsSink(canvas, fps)) ?? createRecorderSink(canvas, fps);
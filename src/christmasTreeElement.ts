@@ -0,0 +1,173 @@
+import type { EmbedCommand, EmbedCounts, EmbedEvent, EmbedMessage, EmbedPanel, EmbedTheme } from './embed';
+import type { SceneState } from './types';
+
+// --- <christmas-tree> 自定义元素：在宿主页面中以 iframe 嵌入圣诞树（嵌入模式见 embed.ts） ---
+// 构建为部署目录下的 christmas-tree.js，宿主页面用 <script type="module"> 引入即可，不依赖 React：
+//   <christmas-tree photos='["a.jpg","b.jpg"]' scene-state="CHAOS" theme="gold" hide="stats toolbar"></christmas-tree>
+// 属性：src（树页面地址，默认与脚本同一部署目录）、photos（JSON 数组或空白分隔的地址）、counts（JSON）、
+//       theme（预设 id 或主题 JSON）、scene-state（CHAOS / FORMED / GALLERY）、hide（要隐藏的界面区域）
+// 方法：setState / setPhotos / focusPhoto / setCounts / setTheme；事件：ready / statechange / photoclick（detail 为消息内容）
+// iframe 隔离了应用的全屏布局与全局样式，元素的尺寸由宿主页面决定
+
+const ATTRIBUTES = ['src', 'photos', 'counts', 'theme', 'scene-state', 'hide'] as const;
+type Attribute = typeof ATTRIBUTES[number];
+// 这些属性只在创建 iframe 时生效，修改后重新加载
+const RELOAD_ATTRIBUTES: Attribute[] = ['src', 'hide'];
+
+// 默认指向部署根目录（开发时脚本位于 src/ 下，同样按 BASE_URL 解析）
+const DEFAULT_SRC = new URL(import.meta.env.BASE_URL, import.meta.url).href;
+
+const STYLE = `
+:host { display: block; position: relative; min-height: 320px; background: #000; }
+:host([hidden]) { display: none; }
+iframe { position: absolute; inset: 0; width: 100%; height: 100%; border: 0; }
+`;
+
+const parseJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+// 相对地址按宿主页面解析，iframe 中按原样加载
+const parsePhotos = (raw: string): string[] => {
+  const parsed = raw.trim().startsWith('[') ? parseJson(raw) : raw.split(/\s+/);
+  if (!Array.isArray(parsed)) return [];
+  return parsed.filter((url): url is string => typeof url === 'string' && url.length > 0)
+    .map(url => new URL(url, document.baseURI).href);
+};
+
+const parseTheme = (raw: string): EmbedTheme | undefined => {
+  if (!raw.trim().startsWith('{')) return raw.trim() as EmbedTheme;
+  const parsed = parseJson(raw);
+  return typeof parsed === 'object' && parsed !== null ? parsed as EmbedTheme : undefined;
+};
+
+export class ChristmasTreeElement extends HTMLElement {
+  static observedAttributes = ATTRIBUTES;
+
+  private iframe: HTMLIFrameElement | null = null;
+  private ready = false;
+  // iframe 就绪前调用的命令：就绪后按顺序发送
+  private pending: EmbedCommand[] = [];
+  private currentState: SceneState | null = null;
+
+  constructor() {
+    super();
+    const root = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = STYLE;
+    root.append(style);
+  }
+
+  // 树当前的场景状态（就绪前为 null）
+  get state() {
+    return this.currentState;
+  }
+
+  connectedCallback() {
+    window.addEventListener('message', this.handleMessage);
+    this.load();
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener('message', this.handleMessage);
+    this.iframe?.remove();
+    this.iframe = null;
+    this.ready = false;
+  }
+
+  attributeChangedCallback(name: Attribute, oldValue: string | null, value: string | null) {
+    if (!this.iframe || oldValue === value) return;
+    if (RELOAD_ATTRIBUTES.includes(name)) { this.load(); return; }
+    if (value === null) return;
+    if (name === 'photos') this.setPhotos(parsePhotos(value));
+    else if (name === 'scene-state') this.setState(value as SceneState);
+    else if (name === 'counts') {
+      const counts = parseJson(value);
+      if (typeof counts === 'object' && counts !== null) this.setCounts(counts as EmbedCounts);
+    } else if (name === 'theme') {
+      const theme = parseTheme(value);
+      if (theme) this.setTheme(theme);
+    }
+  }
+
+  setState(state: SceneState) {
+    this.send({ type: 'setState', state });
+  }
+
+  setPhotos(photos: string[]) {
+    this.send({ type: 'setPhotos', photos });
+  }
+
+  // 进入照片墙并聚焦第 index 张照片；null 取消聚焦
+  focusPhoto(index: number | null) {
+    this.send({ type: 'focusPhoto', index });
+  }
+
+  setCounts(counts: EmbedCounts) {
+    this.send({ type: 'setCounts', counts });
+  }
+
+  setTheme(theme: EmbedTheme) {
+    this.send({ type: 'setTheme', theme });
+  }
+
+  // 初始的场景状态、数量与主题写入 iframe 地址，避免加载后再切换；照片列表可能很长，就绪后再发送
+  private load() {
+    this.iframe?.remove();
+    this.ready = false;
+    const url = new URL(this.getAttribute('src') ?? DEFAULT_SRC, document.baseURI);
+    url.searchParams.set('embed', '');
+    url.searchParams.set('origin', window.location.origin);
+    const hide = (this.getAttribute('hide') ?? '').split(/[\s,]+/).filter(Boolean) as EmbedPanel[];
+    if (hide.length > 0) url.searchParams.set('hide', hide.join(','));
+    const state = this.getAttribute('scene-state');
+    if (state) url.searchParams.set('state', state);
+    const counts = this.getAttribute('counts');
+    if (counts) url.searchParams.set('counts', counts);
+    const theme = this.getAttribute('theme');
+    if (theme) url.searchParams.set('theme', theme);
+    const photos = this.getAttribute('photos');
+    if (photos) this.pending.unshift({ type: 'setPhotos', photos: parsePhotos(photos) });
+
+    const iframe = document.createElement('iframe');
+    iframe.title = this.getAttribute('aria-label') ?? 'Christmas Tree';
+    iframe.allow = 'autoplay; fullscreen';
+    iframe.src = url.href;
+    this.shadowRoot!.append(iframe);
+    this.iframe = iframe;
+  }
+
+  private send(command: EmbedCommand) {
+    const target = this.iframe?.contentWindow;
+    if (!this.ready || !target) { this.pending.push(command); return; }
+    const message: EmbedMessage<EmbedCommand> = { ...command, source: 'christmas-tree' };
+    target.postMessage(message, new URL(this.iframe!.src).origin);
+  }
+
+  private handleMessage = (e: MessageEvent) => {
+    if (!this.iframe || e.source !== this.iframe.contentWindow) return;
+    const data = e.data as EmbedMessage<EmbedEvent> | null;
+    if (!data || data.source !== 'christmas-tree') return;
+    if (data.type === 'ready') {
+      this.ready = true;
+      const queued = this.pending;
+      this.pending = [];
+      queued.forEach(command => this.send(command));
+    } else if (data.type === 'stateChange') {
+      this.currentState = data.state;
+    }
+    this.dispatchEvent(new CustomEvent<EmbedEvent>(data.type.toLowerCase(), { detail: data }));
+  };
+}
+
+if (!customElements.get('christmas-tree')) customElements.define('christmas-tree', ChristmasTreeElement);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'christmas-tree': ChristmasTreeElement;
+  }
+}
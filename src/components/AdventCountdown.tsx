@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { christmasCountdown, type AdventPreview, type AdventSettings } from '../advent';
+import { useI18n } from '../i18n';
+
+// --- 降临节日历的圣诞倒计时（顶部横幅）：每秒只刷新这一行，不重新渲染整个应用 ---
+export const AdventCountdown = ({ settings, preview }: { settings: AdventSettings, preview: AdventPreview }) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+  const countdown = christmasCountdown(now, settings.timeZone, preview);
+  const time = [countdown.hours, countdown.minutes, countdown.seconds].map(n => String(n).padStart(2, '0')).join(':');
+
+  return (
+    <div className="countdown">
+      {countdown.christmas ? t('advent.christmas') : t('advent.countdown', { days: countdown.days, time })}
+      {preview !== null && t('advent.previewing', { day: preview === 0 ? t('advent.previewBefore') : t('advent.previewDay', { day: preview }) })}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { CAPTURE_FPS_OPTIONS, CAPTURE_PRESETS, CAPTURE_SEQUENCES, type CaptureJob } from '../capture';
+import { useI18n } from '../i18n';
+
+// --- 截图 / 录屏面板：选择分辨率，保存 PNG 或按脚本录制 WebM ---
+export const CaptureMenu = ({ busy, progress, message, onCapture, onCancel, onClose }: {
+  // 正在导出的任务类型
+  busy: CaptureJob['kind'] | null,
+  // 录制进度 0–1
+  progress: number,
+  message: string | null,
+  onCapture: (job: CaptureJob) => void,
+  onCancel: () => void,
+  onClose: () => void,
+}) => {
+  const { t } = useI18n();
+  const [presetId, setPresetId] = useState(CAPTURE_PRESETS[0].id);
+  const [fps, setFps] = useState(30);
+  const [sequenceId, setSequenceId] = useState(CAPTURE_SEQUENCES[0].id);
+  const preset = CAPTURE_PRESETS.find(p => p.id === presetId) ?? CAPTURE_PRESETS[0];
+  const sequence = CAPTURE_SEQUENCES.find(s => s.id === sequenceId) ?? CAPTURE_SEQUENCES[0];
+
+  return (
+    <div className="capture-panel settings-panel" style={{ position: 'absolute', top: '60px', right: '20px', zIndex: 13, width: '300px', background: 'rgba(0,0,0,0.7)', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', padding: '12px', borderRadius: '8px', backdropFilter: 'blur(6px)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ fontWeight: 'bold' }}>{t('capture.title')}</span>
+        <button onClick={onClose} disabled={!!busy} style={{ background: 'transparent', border: 'none', color: '#FFD700', cursor: 'pointer' }}>✕</button>
+      </div>
+      <div className="settings-grid">
+        <label>{t('capture.resolution')}</label>
+        <select value={presetId} disabled={!!busy} onChange={(e) => setPresetId(e.target.value as typeof presetId)}>
+          {CAPTURE_PRESETS.map(p => <option key={p.id} value={p.id}>{t(`capturePreset.${p.id}`, { width: String(p.width), height: String(p.height) })}</option>)}
+        </select>
+
+        <label>{t('capture.sequence')}</label>
+        <select value={sequenceId} disabled={!!busy} onChange={(e) => setSequenceId(e.target.value as typeof sequenceId)}>
+          {CAPTURE_SEQUENCES.map(s => <option key={s.id} value={s.id}>{t(`captureSequence.${s.id}`, { seconds: s.assembleSeconds + s.orbitSeconds })}</option>)}
+        </select>
+
+        <label>{t('capture.fps')}</label>
+        <select value={fps} disabled={!!busy} onChange={(e) => setFps(Number(e.target.value))}>
+          {CAPTURE_FPS_OPTIONS.map(f => <option key={f} value={f}>{f} FPS</option>)}
+        </select>
+      </div>
+      <div className="share-actions">
+        {busy ? (
+          <>
+            <span style={{ fontSize: '12px', alignSelf: 'center' }}>
+              {busy === 'png' ? t('capture.rendering') : t('capture.recording', { percent: Math.round(progress * 100) })}
+            </span>
+            <button onClick={onCancel}>{t('capture.cancel')}</button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => onCapture({ kind: 'png', preset })}>{t('capture.savePng')}</button>
+            <button onClick={() => onCapture({ kind: 'video', preset, fps, sequence })}>{t('capture.recordWebm')}</button>
+          </>
+        )}
+      </div>
+      {message && <p className="hint">{message}</p>}
+      <p className="hint">{t('capture.note')}</p>
+    </div>
+  );
+};
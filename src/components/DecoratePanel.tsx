@@ -0,0 +1,58 @@
+import { useI18n } from '../i18n';
+import { DECOR_TOOLS, ELEMENT_KINDS, ELEMENT_SWATCHES, type DecorController, type ElementKind } from '../decorations';
+
+// --- 装饰模式面板：选择工具（移动 / 添加 / 删除）、新元素的类型与颜色，恢复随机布局 ---
+const smallButton: React.CSSProperties = { padding: '4px 8px', background: 'transparent', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', fontSize: '12px', cursor: 'pointer', borderRadius: '4px' };
+const activeButton: React.CSSProperties = { ...smallButton, background: 'rgba(255,215,0,0.25)', borderColor: '#FFD700' };
+
+export const DecoratePanel = ({ decor, formed, onClose }: {
+  decor: DecorController,
+  // 只有聚合状态下才能摆放
+  formed: boolean,
+  onClose: () => void,
+}) => {
+  const { t, formatNumber } = useI18n();
+  const { tool, brush, layout } = decor;
+  const placedPhotos = layout ? Object.keys(layout.photos).length : 0;
+
+  return (
+    <div className="decor-panel" style={{ position: 'absolute', top: '60px', right: '20px', zIndex: 13, width: '300px', background: 'rgba(0,0,0,0.7)', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', padding: '12px', borderRadius: '8px', backdropFilter: 'blur(6px)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ fontWeight: 'bold' }}>{t('decor.title')}</span>
+        <button onClick={onClose} style={{ background: 'transparent', border: 'none', color: '#FFD700', cursor: 'pointer' }}>✕</button>
+      </div>
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+        {DECOR_TOOLS.map(id => (
+          <button key={id} onClick={() => decor.setTool(id)} style={tool === id ? activeButton : smallButton}>{t(`decor.tool.${id}`)}</button>
+        ))}
+      </div>
+      {tool === 'add' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '8px', fontSize: '12px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            {t('decor.kind')}
+            <select value={brush.kind} onChange={(e) => decor.setBrush({ ...brush, kind: e.target.value as ElementKind })} style={{ padding: '3px 6px', background: 'rgba(0,0,0,0.6)', border: '1px solid rgba(255,215,0,0.4)', color: '#eee', fontSize: '12px', borderRadius: '4px' }}>
+              {ELEMENT_KINDS.map(kind => <option key={kind} value={kind}>{t(`element.${kind}`)}</option>)}
+            </select>
+          </label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            {t('decor.color')}
+            {ELEMENT_SWATCHES.map(color => (
+              <button key={color} onClick={() => decor.setBrush({ ...brush, color })} title={color}
+                style={{ width: '18px', height: '18px', padding: 0, background: color, border: brush.color.toLowerCase() === color.toLowerCase() ? '2px solid #FFD700' : '1px solid rgba(255,255,255,0.4)', borderRadius: '50%', cursor: 'pointer' }}
+              />
+            ))}
+            <input type="color" value={brush.color} onChange={(e) => decor.setBrush({ ...brush, color: e.target.value })} title={t('decor.customColor')} style={{ width: '26px', height: '20px', padding: 0, background: 'transparent', border: 'none', cursor: 'pointer' }} />
+          </div>
+        </div>
+      )}
+      <p className="hint" style={{ color: '#ccc', fontSize: '11px', margin: '0 0 6px' }}>{t(`decor.hint.${tool}`)}</p>
+      {!formed && <p className="hint" style={{ color: '#ff9966', fontSize: '11px', margin: '0 0 6px' }}>{t('decor.formedOnly')}</p>}
+      <p className="hint" style={{ color: '#ccc', fontSize: '11px', margin: '0 0 6px' }}>
+        {t('decor.status', { elements: formatNumber(decor.elements.length), photos: formatNumber(placedPhotos) })}
+        {' · '}
+        {layout ? t('decor.saved') : t('decor.random')}
+      </p>
+      <button onClick={() => { if (layout && window.confirm(t('decor.resetConfirm'))) decor.reset(); }} disabled={!layout} style={smallButton}>{t('decor.reset')}</button>
+    </div>
+  );
+};
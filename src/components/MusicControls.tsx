@@ -0,0 +1,44 @@
+import { useRef } from 'react';
+import type { BackgroundMusic } from '../backgroundMusic';
+import { useI18n } from '../i18n';
+
+// --- 背景音乐控件：播放 / 暂停、音量、曲目选择、上传本地音乐 ---
+const controlButton: React.CSSProperties = { padding: '6px 10px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: '#FFD700', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' };
+
+export const MusicControls = ({ music }: { music: BackgroundMusic }) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const handleFile: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+    const file = e.target.files?.[0];
+    if (inputRef.current) inputRef.current.value = '';
+    if (file) music.addTrack(file);
+  };
+  const hasTrack = music.trackId !== null;
+
+  return (
+    <div className="music-controls" style={{ position: 'absolute', top: '20px', left: '20px', zIndex: 12, display: 'flex', flexDirection: 'column', gap: '6px', color: '#FFD700', fontSize: '12px' }}>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        <button onClick={music.toggle} disabled={!hasTrack} style={{ ...controlButton, opacity: hasTrack ? 1 : 0.5 }} title={music.playing ? t('music.pause') : t('music.play')}>
+          {music.playing ? t('music.playing') : t('music.paused')}
+        </button>
+        <input
+          type="range" min={0} max={1} step={0.05} value={music.volume}
+          onChange={(e) => music.setVolume(Number(e.target.value))}
+          title={t('music.volume', { percent: Math.round(music.volume * 100) })}
+          style={{ width: '80px', accentColor: '#FFD700' }}
+        />
+      </div>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        {music.tracks.length > 0 && (
+          <select value={music.trackId ?? ''} onChange={(e) => music.selectTrack(e.target.value)} style={{ ...controlButton, fontWeight: 'normal', maxWidth: '160px' }}>
+            {music.tracks.map(track => <option key={track.id} value={track.id}>{track.bundled ? track.name : t('music.localTrack', { name: track.name })}</option>)}
+          </select>
+        )}
+        <input ref={inputRef} type="file" accept="audio/*" onChange={handleFile} style={{ display: 'none' }} />
+        <button onClick={() => inputRef.current?.click()} style={{ ...controlButton, fontWeight: 'normal' }}>{t('music.upload')}</button>
+      </div>
+      {music.blocked && <span style={{ color: '#ccc', fontSize: '11px' }}>{t('music.blocked')}</span>}
+      {music.error && <span style={{ color: '#ff9966', fontSize: '11px' }}>{t(`music.error.${music.error}`)}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import { useRef, useState } from 'react';
+import type { LibraryPhoto } from '../photoLibrary';
+import { CROP_MODES, isCropMode, type PhotoCrop } from '../photoCrop';
+import type { PhotoMeta } from '../photoCaption';
+import { MEDIA_ACCEPT } from '../mediaTextures';
+import { useI18n, type LocalizedMessage } from '../i18n';
+
+// --- 照片库面板：排序、删除、追加上传、指定顶部照片、裁剪方式、说明文字 ---
+const metaInput: React.CSSProperties = { padding: '3px 6px', background: 'rgba(0,0,0,0.6)', border: '1px solid rgba(255,215,0,0.4)', color: '#eee', fontSize: '11px', borderRadius: '4px', minWidth: 0 };
+const smallButton: React.CSSProperties = { padding: '2px 6px', background: 'transparent', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', fontSize: '11px', cursor: 'pointer', borderRadius: '4px' };
+
+export const PhotoLibraryPanel = ({ photos, processing, error, skipped, warning, onAdd, onRemove, onMove, onSetTop, onCrop, onMeta, onClear, onClose }: {
+  photos: LibraryPhoto[],
+  processing: number,
+  error: LocalizedMessage | null,
+  // 上一次上传中跳过的照片数量
+  skipped: number,
+  // 显存预算提示
+  warning: string | null,
+  onAdd: (files: File[]) => void,
+  onRemove: (id: string) => void,
+  onMove: (id: string, offset: number) => void,
+  onSetTop: (id: string | null) => void,
+  onCrop: (id: string, crop: PhotoCrop) => void,
+  onMeta: (id: string, meta: PhotoMeta) => void,
+  onClear: () => void,
+  onClose: () => void,
+}) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  // 正在设置焦点的照片
+  const [focalEditId, setFocalEditId] = useState<string | null>(null);
+  // 正在编辑说明的照片
+  const [metaEditId, setMetaEditId] = useState<string | null>(null);
+  // 输入框失焦时才写入（避免每个按键都重写 IndexedDB）
+  const handleMetaField = (p: LibraryPhoto, field: keyof PhotoMeta, value: string) => {
+    if (p.meta[field] !== value) onMeta(p.id, { ...p.meta, [field]: value });
+  };
+  const handleCropMode = (p: LibraryPhoto, mode: string) => {
+    if (!isCropMode(mode)) return;
+    onCrop(p.id, { ...p.crop, mode });
+    setFocalEditId(mode === 'focal' ? p.id : null);
+  };
+  // 点击大图设置焦点（按图片实际显示区域换算为 0–1）
+  const handleFocalClick = (p: LibraryPhoto, e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const focusX = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const focusY = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    onCrop(p.id, { ...p.crop, focusX, focusY });
+  };
+  const handleAdd: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+    const files = e.target.files;
+    if (files && files.length > 0) onAdd(Array.from(files));
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="library-panel" style={{ position: 'absolute', top: '60px', right: '20px', zIndex: 13, width: '340px', maxHeight: '70vh', display: 'flex', flexDirection: 'column', background: 'rgba(0,0,0,0.7)', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', padding: '12px', borderRadius: '8px', backdropFilter: 'blur(6px)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ fontWeight: 'bold' }}>{t('library.title', { count: photos.length })}</span>
+        <button onClick={onClose} style={{ background: 'transparent', border: 'none', color: '#FFD700', cursor: 'pointer' }}>✕</button>
+      </div>
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+        <input ref={inputRef} type="file" accept={MEDIA_ACCEPT} multiple onChange={handleAdd} style={{ display: 'none' }} />
+        <button onClick={() => inputRef.current?.click()} style={{ ...smallButton, padding: '6px 10px', fontSize: '12px' }}>{t('library.add')}</button>
+        <button onClick={() => { if (photos.length > 0 && window.confirm(t('library.clearConfirm'))) onClear(); }} style={{ ...smallButton, padding: '6px 10px', fontSize: '12px' }}>{t('library.clear')}</button>
+      </div>
+      {processing > 0 && <p className="hint" style={{ color: '#ccc', fontSize: '11px', margin: '0 0 6px' }}>{t('library.processing', { count: processing })}</p>}
+      {error && <p className="hint" style={{ color: '#ff9966', fontSize: '11px', margin: '0 0 6px' }}>{t(error.key, error.params)}</p>}
+      {skipped > 0 && <p className="hint" style={{ color: '#ff9966', fontSize: '11px', margin: '0 0 6px' }}>{t('library.skipped', { count: skipped })}</p>}
+      {warning && <p className="hint" style={{ color: '#ff9966', fontSize: '11px', margin: '0 0 6px' }}>⚠ {warning} {t('library.budgetHint')}</p>}
+      {photos.length === 0 ? (
+        <p className="hint" style={{ color: '#ccc', fontSize: '11px' }}>{t('library.empty')}</p>
+      ) : (
+        <ul className="library-list" style={{ listStyle: 'none', margin: 0, padding: 0, overflowY: 'auto' }}>
+          {photos.map((p, i) => (
+            <li key={p.id} style={{ padding: '4px 0', borderBottom: '1px solid rgba(255,215,0,0.15)' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                {/* 缩略图按当前裁剪方式预览 */}
+                <img
+                  src={p.thumbUrl} alt={p.name}
+                  onClick={() => p.crop.mode === 'focal' && setFocalEditId(id => (id === p.id ? null : p.id))}
+                  style={{ width: '40px', height: '40px', objectFit: p.crop.mode === 'fit' ? 'contain' : 'cover', objectPosition: p.crop.mode === 'focal' ? `${p.crop.focusX * 100}% ${p.crop.focusY * 100}%` : 'center', background: '#222', borderRadius: '4px', flexShrink: 0, cursor: p.crop.mode === 'focal' ? 'pointer' : 'default' }}
+                />
+                <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: '2px' }}>
+                  <span title={p.name} style={{ fontSize: '11px', color: '#eee', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {p.isTop && <span style={{ color: '#FFD700' }}>★ </span>}{p.kind !== 'image' && <span style={{ color: '#FFD700' }}>{p.kind === 'video' ? '▶ ' : '◎ '}</span>}{p.meta.caption || p.name}
+                  </span>
+                  <select value={p.crop.mode} onChange={(e) => handleCropMode(p, e.target.value)} title={t('library.cropMode')} style={{ ...smallButton, padding: '1px 2px', background: 'rgba(0,0,0,0.6)', width: 'fit-content' }}>
+                    {CROP_MODES.map(mode => <option key={mode} value={mode}>{t(`crop.${mode}`)}</option>)}
+                  </select>
+                </div>
+                <button disabled={i === 0 || p.isTop} onClick={() => onMove(p.id, -1)} style={smallButton} title={t('button.moveUp')}>↑</button>
+                <button disabled={i === photos.length - 1 || p.isTop} onClick={() => onMove(p.id, 1)} style={smallButton} title={t('button.moveDown')}>↓</button>
+                <button onClick={() => onSetTop(p.isTop ? null : p.id)} style={smallButton} title={p.isTop ? t('library.unsetTop') : t('library.setTop')}>{p.isTop ? '☆' : '★'}</button>
+                <button onClick={() => setMetaEditId(id => (id === p.id ? null : p.id))} style={smallButton} title={t('library.editMeta')}>✎</button>
+                <button onClick={() => onRemove(p.id)} style={smallButton} title={t('button.remove')}>✕</button>
+              </div>
+              {metaEditId === p.id && (
+                <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '4px 8px', alignItems: 'center', marginTop: '6px', fontSize: '11px' }}>
+                  <label htmlFor={`caption-${p.id}`}>{t('library.caption')}</label>
+                  <input id={`caption-${p.id}`} type="text" maxLength={80} defaultValue={p.meta.caption} placeholder={t('library.captionPlaceholder')} onBlur={(e) => handleMetaField(p, 'caption', e.target.value.trim())} style={metaInput} />
+                  <label htmlFor={`date-${p.id}`}>{t('library.date')}</label>
+                  <input id={`date-${p.id}`} type="date" defaultValue={p.meta.date} onBlur={(e) => handleMetaField(p, 'date', e.target.value)} style={metaInput} />
+                  <label htmlFor={`author-${p.id}`}>{t('library.author')}</label>
+                  <input id={`author-${p.id}`} type="text" maxLength={40} defaultValue={p.meta.author} placeholder={t('library.optional')} onBlur={(e) => handleMetaField(p, 'author', e.target.value.trim())} style={metaInput} />
+                </div>
+              )}
+              {focalEditId === p.id && p.crop.mode === 'focal' && (
+                <div style={{ marginTop: '6px', textAlign: 'center' }}>
+                  <div style={{ position: 'relative', display: 'inline-block', lineHeight: 0 }}>
+                    <img src={p.kind === 'video' ? p.thumbUrl : p.url} alt={p.name} onClick={(e) => handleFocalClick(p, e)} style={{ maxWidth: '300px', maxHeight: '180px', cursor: 'crosshair', borderRadius: '4px' }} />
+                    <span style={{ position: 'absolute', left: `${p.crop.focusX * 100}%`, top: `${p.crop.focusY * 100}%`, width: '14px', height: '14px', marginLeft: '-7px', marginTop: '-7px', border: '2px solid #FFD700', borderRadius: '50%', boxShadow: '0 0 4px #000', pointerEvents: 'none' }} />
+                  </div>
+                  <p className="hint" style={{ color: '#ccc', fontSize: '11px', margin: '4px 0 0' }}>{t('library.focalHint')}</p>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
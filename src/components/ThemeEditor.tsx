@@ -0,0 +1,77 @@
+import { useRef, useState } from 'react';
+import { useI18n, type LocalizedMessage } from '../i18n';
+import { downloadBlob, readTextFile } from '../files';
+import { THEME_COLOR_KEYS, THEME_PALETTE_KEYS, THEME_PRESETS, THEME_PRESET_IDS, themeFromJson, themeToJson, type ThemeController } from '../themes';
+
+// --- 配色主题面板：选择预设，逐项取色（即时生效），导入 / 导出主题 JSON ---
+const smallButton: React.CSSProperties = { padding: '4px 8px', background: 'transparent', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', fontSize: '12px', cursor: 'pointer', borderRadius: '4px' };
+const activeButton: React.CSSProperties = { ...smallButton, background: 'rgba(255,215,0,0.25)', borderColor: '#FFD700' };
+const colorInput: React.CSSProperties = { width: '26px', height: '20px', padding: 0, background: 'transparent', border: 'none', cursor: 'pointer' };
+const row: React.CSSProperties = { display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '6px', fontSize: '12px', padding: '2px 0' };
+
+export const ThemeEditor = ({ theme, onClose }: {
+  theme: ThemeController,
+  onClose: () => void,
+}) => {
+  const { t } = useI18n();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<LocalizedMessage | null>(null);
+  const { id, colors } = theme.theme;
+
+  const handleExport = () => {
+    downloadBlob(new Blob([themeToJson(theme.theme)], { type: 'application/json' }), 'christmas-tree-theme.json');
+  };
+  const handleImport: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+    const file = e.target.files?.[0];
+    if (fileRef.current) fileRef.current.value = '';
+    if (!file) return;
+    const text = await readTextFile(file);
+    const imported = text === null ? null : themeFromJson(text);
+    if (!imported) { setMessage({ key: 'theme.invalidFile' }); return; }
+    theme.restore(imported);
+    setMessage({ key: 'theme.imported' });
+  };
+
+  return (
+    <div className="theme-panel" style={{ position: 'absolute', top: '60px', right: '20px', zIndex: 13, width: '300px', maxHeight: 'calc(100vh - 100px)', overflowY: 'auto', background: 'rgba(0,0,0,0.7)', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', padding: '12px', borderRadius: '8px', backdropFilter: 'blur(6px)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ fontWeight: 'bold' }}>{t('theme.title')}</span>
+        <button onClick={onClose} style={{ background: 'transparent', border: 'none', color: '#FFD700', cursor: 'pointer' }}>✕</button>
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginBottom: '8px' }}>
+        {THEME_PRESET_IDS.map(preset => (
+          <button key={preset} onClick={() => theme.selectPreset(preset)} style={id === preset ? activeButton : smallButton}>
+            <span style={{ display: 'inline-block', width: '8px', height: '8px', marginRight: '4px', borderRadius: '50%', background: THEME_PRESETS[preset].foliage, boxShadow: `0 0 0 2px ${THEME_PRESETS[preset].star}` }} />
+            {t(`theme.preset.${preset}`)}
+          </button>
+        ))}
+      </div>
+      <p className="hint" style={{ color: '#ccc', fontSize: '11px', margin: '0 0 6px' }}>
+        {id === 'custom' ? t('theme.custom') : t('theme.presetHint')}
+      </p>
+      {THEME_COLOR_KEYS.map(key => (
+        <label key={key} style={row}>
+          {t(`theme.color.${key}`)}
+          <input type="color" value={colors[key]} onChange={(e) => theme.setColor(key, e.target.value)} style={colorInput} />
+        </label>
+      ))}
+      {THEME_PALETTE_KEYS.map(key => (
+        <div key={key} style={row}>
+          {t(`theme.color.${key}`)}
+          <span style={{ display: 'flex', gap: '4px' }}>
+            {colors[key].map((color, i) => (
+              <input key={i} type="color" value={color} onChange={(e) => theme.setPaletteColor(key, i, e.target.value)} style={colorInput} />
+            ))}
+          </span>
+        </div>
+      ))}
+      <p className="hint" style={{ color: '#ccc', fontSize: '11px', margin: '6px 0' }}>{t('theme.decorHint')}</p>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleImport} style={{ display: 'none' }} />
+        <button onClick={handleExport} style={smallButton}>{t('button.exportJson')}</button>
+        <button onClick={() => fileRef.current?.click()} style={smallButton}>{t('button.importJson')}</button>
+      </div>
+      {message && <p className="hint" style={{ color: '#ccc', fontSize: '11px', margin: '6px 0 0' }}>{t(message.key, message.params)}</p>}
+    </div>
+  );
+};
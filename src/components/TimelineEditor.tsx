@@ -0,0 +1,132 @@
+import { useRef, useState } from 'react';
+import type { SceneState } from '../types';
+import { useI18n, type LocalizedMessage } from '../i18n';
+import { downloadBlob, readTextFile } from '../files';
+import { TIMELINE_LIMITS, TIMELINE_STEP_TYPES, createDefaultTimeline, createTimelineStep, timelineDuration, timelineFromJson, timelineToJson, type Timeline, type TimelinePlayer, type TimelineStep, type TimelineStepType } from '../timeline';
+
+// --- 贺卡时间线编辑器：增删步骤、调整顺序与参数，试播，导入 / 导出 JSON，写入分享链接 ---
+const fieldInput: React.CSSProperties = { padding: '3px 6px', background: 'rgba(0,0,0,0.6)', border: '1px solid rgba(255,215,0,0.4)', color: '#eee', fontSize: '11px', borderRadius: '4px', minWidth: 0 };
+const smallButton: React.CSSProperties = { padding: '2px 6px', background: 'transparent', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', fontSize: '11px', cursor: 'pointer', borderRadius: '4px' };
+
+const SCENE_STATES: SceneState[] = ['CHAOS', 'FORMED', 'GALLERY'];
+
+export const TimelineEditor = ({ timeline, player, embed, onChange, onEmbedChange, onClose }: {
+  timeline: Timeline,
+  player: TimelinePlayer,
+  // 是否写入分享链接
+  embed: boolean,
+  onChange: (timeline: Timeline) => void,
+  onEmbedChange: (embed: boolean) => void,
+  onClose: () => void,
+}) => {
+  const { t, formatNumber } = useI18n();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<LocalizedMessage | null>(null);
+  const [newType, setNewType] = useState<TimelineStepType>('state');
+
+  const updateStep = (index: number, step: TimelineStep) =>
+    onChange({ ...timeline, steps: timeline.steps.map((s, i) => (i === index ? step : s)) });
+  const removeStep = (index: number) =>
+    onChange({ ...timeline, steps: timeline.steps.filter((_, i) => i !== index) });
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...timeline.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    onChange({ ...timeline, steps });
+  };
+  const addStep = () => {
+    if (timeline.steps.length >= TIMELINE_LIMITS.steps) return;
+    onChange({ ...timeline, steps: [...timeline.steps, createTimelineStep(newType, t('timeline.defaultMessage'))] });
+  };
+  const readNumber = (value: string, { min, max }: { min: number, max: number }) =>
+    Math.max(min, Math.min(max, Number(value) || min));
+
+  const handleExport = () => {
+    downloadBlob(new Blob([timelineToJson(timeline)], { type: 'application/json' }), 'christmas-tree-timeline.json');
+  };
+  const handleImport: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+    const file = e.target.files?.[0];
+    if (fileRef.current) fileRef.current.value = '';
+    if (!file) return;
+    const text = await readTextFile(file);
+    const imported = text === null ? null : timelineFromJson(text);
+    if (!imported) { setMessage({ key: 'timeline.invalidFile' }); return; }
+    onChange(imported);
+    setMessage({ key: 'timeline.imported' });
+  };
+
+  const renderFields = (step: TimelineStep, index: number) => {
+    switch (step.type) {
+      case 'state':
+        return (
+          <select value={step.state} onChange={(e) => updateStep(index, { ...step, state: e.target.value as SceneState })} style={fieldInput}>
+            {SCENE_STATES.map(s => <option key={s} value={s}>{t(`state.${s}`)}</option>)}
+          </select>
+        );
+      case 'orbit':
+        return (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            {t('timeline.angle')}
+            <input type="number" min={TIMELINE_LIMITS.angle.min} max={TIMELINE_LIMITS.angle.max} value={step.angle} onChange={(e) => updateStep(index, { ...step, angle: readNumber(e.target.value, TIMELINE_LIMITS.angle) })} style={{ ...fieldInput, width: '56px' }} />°
+          </label>
+        );
+      case 'focus':
+        return (
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            {t('timeline.photo')}
+            <input type="number" min={TIMELINE_LIMITS.photo.min} max={TIMELINE_LIMITS.photo.max} value={step.photo} onChange={(e) => updateStep(index, { ...step, photo: Math.round(readNumber(e.target.value, TIMELINE_LIMITS.photo)) })} style={{ ...fieldInput, width: '48px' }} />
+          </label>
+        );
+      case 'message':
+        return <input type="text" maxLength={TIMELINE_LIMITS.text} value={step.text} onChange={(e) => updateStep(index, { ...step, text: e.target.value })} style={{ ...fieldInput, flex: 1 }} />;
+      case 'wait':
+        return null;
+    }
+  };
+
+  return (
+    <div className="timeline-panel" style={{ position: 'absolute', top: '60px', right: '20px', zIndex: 13, width: '360px', maxHeight: '75vh', display: 'flex', flexDirection: 'column', background: 'rgba(0,0,0,0.7)', border: '1px solid rgba(255,215,0,0.5)', color: '#FFD700', padding: '12px', borderRadius: '8px', backdropFilter: 'blur(6px)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ fontWeight: 'bold' }}>{t('timeline.title', { seconds: formatNumber(timelineDuration(timeline), { maximumFractionDigits: 1 }) })}</span>
+        <button onClick={onClose} style={{ background: 'transparent', border: 'none', color: '#FFD700', cursor: 'pointer' }}>✕</button>
+      </div>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px', fontSize: '12px' }}>
+        <button onClick={player.playing ? player.stop : player.play} disabled={timeline.steps.length === 0} style={{ ...smallButton, padding: '6px 10px', fontSize: '12px' }}>
+          {player.playing ? t('timeline.stop') : t('timeline.play')}
+        </button>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <input type="checkbox" checked={timeline.loop} onChange={(e) => onChange({ ...timeline, loop: e.target.checked })} />{t('timeline.loop')}
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <input type="checkbox" checked={embed} onChange={(e) => onEmbedChange(e.target.checked)} />{t('timeline.embed')}
+        </label>
+      </div>
+      <ol style={{ listStyle: 'none', margin: 0, padding: 0, overflowY: 'auto' }}>
+        {timeline.steps.map((step, i) => (
+          <li key={i} style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '4px', fontSize: '11px', borderBottom: '1px solid rgba(255,215,0,0.15)', background: player.stepIndex === i ? 'rgba(255,215,0,0.15)' : 'transparent' }}>
+            <span style={{ width: '56px', flexShrink: 0 }}>{i + 1}. {t(`step.${step.type}`)}</span>
+            <div style={{ flex: 1, minWidth: 0, display: 'flex', color: '#eee' }}>{renderFields(step, i)}</div>
+            <input type="number" min={TIMELINE_LIMITS.duration.min} max={TIMELINE_LIMITS.duration.max} step={0.5} value={step.duration} onChange={(e) => updateStep(i, { ...step, duration: readNumber(e.target.value, TIMELINE_LIMITS.duration) })} title={t('timeline.duration')} style={{ ...fieldInput, width: '44px' }} />
+            <button disabled={i === 0} onClick={() => moveStep(i, -1)} style={smallButton} title={t('button.moveUp')}>↑</button>
+            <button disabled={i === timeline.steps.length - 1} onClick={() => moveStep(i, 1)} style={smallButton} title={t('button.moveDown')}>↓</button>
+            <button onClick={() => removeStep(i)} style={smallButton} title={t('button.remove')}>✕</button>
+          </li>
+        ))}
+      </ol>
+      <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+        <select value={newType} onChange={(e) => setNewType(e.target.value as TimelineStepType)} style={fieldInput}>
+          {TIMELINE_STEP_TYPES.map(type => <option key={type} value={type}>{t(`step.${type}`)}</option>)}
+        </select>
+        <button onClick={addStep} disabled={timeline.steps.length >= TIMELINE_LIMITS.steps} style={smallButton}>{t('timeline.addStep')}</button>
+      </div>
+      <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleImport} style={{ display: 'none' }} />
+        <button onClick={handleExport} style={smallButton}>{t('button.exportJson')}</button>
+        <button onClick={() => fileRef.current?.click()} style={smallButton}>{t('button.importJson')}</button>
+        <button onClick={() => onChange(createDefaultTimeline(t('timeline.defaultMessage')))} style={smallButton}>{t('timeline.reset')}</button>
+      </div>
+      {message && <p className="hint" style={{ color: '#ccc', fontSize: '11px', margin: '6px 0 0' }}>{t(message.key, message.params)}</p>}
+      <p className="hint" style={{ color: '#ccc', fontSize: '11px', margin: '6px 0 0' }}>{t('timeline.hint')}</p>
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import * as THREE from 'three';
+import { type TreeShape, type TreeShapeId, type Vec3, isTreeShapeId } from './treeShapes';
+
+// --- 装饰模式：手动摆放照片挂件、增删圣诞元素；布局保存在本机，并随场景 JSON 导出 ---
+
+export type ElementKind = 'gift' | 'ball' | 'candy';
+// 显示名称见 i18n 消息目录（element.*）；顺序与 ChristmasElements 的几何体一致
+export const ELEMENT_KINDS: ElementKind[] = ['gift', 'ball', 'candy'];
+// 新元素的默认大小（随机生成时各类型大小区间的中值）
+export const ELEMENT_SCALE: Record<ElementKind, number> = { gift: 1, ball: 0.8, candy: 0.85 };
+// 添加元素时的预设颜色，也可用取色器自定义
+export const ELEMENT_SWATCHES = ['#D32F2F', '#FFD700', '#1976D2', '#2E7D32', '#FFFFFF', '#B0BEC5'];
+
+export interface DecorElement {
+  // 稳定标识：增删元素时其余元素保持当前位置与动画状态
+  id: number;
+  kind: ElementKind;
+  color: string;
+  scale: number;
+  position: Vec3;
+}
+
+export interface DecorLayout {
+  // 布局对应的树形；切换到其他树形时布局不生效，切回后恢复
+  shape: TreeShapeId;
+  // 照片挂件的摆放位置（按挂件序号；未摆放的挂件沿用随机位置）
+  photos: Record<number, Vec3>;
+  // 元素完整列表；null 表示仍按数量与种子随机生成
+  elements: DecorElement[] | null;
+}
+
+// 移动：拖动挂件或元素；添加：点击树表面放置新元素；删除：点击元素移除
+export type DecorTool = 'move' | 'add' | 'remove';
+export const DECOR_TOOLS: DecorTool[] = ['move', 'add', 'remove'];
+
+export const DECOR_LIMITS = {
+  elements: 2000,
+  photoIndex: 2000,
+  scale: { min: 0.3, max: 2 },
+  // 坐标绝对值上限（树高 22、半径 9，留足余量）
+  coordinate: 60,
+} as const;
+
+// 挂件相对树表面的偏移，与随机生成时的 sampleSurface 参数一致
+export const PHOTO_SURFACE = { offset: 0.5, scale: 1 };
+export const ELEMENT_SURFACE = { offset: 0, scale: 0.95 };
+
+const createDecorLayout = (shape: TreeShapeId): DecorLayout => ({ shape, photos: {}, elements: null });
+
+// --- 校验：本机存储与导入的 JSON 都不可信 ---
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readVec3 = (value: unknown): Vec3 | null => {
+  if (!Array.isArray(value) || value.length !== 3) return null;
+  if (!value.every(n => typeof n === 'number' && Number.isFinite(n))) return null;
+  const c = DECOR_LIMITS.coordinate;
+  return value.map(n => Math.max(-c, Math.min(c, n as number))) as Vec3;
+};
+
+const isElementKind = (value: unknown): value is ElementKind => ELEMENT_KINDS.includes(value as ElementKind);
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const readElement = (raw: unknown): DecorElement | null => {
+  if (!isRecord(raw)) return null;
+  const position = readVec3(raw.position);
+  const { id, kind, color, scale } = raw;
+  if (!position || typeof id !== 'number' || !Number.isInteger(id) || id < 0) return null;
+  if (!isElementKind(kind) || !isColor(color)) return null;
+  const { min, max } = DECOR_LIMITS.scale;
+  const s = typeof scale === 'number' && Number.isFinite(scale) ? Math.max(min, Math.min(max, scale)) : ELEMENT_SCALE[kind];
+  return { id, kind, color, scale: s, position };
+};
+
+export const sanitizeDecorLayout = (raw: unknown): DecorLayout | null => {
+  if (!isRecord(raw) || !isTreeShapeId(raw.shape)) return null;
+  const photos: Record<number, Vec3> = {};
+  if (isRecord(raw.photos)) {
+    Object.entries(raw.photos).forEach(([key, value]) => {
+      const index = Number(key);
+      const position = readVec3(value);
+      if (Number.isInteger(index) && index >= 0 && index < DECOR_LIMITS.photoIndex && position) photos[index] = position;
+    });
+  }
+  let elements: DecorElement[] | null = null;
+  if (Array.isArray(raw.elements)) {
+    const list: DecorElement[] = [];
+    const ids = new Set<number>();
+    raw.elements.slice(0, DECOR_LIMITS.elements).forEach(item => {
+      const el = readElement(item);
+      if (el && !ids.has(el.id)) { ids.add(el.id); list.push(el); }
+    });
+    elements = list;
+  }
+  return { shape: raw.shape, photos, elements };
+};
+
+// --- 本机存储 ---
+const STORAGE_KEY = 'christmas-tree-decor';
+
+export const loadDecorLayout = (): DecorLayout | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? sanitizeDecorLayout(JSON.parse(saved)) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveDecorLayout = (layout: DecorLayout | null) => {
+  try {
+    if (layout) localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch { /* 隐私模式下 localStorage 不可用：布局仅本次会话有效 */ }
+};
+
+// --- 树表面拾取：沿射线步进，找到第一个落在树体内的点再投影到表面 ---
+const MARCH_STEP = 0.2;
+const MARCH_DISTANCE = 200;
+const marchPoint = new THREE.Vector3();
+const axisPlane = new THREE.Plane();
+
+// ray 需已变换到树的局部坐标
+export const intersectShapeSurface = (shape: TreeShape, ray: THREE.Ray, offset = 0, scale = 1): Vec3 | null => {
+  for (let t = 0; t <= MARCH_DISTANCE; t += MARCH_STEP) {
+    const p = ray.at(t, marchPoint).toArray() as Vec3;
+    if (shape.contains(p)) return shape.projectSurface(p, offset, scale);
+  }
+  return null;
+};
+
+// 未命中树体时：取射线与“过树轴、正对镜头”的竖直平面的交点投影到表面，拖出轮廓时挂件沿边缘滑动
+export const nearestShapeSurface = (shape: TreeShape, ray: THREE.Ray, offset = 0, scale = 1): Vec3 => {
+  axisPlane.normal.set(ray.direction.x, 0, ray.direction.z);
+  if (axisPlane.normal.lengthSq() < 1e-8) axisPlane.normal.set(0, 0, 1);
+  axisPlane.normal.normalize();
+  axisPlane.constant = 0;
+  const hit = ray.intersectPlane(axisPlane, marchPoint) ?? marchPoint.copy(ray.origin);
+  return shape.projectSurface(hit.toArray() as Vec3, offset, scale);
+};
+
+// --- 装饰状态：开关、当前工具与画笔、布局编辑（每次修改自动保存） ---
+export interface DecorBrush {
+  kind: ElementKind;
+  color: string;
+}
+
+export interface DecorController {
+  enabled: boolean;
+  tool: DecorTool;
+  brush: DecorBrush;
+  // 当前树形的布局（没有手动摆放过时为 null）
+  layout: DecorLayout | null;
+  // 实际显示的元素：手动布局优先，否则为随机生成的元素
+  elements: DecorElement[];
+  setEnabled: (enabled: boolean) => void;
+  setTool: (tool: DecorTool) => void;
+  setBrush: (brush: DecorBrush) => void;
+  placePhoto: (index: number, position: Vec3) => void;
+  placeElement: (id: number, position: Vec3) => void;
+  addElement: (position: Vec3) => void;
+  removeElement: (id: number) => void;
+  reset: () => void;
+  restore: (layout: DecorLayout) => void;
+}
+
+// persist 为 false 时不读写本机保存的布局（嵌入模式与独立打开的页面互不影响）
+export const useDecorLayout = ({ shape, randomElements, persist = true }: { shape: TreeShapeId, randomElements: DecorElement[], persist?: boolean }): DecorController => {
+  const [saved, setSaved] = useState<DecorLayout | null>(() => (persist ? loadDecorLayout() : null));
+  const [enabled, setEnabled] = useState(false);
+  const [tool, setTool] = useState<DecorTool>('move');
+  const [brush, setBrush] = useState<DecorBrush>({ kind: 'ball', color: ELEMENT_SWATCHES[0] });
+  useEffect(() => { if (persist) saveDecorLayout(saved); }, [saved, persist]);
+
+  const layout = saved && saved.shape === shape ? saved : null;
+  const elements = layout?.elements ?? randomElements;
+
+  // 第一次修改元素时，把当前随机生成的元素固定下来再编辑；其他树形的旧布局被替换
+  const edit = (update: (current: DecorLayout, currentElements: DecorElement[]) => DecorLayout) =>
+    setSaved(prev => {
+      const current = prev && prev.shape === shape ? prev : createDecorLayout(shape);
+      return update(current, current.elements ?? randomElements);
+    });
+
+  return {
+    enabled,
+    tool,
+    brush,
+    layout,
+    elements,
+    setEnabled,
+    setTool,
+    setBrush,
+    placePhoto: (index, position) => edit(current => ({ ...current, photos: { ...current.photos, [index]: position } })),
+    placeElement: (id, position) => edit((current, list) => ({ ...current, elements: list.map(el => (el.id === id ? { ...el, position } : el)) })),
+    addElement: (position) => edit((current, list) => {
+      if (list.length >= DECOR_LIMITS.elements) return current;
+      const id = list.reduce((max, el) => Math.max(max, el.id), -1) + 1;
+      return { ...current, elements: [...list, { id, kind: brush.kind, color: brush.color, scale: ELEMENT_SCALE[brush.kind], position }] };
+    }),
+    removeElement: (id) => edit((current, list) => ({ ...current, elements: list.filter(el => el.id !== id) })),
+    reset: () => setSaved(null),
+    restore: setSaved,
+  };
+};
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { SceneCounts, SceneState } from './types';
+import { SCENE_STATES, sanitizeCounts } from './sceneLink';
+import { type Theme, type ThemeColors, type ThemePresetId, sanitizeTheme } from './themes';
+
+// --- 嵌入模式：作为 iframe 嵌入其他页面（<christmas-tree> 元素同样基于 iframe），由宿主页面通过 postMessage 控制 ---
+// 页面地址带 ?embed 时启用；初始参数也可写在地址中：
+//   ?embed&state=CHAOS&hide=stats,toolbar&theme=gold&counts={"foliage":20000}&photo=a.jpg&photo=b.jpg
+// origin 参数限定可信的宿主页面（同时作为事件的目标 origin），缺省时接受任意宿主
+
+// 可隐藏的界面区域
+export type EmbedPanel = 'banner' | 'stats' | 'buttons' | 'toolbar' | 'music' | 'gallery';
+
+const EMBED_PANELS: EmbedPanel[] = ['banner', 'stats', 'buttons', 'toolbar', 'music', 'gallery'];
+
+// 消息中的数量只需给出要修改的字段，其余保持当前值
+export type EmbedCounts = { [K in keyof SceneCounts]?: SceneCounts[K] extends object ? Partial<SceneCounts[K]> : SceneCounts[K] };
+// 主题：预设 id 或完整的自定义主题
+export type EmbedTheme = ThemePresetId | { id: 'custom', colors: Partial<ThemeColors> };
+
+// 宿主 → 树
+export type EmbedCommand =
+  | { type: 'setState', state: SceneState }
+  | { type: 'setPhotos', photos: string[] }
+  // 进入照片墙并聚焦第 index 张照片；null 取消聚焦
+  | { type: 'focusPhoto', index: number | null }
+  | { type: 'setCounts', counts: EmbedCounts }
+  | { type: 'setTheme', theme: EmbedTheme };
+
+// 树 → 宿主
+export type EmbedEvent =
+  | { type: 'ready' }
+  | { type: 'stateChange', state: SceneState }
+  // index 为照片在 setPhotos 列表（或照片库）中的序号
+  | { type: 'photoClick', index: number, url: string };
+
+// 消息统一带上来源标记，与宿主页面上的其他 postMessage 区分
+export type EmbedMessage<T extends EmbedCommand | EmbedEvent> = T & { source: 'christmas-tree' };
+
+export interface EmbedOptions {
+  enabled: boolean;
+  hidden: ReadonlySet<EmbedPanel>;
+  // 可信的宿主 origin；null 表示不限制
+  origin: string | null;
+  state?: SceneState;
+  counts?: SceneCounts;
+  theme?: Theme;
+  photos?: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isSceneState = (value: unknown): value is SceneState =>
+  SCENE_STATES.includes(value as SceneState);
+
+// 主题参数：预设 id，或自定义主题的 JSON
+export const parseEmbedTheme = (raw: unknown): Theme | null => {
+  if (typeof raw !== 'string') return sanitizeTheme(raw);
+  if (!raw.trim().startsWith('{')) return sanitizeTheme({ id: raw.trim() });
+  try {
+    return sanitizeTheme(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+};
+
+const parseJson = (raw: string | null): unknown => {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+// 照片地址只接受 http(s) / 同源相对路径 / blob / data，其余（如 javascript:）丢弃
+export const sanitizePhotoUrls = (raw: unknown): string[] | null => {
+  if (!Array.isArray(raw)) return null;
+  return raw.filter((url): url is string => typeof url === 'string' && url.length > 0)
+    .filter(url => {
+      try {
+        return ['http:', 'https:', 'blob:', 'data:'].includes(new URL(url, window.location.href).protocol);
+      } catch {
+        return false;
+      }
+    });
+};
+
+export const readEmbedOptions = (defaultCounts: SceneCounts, loc: Location = window.location): EmbedOptions => {
+  const params = new URLSearchParams(loc.search);
+  if (!params.has('embed')) return { enabled: false, hidden: new Set(), origin: null };
+  const hidden = new Set((params.get('hide') ?? '').split(/[\s,]+/).filter((id): id is EmbedPanel => EMBED_PANELS.includes(id as EmbedPanel)));
+  const state = params.get('state');
+  const counts = parseJson(params.get('counts'));
+  const theme = params.get('theme');
+  const photos = params.getAll('photo');
+  return {
+    enabled: true,
+    hidden,
+    origin: params.get('origin'),
+    state: isSceneState(state) ? state : undefined,
+    counts: isRecord(counts) ? sanitizeCounts(counts, defaultCounts) : undefined,
+    theme: (theme && parseEmbedTheme(theme)) || undefined,
+    photos: photos.length > 0 ? sanitizePhotoUrls(photos) ?? undefined : undefined,
+  };
+};
+
+// 命令参数不可信：逐项校验后再交给场景
+const sanitizeCommand = (raw: unknown): EmbedCommand | null => {
+  if (!isRecord(raw) || raw.source !== 'christmas-tree') return null;
+  switch (raw.type) {
+    case 'setState':
+      return isSceneState(raw.state) ? { type: 'setState', state: raw.state } : null;
+    case 'setPhotos': {
+      const photos = sanitizePhotoUrls(raw.photos);
+      return photos ? { type: 'setPhotos', photos } : null;
+    }
+    case 'focusPhoto':
+      if (raw.index === null) return { type: 'focusPhoto', index: null };
+      return typeof raw.index === 'number' && Number.isInteger(raw.index) && raw.index >= 0 ? { type: 'focusPhoto', index: raw.index } : null;
+    case 'setCounts':
+      return isRecord(raw.counts) ? { type: 'setCounts', counts: raw.counts as EmbedCounts } : null;
+    case 'setTheme':
+      return typeof raw.theme === 'string' || isRecord(raw.theme) ? { type: 'setTheme', theme: raw.theme as EmbedTheme } : null;
+    default:
+      return null;
+  }
+};
+
+export interface EmbedHost {
+  emit: (event: EmbedEvent) => void;
+}
+
+// 接收宿主页面的命令，并把场景事件发回宿主；未启用嵌入模式时不做任何事
+export const useEmbedHost = (options: EmbedOptions, onCommand: (command: EmbedCommand) => void): EmbedHost => {
+  const { enabled, origin } = options;
+  // 回调每次渲染都会变化，用 ref 保存最新值，避免反复注册监听
+  const handler = useRef(onCommand);
+  useEffect(() => { handler.current = onCommand; });
+
+  const emit = useCallback((event: EmbedEvent) => {
+    if (!enabled || window.parent === window) return;
+    const message: EmbedMessage<EmbedEvent> = { ...event, source: 'christmas-tree' };
+    window.parent.postMessage(message, origin ?? '*');
+  }, [enabled, origin]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || (origin && e.origin !== origin)) return;
+      const command = sanitizeCommand(e.data);
+      if (command) handler.current(command);
+    };
+    window.addEventListener('message', onMessage);
+    emit({ type: 'ready' });
+    return () => window.removeEventListener('message', onMessage);
+  }, [enabled, origin, emit]);
+
+  return { emit };
+};
@@ -0,0 +1,76 @@
+// --- EXIF 读取：只解析 JPEG APP1 段中用到的标签，不引入第三方库 ---
+
+export interface ExifInfo {
+  // 1–8，见 EXIF 规范；缺省为 1（无需旋转）
+  orientation: number;
+  // 拍摄日期 YYYY-MM-DD（优先 DateTimeOriginal，其次 DateTime）
+  date?: string;
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+
+// 读取一个 IFD 的全部条目：tag → 条目偏移
+const readEntries = (view: DataView, ifdStart: number, little: boolean) => {
+  const entries = new Map<number, number>();
+  if (ifdStart + 2 > view.byteLength) return entries;
+  const count = view.getUint16(ifdStart, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entry, little), entry);
+  }
+  return entries;
+};
+
+// EXIF 日期为 "YYYY:MM:DD HH:MM:SS" 的 ASCII 字符串（20 字节，存放在偏移处）
+const readDate = (view: DataView, tiffStart: number, entry: number | undefined, little: boolean) => {
+  if (entry === undefined) return undefined;
+  const offset = tiffStart + view.getUint32(entry + 8, little);
+  if (offset + 10 > view.byteLength) return undefined;
+  let text = '';
+  for (let i = 0; i < 10; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  const match = /^(\d{4}):(\d{2}):(\d{2})$/.exec(text);
+  return match && match[1] !== '0000' ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+// 在 TIFF 头之后的 IFD0（及其 EXIF 子 IFD）中查找标签（little / big endian 均支持）
+const readIfd0 = (view: DataView, tiffStart: number): ExifInfo => {
+  const little = view.getUint16(tiffStart) === 0x4949;
+  const ifd0 = readEntries(view, tiffStart + view.getUint32(tiffStart + 4, little), little);
+  const orientationEntry = ifd0.get(TAG_ORIENTATION);
+  const rawOrientation = orientationEntry !== undefined ? view.getUint16(orientationEntry + 8, little) : 1;
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  const exifIfd = exifPointer !== undefined
+    ? readEntries(view, tiffStart + view.getUint32(exifPointer + 8, little), little)
+    : new Map<number, number>();
+  return {
+    orientation: rawOrientation >= 1 && rawOrientation <= 8 ? rawOrientation : 1,
+    date: readDate(view, tiffStart, exifIfd.get(TAG_DATETIME_ORIGINAL), little) ?? readDate(view, tiffStart, ifd0.get(TAG_DATETIME), little),
+  };
+};
+
+export const readExif = (buffer: ArrayBuffer): ExifInfo => {
+  const view = new DataView(buffer);
+  // 非 JPEG（PNG / WebP 等）没有需要处理的方向信息
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return { orientation: 1 };
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xFF00) !== 0xFF00) break;
+    const length = view.getUint16(offset + 2);
+    // APP1 且以 "Exif\0\0" 开头
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      return readIfd0(view, offset + 10);
+    }
+    // 到达图像数据（SOS）后不再有元数据段
+    if (marker === 0xFFDA) break;
+    offset += 2 + length;
+  }
+  return { orientation: 1 };
+};
+
+// 方向 5–8 需要交换宽高
+export const orientationSwapsAxes = (orientation: number) => orientation >= 5 && orientation <= 8;
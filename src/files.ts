@@ -0,0 +1,19 @@
+// --- 本地文件：导出下载与导入读取（场景、贺卡时间轴、主题 JSON 与截图 / 录屏共用） ---
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const a = document.createElement('a');
+  a.href = URL.createObjectURL(blob);
+  a.download = filename;
+  a.click();
+  // 部分浏览器（Safari、旧版 Firefox）在 click 之后才开始读取，立即释放会取消下载
+  setTimeout(() => URL.revokeObjectURL(a.href), 10000);
+};
+
+// 读取失败（文件被移动或无权限）返回 null，由调用方按“无效文件”提示
+export const readTextFile = async (file: File): Promise<string | null> => {
+  try {
+    return await file.text();
+  } catch {
+    return null;
+  }
+};
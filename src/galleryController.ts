@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// --- 照片墙控制器：上一张 / 下一张、键盘与滑动手势、自动播放 ---
+
+// 手动操作后自动播放暂停的时长
+const RESUME_DELAY_MS = 10000;
+// 判定为横向滑动的最小距离（px）
+const SWIPE_MIN_DISTANCE = 50;
+
+export interface GalleryController {
+  selectedIndex: number | null;
+  total: number;
+  autoplay: boolean;
+  paused: boolean;
+  select: (index: number | null) => void;
+  next: () => void;
+  prev: () => void;
+  setAutoplay: (on: boolean) => void;
+  swipeHandlers: {
+    onTouchStart: React.TouchEventHandler;
+    onTouchEnd: React.TouchEventHandler;
+  };
+}
+
+export const useGalleryController = ({ active, total, intervalSeconds }: { active: boolean, total: number, intervalSeconds: number }): GalleryController => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [autoplay, setAutoplay] = useState(false);
+  const [pausedUntil, setPausedUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const touchStart = useRef<{ x: number, y: number } | null>(null);
+
+  // 照片数量变少时，选中项不能越界
+  const clampedIndex = selectedIndex !== null && selectedIndex < total ? selectedIndex : null;
+
+  const step = useCallback((offset: number) => {
+    if (total <= 0) return;
+    setSelectedIndex(i => {
+      const current = i !== null && i < total ? i : (offset > 0 ? -1 : 0);
+      return (current + offset + total) % total;
+    });
+  }, [total]);
+
+  // 任何手动操作都会暂时暂停自动播放
+  const interact = useCallback(() => {
+    const t = Date.now();
+    setNow(t);
+    setPausedUntil(t + RESUME_DELAY_MS);
+  }, []);
+
+  const next = useCallback(() => { interact(); step(1); }, [interact, step]);
+  const prev = useCallback(() => { interact(); step(-1); }, [interact, step]);
+  const select = useCallback((index: number | null) => { interact(); setSelectedIndex(index); }, [interact]);
+
+  useEffect(() => {
+    if (!active) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA')) return;
+      if (e.key === 'ArrowRight') { e.preventDefault(); next(); }
+      else if (e.key === 'ArrowLeft') { e.preventDefault(); prev(); }
+      else if (e.key === 'Escape') select(null);
+      else if (e.key === ' ') { e.preventDefault(); setAutoplay(a => !a); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [active, next, prev, select]);
+
+  useEffect(() => {
+    if (!active || !autoplay || total <= 0) return;
+    const interval = Math.max(1, intervalSeconds) * 1000;
+    const timer = window.setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= pausedUntil) step(1);
+    }, interval);
+    return () => window.clearInterval(timer);
+  }, [active, autoplay, total, intervalSeconds, pausedUntil, step]);
+
+  const swipeHandlers = {
+    onTouchStart: (e: React.TouchEvent) => {
+      if (!active || e.touches.length !== 1) return;
+      touchStart.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+    },
+    onTouchEnd: (e: React.TouchEvent) => {
+      const start = touchStart.current;
+      touchStart.current = null;
+      if (!active || !start || e.changedTouches.length === 0) return;
+      const dx = e.changedTouches[0].clientX - start.x;
+      const dy = e.changedTouches[0].clientY - start.y;
+      if (Math.abs(dx) < SWIPE_MIN_DISTANCE || Math.abs(dx) < Math.abs(dy) * 1.5) return;
+      if (dx < 0) next(); else prev();
+    },
+  };
+
+  return {
+    selectedIndex: clampedIndex,
+    total,
+    autoplay,
+    paused: autoplay && now < pausedUntil,
+    select,
+    next,
+    prev,
+    setAutoplay: (on: boolean) => { setAutoplay(on); setPausedUntil(0); },
+    swipeHandlers,
+  };
+};
@@ -0,0 +1,76 @@
+import type { Vec3 } from './treeShapes';
+
+// --- 照片墙布局：每种布局给出第 index 张照片的目标位置 ---
+// radius 为面板中的“环形半径（密度）”，其它布局按它等比缩放间距
+
+export type GalleryLayoutId = 'ring' | 'grid' | 'helix' | 'sphere' | 'coverflow';
+
+// wraps：照片绕 y 轴分布，选中时整体旋转使其朝向镜头；平面布局则整体正对镜头
+// 显示名称见 i18n 消息目录（layout.*）
+export const GALLERY_LAYOUT_OPTIONS: { id: GalleryLayoutId; wraps: boolean }[] = [
+  { id: 'ring', wraps: true },
+  { id: 'grid', wraps: false },
+  { id: 'helix', wraps: true },
+  { id: 'sphere', wraps: true },
+  { id: 'coverflow', wraps: false },
+];
+
+export const layoutWraps = (layout: GalleryLayoutId) =>
+  GALLERY_LAYOUT_OPTIONS.find(o => o.id === layout)?.wraps ?? false;
+
+// 绕 y 轴旋转多少可以让水平位置 (x, z) 正对方位角 azimuth（相对 current 取最短路径）
+export const facingRotation = (x: number, z: number, azimuth: number, current: number) => {
+  const raw = azimuth - Math.atan2(x, z);
+  const diff = Math.atan2(Math.sin(raw - current), Math.cos(raw - current));
+  return current + diff;
+};
+
+export const isGalleryLayoutId = (value: unknown): value is GalleryLayoutId =>
+  GALLERY_LAYOUT_OPTIONS.some(o => o.id === value);
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+const HELIX_PER_TURN = 10;
+
+export const galleryLayoutPosition = (
+  layout: GalleryLayoutId,
+  index: number,
+  total: number,
+  radius: number,
+  // 封面流的中心照片（通常为当前选中项）
+  focusIndex = Math.floor(total / 2),
+): Vec3 => {
+  const spacing = radius * 0.25;
+  switch (layout) {
+    case 'grid': {
+      // 列数略多于行数，整体接近 16:9
+      const cols = Math.max(1, Math.ceil(Math.sqrt(total * 1.6)));
+      const rows = Math.ceil(total / cols);
+      const col = index % cols; const row = Math.floor(index / cols);
+      return [(col - (cols - 1) / 2) * spacing, ((rows - 1) / 2 - row) * spacing * 1.2, 0];
+    }
+    case 'helix': {
+      const angle = (index / HELIX_PER_TURN) * Math.PI * 2;
+      // 每圈上升 1.6 个间距
+      const y = (index - (total - 1) / 2) * (spacing * 1.6 / HELIX_PER_TURN);
+      return [Math.sin(angle) * radius, y, Math.cos(angle) * radius];
+    }
+    case 'sphere': {
+      // Fibonacci 球面：点数任意时都近似均匀
+      const y = 1 - (2 * (index + 0.5)) / total;
+      const r = Math.sqrt(1 - y * y);
+      const phi = index * GOLDEN_ANGLE;
+      return [Math.cos(phi) * r * radius, y * radius, Math.sin(phi) * r * radius];
+    }
+    case 'coverflow': {
+      const d = index - focusIndex;
+      if (d === 0) return [0, 0, radius * 0.3];
+      const x = Math.sign(d) * (spacing * 0.8 + Math.abs(d) * spacing * 0.45);
+      return [x, 0, -Math.min(Math.abs(d), 6) * 0.4 - 1];
+    }
+    case 'ring':
+    default: {
+      const angle = (index / Math.max(1, total)) * Math.PI * 2;
+      return [Math.sin(angle) * radius, Math.sin(angle * 2) * 0.6, Math.cos(angle) * radius];
+    }
+  }
+};
@@ -0,0 +1,262 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { itemRng } from './random';
+import type { TreeShape, TreeSize } from './treeShapes';
+
+// --- 缠绕装饰：彩带 / 金属丝带（tinsel）与彩灯串 ---
+// 每条沿树表面从下往上螺旋缠绕；散开时从顶端开始松开成一条飘散的长带，聚合时自下而上绕回树上
+
+export type GarlandStyle = 'ribbon' | 'tinsel';
+// 显示名称见 i18n 消息目录（garland.*）
+export const GARLAND_STYLES: GarlandStyle[] = ['ribbon', 'tinsel'];
+
+export const isGarlandStyle = (value: unknown): value is GarlandStyle => GARLAND_STYLES.includes(value as GarlandStyle);
+
+export interface GarlandSettings {
+  // 彩带条数（0 = 不显示）
+  count: number;
+  style: GarlandStyle;
+  color: string;
+  // 从树底到树顶缠绕的圈数
+  turns: number;
+}
+
+export interface LightStringSettings {
+  // 灯串条数（0 = 彩灯随机散布在树上）；彩灯数量仍由参数面板的彩灯数量决定，平均分到各条灯串
+  count: number;
+  turns: number;
+  // 灯泡颜色：MULTI_COLOR 为经典彩色，否则为单一颜色（#rrggbb）
+  color: string;
+}
+
+export const MULTI_COLOR = 'multi';
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// 相对树表面向外的偏移：彩带略高于挂件，灯串与随机散布的彩灯一致
+export const GARLAND_OFFSET = 0.35;
+export const LIGHT_STRING_OFFSET = 0.3;
+
+// --- 路径：缠绕形状与松开形状各一条曲线，按弧长比例一一对应 ---
+export interface StrandPath {
+  formed: THREE.CatmullRomCurve3;
+  chaos: THREE.CatmullRomCurve3;
+}
+
+// 缠绕范围（占树高比例），顶端留出五角星的位置
+const STRAND_BOTTOM = 0.03;
+const STRAND_TOP = 0.93;
+const SAMPLES_PER_TURN = 24;
+const UP = new THREE.Vector3(0, 1, 0);
+
+export const createStrandPaths = (
+  shape: TreeShape,
+  size: TreeSize,
+  { count, turns, offset, seed, salt }: { count: number, turns: number, offset: number, seed: number, salt: number },
+): StrandPath[] => new Array(count).fill(0).map((_, k) => {
+  const rng = itemRng(seed, salt, k);
+  const phase = (k / count) * Math.PI * 2 + rng() * 0.5;
+  const samples = Math.max(8, Math.round(turns * SAMPLES_PER_TURN));
+  // 松开后：穿过场景、方向随机的一条波浪长带
+  const center = new THREE.Vector3((rng() - 0.5) * 30, (rng() - 0.5) * 30, (rng() - 0.5) * 30);
+  const dir = new THREE.Vector3(rng() - 0.5, (rng() - 0.5) * 0.6, rng() - 0.5).normalize();
+  const side = new THREE.Vector3().crossVectors(dir, UP);
+  if (side.lengthSq() < 1e-6) side.set(1, 0, 0);
+  side.normalize();
+  const length = 40 + rng() * 20;
+  const amplitude = 2 + rng() * 2;
+  const waves = 2 + rng() * 2;
+
+  const formed: THREE.Vector3[] = [];
+  const chaos: THREE.Vector3[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const u = i / samples;
+    const ny = THREE.MathUtils.lerp(STRAND_BOTTOM, STRAND_TOP, u);
+    const theta = phase + u * turns * Math.PI * 2;
+    // 旋转体只取方位角；平面形状按半径在正反两面之间来回缠绕
+    const r = size.radius * (1 - ny);
+    formed.push(new THREE.Vector3(...shape.projectSurface([r * Math.cos(theta), ny * size.height - size.height / 2, r * Math.sin(theta)], offset)));
+    const wave = u * waves * Math.PI * 2 + phase;
+    chaos.push(center.clone()
+      .addScaledVector(dir, (u - 0.5) * length)
+      .addScaledVector(side, Math.sin(wave) * amplitude)
+      .addScaledVector(UP, Math.cos(wave * 0.5) * amplitude * 0.5));
+  }
+  return { formed: new THREE.CatmullRomCurve3(formed), chaos: new THREE.CatmullRomCurve3(chaos) };
+});
+
+// 缠绕进度：uProgress（0 = 散开，1 = 聚合）按沿带位置错开，底端先绕上、顶端先松开
+// 与着色器中的 strandMix 一致，灯串上的灯泡在 CPU 端用它跟随导线
+export const strandMix = (progress: number, u: number) => {
+  const t = THREE.MathUtils.clamp(progress * 1.5 - u * 0.5, 0, 1);
+  return t * t * (3 - 2 * t);
+};
+
+// --- 几何体：同一拓扑分别沿两条曲线生成；position 为松开形状，aTarget / aTargetNormal 为缠绕形状，aU 为沿带位置 ---
+type StrandBuilder = (curve: THREE.Curve<THREE.Vector3>, segments: number) => THREE.BufferGeometry;
+
+const tubeBuilder = (radius: number, radialSegments: number): StrandBuilder =>
+  (curve, segments) => new THREE.TubeGeometry(curve, segments, radius, radialSegments, false);
+
+// 缎带：宽度方向大致竖直（垂直于前进方向与树的径向），沿长度方向轻微扭转
+const ribbonBuilder = (width: number): StrandBuilder => (curve, segments) => {
+  const positions: number[] = []; const normals: number[] = []; const uvs: number[] = []; const indices: number[] = [];
+  const p = new THREE.Vector3(); const tangent = new THREE.Vector3(); const outward = new THREE.Vector3();
+  const side = new THREE.Vector3(); const normal = new THREE.Vector3();
+  for (let i = 0; i <= segments; i++) {
+    const u = i / segments;
+    curve.getPointAt(u, p);
+    curve.getTangentAt(u, tangent);
+    outward.set(p.x, 0, p.z);
+    if (outward.lengthSq() < 1e-6) outward.set(0, 0, 1);
+    side.crossVectors(tangent, outward.normalize());
+    if (side.lengthSq() < 1e-6) side.copy(UP);
+    side.normalize().applyAxisAngle(tangent, Math.sin(i * 0.15) * 0.35);
+    normal.crossVectors(side, tangent).normalize();
+    [-0.5, 0.5].forEach(s => {
+      positions.push(p.x + side.x * s * width, p.y + side.y * s * width, p.z + side.z * s * width);
+      normals.push(normal.x, normal.y, normal.z);
+      uvs.push(u, s + 0.5);
+    });
+    if (i < segments) {
+      const a = i * 2;
+      indices.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
+    }
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  return geometry;
+};
+
+const STRAND_BUILDERS: Record<GarlandStyle | 'wire', StrandBuilder> = {
+  ribbon: ribbonBuilder(0.55),
+  tinsel: tubeBuilder(0.18, 6),
+  // 灯串导线
+  wire: tubeBuilder(0.05, 4),
+};
+const SEGMENTS_PER_TURN = 48;
+
+const morphGeometry = (path: StrandPath, segments: number, build: StrandBuilder) => {
+  const geometry = build(path.chaos, segments);
+  const target = build(path.formed, segments);
+  geometry.setAttribute('aTarget', target.getAttribute('position'));
+  geometry.setAttribute('aTargetNormal', target.getAttribute('normal'));
+  // 管道与缎带的 uv.x 都是沿曲线的弧长比例
+  const uv = geometry.getAttribute('uv');
+  const along = new Float32Array(uv.count);
+  for (let i = 0; i < uv.count; i++) along[i] = uv.getX(i);
+  geometry.setAttribute('aU', new THREE.BufferAttribute(along, 1));
+  target.dispose();
+  return geometry;
+};
+
+// 所有条带合并为一个几何体（一次绘制）；没有条带时返回 null
+export const createStrandGeometry = (paths: StrandPath[], turns: number, style: GarlandStyle | 'wire') => {
+  if (paths.length === 0) return null;
+  const segments = Math.max(32, Math.round(turns * SEGMENTS_PER_TURN));
+  const parts = paths.map(path => morphGeometry(path, segments, STRAND_BUILDERS[style]));
+  const merged = mergeGeometries(parts);
+  parts.forEach(part => part.dispose());
+  return merged;
+};
+
+// --- 材质：MeshStandardMaterial 在顶点着色器中按 strandMix 在两种形状之间插值 ---
+export interface StrandUniforms {
+  uProgress: { value: number };
+}
+
+export const createStrandMaterial = (params: THREE.MeshStandardMaterialParameters) => {
+  const uniforms: StrandUniforms = { uProgress: { value: 0 } };
+  const material = new THREE.MeshStandardMaterial({ side: THREE.DoubleSide, ...params });
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.uProgress = uniforms.uProgress;
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>
+      attribute vec3 aTarget;
+      attribute vec3 aTargetNormal;
+      attribute float aU;
+      uniform float uProgress;
+      float strandMix;`)
+      .replace('#include <beginnormal_vertex>', `#include <beginnormal_vertex>
+      float strandT = clamp(uProgress * 1.5 - aU * 0.5, 0.0, 1.0);
+      strandMix = strandT * strandT * (3.0 - 2.0 * strandT);
+      objectNormal = normalize(mix(objectNormal, aTargetNormal, strandMix));`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>
+      transformed = mix(position, aTarget, strandMix);`);
+  };
+  material.customProgramCacheKey = () => 'garland-strand';
+  return { material, uniforms };
+};
+
+// --- 金属丝带的闪光：沿带子随机分布的小亮点，与带子一起松开 / 缠绕 ---
+const GLITTER_PER_TURN = 60;
+
+export const createGlitterGeometry = (paths: StrandPath[], turns: number, seed: number, salt: number) => {
+  const perStrand = Math.round(turns * GLITTER_PER_TURN);
+  const total = paths.length * perStrand;
+  const positions = new Float32Array(total * 3);
+  const targets = new Float32Array(total * 3);
+  const along = new Float32Array(total);
+  const randoms = new Float32Array(total);
+  const p = new THREE.Vector3(); const jitter = new THREE.Vector3();
+  paths.forEach((path, k) => {
+    // 与路径使用不同的序列（路径占用了序号 k）
+    const rng = itemRng(seed, salt, paths.length + k);
+    for (let j = 0; j < perStrand; j++) {
+      const i = k * perStrand + j;
+      const u = rng();
+      jitter.set(rng() - 0.5, rng() - 0.5, rng() - 0.5).multiplyScalar(0.6);
+      path.chaos.getPointAt(u, p).add(jitter).toArray(positions, i * 3);
+      path.formed.getPointAt(u, p).add(jitter).toArray(targets, i * 3);
+      along[i] = u;
+      randoms[i] = rng();
+    }
+  });
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('aTarget', new THREE.BufferAttribute(targets, 3));
+  geometry.setAttribute('aU', new THREE.BufferAttribute(along, 1));
+  geometry.setAttribute('aRandom', new THREE.BufferAttribute(randoms, 1));
+  return geometry;
+};
+
+export interface GlitterUniforms {
+  uProgress: { value: number };
+  uTime: { value: number };
+  uColor: { value: THREE.Color };
+}
+
+export const createGlitterMaterial = () => {
+  const uniforms: GlitterUniforms = { uProgress: { value: 0 }, uTime: { value: 0 }, uColor: { value: new THREE.Color() } };
+  const material = new THREE.ShaderMaterial({
+    uniforms: uniforms as unknown as Record<string, THREE.IUniform>,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+    vertexShader: `precision mediump float;
+    uniform float uProgress; uniform float uTime;
+    attribute vec3 aTarget; attribute float aU; attribute float aRandom;
+    varying float vSpark;
+    void main() {
+      float t = clamp(uProgress * 1.5 - aU * 0.5, 0.0, 1.0);
+      vec3 pos = mix(position, aTarget, t * t * (3.0 - 2.0 * t));
+      vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+      gl_PointSize = 70.0 * (0.4 + aRandom) / -mvPosition.z;
+      gl_Position = projectionMatrix * mvPosition;
+      // 每个亮点按自己的频率闪烁，多数时间暗、偶尔一闪
+      vSpark = pow(0.5 + 0.5 * sin(uTime * (3.0 + aRandom * 6.0) + aRandom * 40.0), 6.0);
+    }`,
+    fragmentShader: `precision mediump float;
+    uniform vec3 uColor;
+    varying float vSpark;
+    void main() {
+      float a = 1.0 - smoothstep(0.15, 0.5, distance(gl_PointCoord, vec2(0.5)));
+      if (a < 0.01) discard;
+      gl_FragColor = vec4(mix(uColor, vec3(1.0), 0.5) * (0.4 + vSpark * 2.5), a);
+    }`,
+  });
+  return { material, uniforms };
+};
@@ -0,0 +1,130 @@
+import * as THREE from 'three';
+import { scheduleLocationUpdate } from './locationSync';
+
+// --- 祝福语：顶部横幅的标题 / 副标题 / 收件人，以及场景中五角星上方的 3D 标题 ---
+// 可通过链接参数个性化：#title=...&subtitle=...&to=...&font=...&title3d=...（也兼容 ?title=...）
+
+export type GreetingFontId = 'script' | 'festive' | 'serif' | 'kai' | 'sans';
+// 3D 标题：关闭 / 发光平面 / 分层挤出
+export type Title3DMode = 'off' | 'glow' | 'extruded';
+
+export interface Greeting {
+  title: string;
+  subtitle: string;
+  // 收件人（为空时不显示“致 …”）
+  recipient: string;
+  font: GreetingFontId;
+  title3d: Title3DMode;
+}
+
+// 英文字体来自 index.html 引入的 Google Fonts，中文回退到系统字体；显示名称见 i18n 消息目录（font.* / title3d.*）
+export const GREETING_FONTS: { id: GreetingFontId; family: string }[] = [
+  { id: 'script', family: "'Great Vibes', 'Kaiti SC', STKaiti, KaiTi, cursive" },
+  { id: 'festive', family: "'Mountains of Christmas', 'Kaiti SC', STKaiti, KaiTi, cursive" },
+  { id: 'serif', family: "Georgia, 'Songti SC', STSong, SimSun, serif" },
+  { id: 'kai', family: "'Kaiti SC', STKaiti, KaiTi, serif" },
+  { id: 'sans', family: "'Helvetica Neue', 'PingFang SC', 'Microsoft YaHei', sans-serif" },
+];
+
+export const TITLE_3D_MODES: Title3DMode[] = ['off', 'glow', 'extruded'];
+
+// 副标题留空时横幅显示当前语言的操作提示
+export const DEFAULT_GREETING: Greeting = {
+  title: 'Merry Christmas',
+  subtitle: '',
+  recipient: '',
+  font: 'script',
+  title3d: 'glow',
+};
+
+export const GREETING_LIMITS = { title: 40, subtitle: 80, recipient: 30 } as const;
+
+export const greetingFontFamily = (font: GreetingFontId) =>
+  (GREETING_FONTS.find(f => f.id === font) ?? GREETING_FONTS[0]).family;
+
+const isFontId = (value: unknown): value is GreetingFontId => GREETING_FONTS.some(f => f.id === value);
+const isTitle3DMode = (value: unknown): value is Title3DMode => TITLE_3D_MODES.includes(value as Title3DMode);
+
+// --- 链接参数 ---
+const PARAMS = { title: 'title', subtitle: 'subtitle', recipient: 'to', font: 'font', title3d: 'title3d' } as const;
+
+// 优先读取 hash，其次 query string；缺省或非法值使用默认值
+export const readGreetingFromLocation = (loc: Location = window.location): Greeting => {
+  const hash = new URLSearchParams(loc.hash.replace(/^#/, ''));
+  const query = new URLSearchParams(loc.search);
+  const get = (key: string) => hash.get(key) ?? query.get(key);
+  const text = (key: string, max: number, fallback: string) => {
+    const v = get(key);
+    return v === null ? fallback : v.slice(0, max);
+  };
+  const font = get(PARAMS.font);
+  const title3d = get(PARAMS.title3d);
+  return {
+    title: text(PARAMS.title, GREETING_LIMITS.title, DEFAULT_GREETING.title),
+    subtitle: text(PARAMS.subtitle, GREETING_LIMITS.subtitle, DEFAULT_GREETING.subtitle),
+    recipient: text(PARAMS.recipient, GREETING_LIMITS.recipient, DEFAULT_GREETING.recipient),
+    font: isFontId(font) ? font : DEFAULT_GREETING.font,
+    title3d: isTitle3DMode(title3d) ? title3d : DEFAULT_GREETING.title3d,
+  };
+};
+
+// 写入地址栏 hash（只写与默认值不同的字段，合并连续输入），分享链接会一并带上
+export const writeGreetingToLocation = (greeting: Greeting) => scheduleLocationUpdate('greeting', url => {
+  const hash = new URLSearchParams(url.hash.replace(/^#/, ''));
+  (Object.keys(PARAMS) as (keyof Greeting)[]).forEach(field => {
+    const key = PARAMS[field];
+    url.searchParams.delete(key);
+    if (greeting[field] === DEFAULT_GREETING[field]) hash.delete(key);
+    else hash.set(key, greeting[field]);
+  });
+  url.hash = hash.toString();
+});
+
+// --- 3D 标题纹理：金色渐变文字，字体加载完成后重绘 ---
+const TITLE_CANVAS = { width: 2048, height: 384 };
+export const TITLE_ASPECT = TITLE_CANVAS.width / TITLE_CANVAS.height;
+
+const drawTitle = (canvas: HTMLCanvasElement, text: string, family: string, fill: 'gold' | 'shadow') => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+  // 超宽时缩小字号
+  let size = height * 0.62;
+  ctx.font = `${size}px ${family}`;
+  const maxWidth = width * 0.94;
+  const measured = ctx.measureText(text).width;
+  if (measured > maxWidth) {
+    size *= maxWidth / measured;
+    ctx.font = `${size}px ${family}`;
+  }
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  if (fill === 'gold') {
+    const gradient = ctx.createLinearGradient(0, height * 0.2, 0, height * 0.8);
+    gradient.addColorStop(0, '#FFF3B0');
+    gradient.addColorStop(0.5, '#FFD700');
+    gradient.addColorStop(1, '#C8941C');
+    ctx.fillStyle = gradient;
+  } else {
+    ctx.fillStyle = '#8A6414';
+  }
+  ctx.fillText(text, width / 2, height / 2);
+};
+
+// fill = 'shadow' 用于立体字的侧面层
+export const createTitleTexture = (text: string, font: GreetingFontId, fill: 'gold' | 'shadow' = 'gold') => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TITLE_CANVAS.width;
+  canvas.height = TITLE_CANVAS.height;
+  const family = greetingFontFamily(font);
+  drawTitle(canvas, text, family, fill);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.anisotropy = 4;
+  document.fonts?.load(`64px ${family}`, text).then(() => {
+    drawTitle(canvas, text, family, fill);
+    texture.needsUpdate = true;
+  }).catch(() => { /* 字体加载失败时保留系统字体 */ });
+  return texture;
+};
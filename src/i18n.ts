@@ -0,0 +1,644 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+
+// --- 多语言：消息目录（zh-CN / en）、浏览器语言检测、手动切换、按语言格式化数字 ---
+// 文案中的 {name} 为占位符；数字参数按当前语言格式化（千分位等）
+
+export type Locale = 'zh-CN' | 'en';
+
+// 切换器中始终以各自语言显示名称
+export const LOCALE_OPTIONS: { id: Locale; label: string }[] = [
+  { id: 'zh-CN', label: '中文' },
+  { id: 'en', label: 'English' },
+];
+
+const zhCN = {
+  // 顶部横幅
+  'banner.hint': '点击任意处开始（PC端更清晰哦）',
+  'banner.recipient': '致 {name}',
+  'banner.timelinePlaying': '贺卡播放中 · 点击任意处自由浏览',
+  'advent.countdown': '距圣诞节还有 {days} 天 {time}',
+  'advent.christmas': '🎄 圣诞快乐！',
+  'advent.previewing': '（预览：{day}）',
+
+  // 左下角统计
+  'stats.memories': '回忆',
+  'stats.photos': '照片数量',
+  'stats.foliage': '叶子',
+  'stats.particles': '叶子数量',
+  'stats.quality': '画质',
+  'stats.auto': '自动',
+  'stats.locked': '已锁定',
+  'stats.fps': '{fps} FPS',
+  'stats.processing': '正在处理 {count} 张照片…',
+  'stats.loadingPhotos': '正在加载照片 {loaded} / {total}',
+  'stats.photoErrors': '{count} 张照片无法加载',
+  'stats.budgetWarning': '照片纹理约 {total} MB，超出“{tier}”档预算 {budget} MB，树上仅使用前 {count} 张照片',
+
+  // 按钮
+  'button.upload': '上传照片',
+  'button.backToTree': '返回树',
+  'button.assemble': '聚合树',
+  'button.scatter': '散开树',
+  'button.gallery': '照片墙',
+  'button.settings': '参数设置',
+  'button.timeline': '贺卡时间线',
+  'button.capture': '截图 / 录屏',
+  'button.library': '照片库',
+  'button.decorate': '🎀 装饰',
+  'button.theme': '🎨 配色',
+  'button.help': '说明',
+  'button.moveUp': '上移',
+  'button.moveDown': '下移',
+  'button.remove': '删除',
+  'button.retry': '重试',
+  'pwa.updateReady': '新版本已就绪',
+  'pwa.reload': '刷新',
+  'pwa.later': '稍后',
+  'pwa.offlineReady': '已缓存到本机，断网也能打开',
+  'button.exportJson': '导出 JSON',
+  'button.importJson': '导入 JSON',
+  'locale.label': '语言',
+
+  // 照片墙
+  'gallery.prev': '上一张（←）',
+  'gallery.next': '下一张（→）',
+  'gallery.autoplay': '自动播放（空格）',
+  'gallery.paused': '⏸ 已暂停',
+  'gallery.playing': '⏸ 播放中',
+  'gallery.start': '▶ 自动播放',
+
+  // 参数设置
+  'settings.title': '参数设置',
+  'settings.foliage': '树叶粒子数量（越大越密，性能压力增）',
+  'settings.ornaments': '拍立得照片数量（可超过照片数，循环使用）',
+  'settings.elements': '圣诞元素数量（礼物盒、球、拐杖糖）',
+  'settings.lights': '彩灯数量（闪烁灯泡数）',
+  'settings.cameraDistance': '默认视角距离（越小越近）',
+  'settings.galleryPhotos': '照片墙：照片数量',
+  'settings.galleryLayout': '照片墙：布局',
+  'settings.galleryScale': '照片墙：照片大小（缩放）',
+  'settings.galleryRadius': '照片墙：半径 / 间距（密度）',
+  'settings.galleryInterval': '照片墙：自动播放间隔（秒）',
+  'settings.galleryMoveSpeed': '照片墙：迁移速度（散开→照片墙）',
+  'settings.seed': '布局种子（相同种子+相同数量=同一棵树）',
+  'settings.randomSeed': '随机生成新布局',
+  'settings.shape': '树形',
+  'settings.mask': '剪影图片（白底黑色剪影）',
+  'settings.maskMissing': '：未选择，暂用圆锥',
+  'settings.pickImage': '选择图片',
+  'settings.maskError': '无法识别剪影：请使用白底（或透明底）黑色剪影图片',
+  'settings.quality': '画质档位（自动=按帧率自适应）',
+  'settings.qualityAuto': '自动（当前：{tier}）',
+  'settings.qualityLocked': '锁定：{tier}',
+  'settings.hd': '高清模式（更清晰，稍增负载）',
+  'settings.snowDensity': '降雪：雪花数量（0=关闭，当前画质最多显示 {max}）',
+  'settings.snowSize': '降雪：雪花大小',
+  'settings.snowWind': '降雪：风力',
+  'settings.snowDirection': '降雪：风向（{degrees}°）',
+  'settings.garlandCount': '彩带条数',
+  'settings.garlandStyle': '彩带样式 / 颜色',
+  'settings.garlandColor': '彩带颜色',
+  'settings.garlandTurns': '彩带缠绕圈数',
+  'settings.lightStringCount': '灯串条数（0 = 散布）',
+  'settings.lightStringTurns': '灯串缠绕圈数',
+  'settings.bulbColor': '灯泡颜色',
+  'settings.bulbMulti': '彩色',
+  'settings.advent': '降临节日历（照片按日期解锁）',
+  'settings.adventTimeZone': '日历时区',
+  'settings.adventLocalZone': '观看者本地时间',
+  'settings.adventPreview': '预览日期（仅本机）',
+  'settings.adventPreviewOff': '按实际日期',
+  'advent.previewBefore': '12 月之前',
+  'advent.previewDay': '12 月 {day} 日',
+  'settings.greetingTitle': '祝福语：标题',
+  'settings.greetingSubtitle': '祝福语：副标题（留空时显示操作提示）',
+  'settings.greetingRecipient': '祝福语：收件人（显示为“致 …”，可留空）',
+  'settings.greetingFont': '祝福语：字体',
+  'settings.title3d': '3D 标题（五角星上方）',
+  'settings.hint': '提示：数值越大视觉越华丽，但在手机端可能卡顿。建议逐步调试找到合适的平衡。',
+  'share.copyLink': '复制链接',
+  'share.copied': '链接已复制',
+  'share.copyPrompt': '复制以下链接',
+  'share.invalidFile': '无法识别的场景文件',
+  'share.imported': '场景已导入',
+
+  // 选项
+  'quality.low': '流畅',
+  'quality.medium': '均衡',
+  'quality.high': '精美',
+  'quality.ultra': '极致',
+  'layout.ring': '环形',
+  'layout.grid': '网格墙',
+  'layout.helix': '螺旋塔',
+  'layout.sphere': '球面',
+  'layout.coverflow': '封面流',
+  'shape.cone': '经典圆锥',
+  'shape.fir': '分层冷杉',
+  'shape.spiral': '螺旋',
+  'shape.heart': '爱心',
+  'shape.star': '星形',
+  'shape.mask': '剪影图片',
+  'crop.fit': '完整显示',
+  'crop.fill': '居中裁剪',
+  'crop.focal': '焦点裁剪',
+  'font.script': '花体（Great Vibes）',
+  'font.festive': '节日体（Mountains of Christmas）',
+  'font.serif': '衬线体',
+  'font.kai': '楷体',
+  'font.sans': '无衬线',
+  'title3d.off': '关闭',
+  'title3d.glow': '发光文字',
+  'title3d.extruded': '立体金字',
+  'garland.ribbon': '缎带',
+  'garland.tinsel': '金属丝带',
+  'state.CHAOS': '散开',
+  'state.FORMED': '聚合成树',
+  'state.GALLERY': '照片墙',
+
+  // 照片库
+  'library.title': '照片库（{count}）',
+  'library.add': '追加照片',
+  'library.clear': '清空',
+  'library.clearConfirm': '确定清空照片库？',
+  'library.processing': '正在处理 {count} 张照片（摆正方向、压缩尺寸）…',
+  'library.skipped': '{count} 张照片无法解析，已跳过',
+  'library.storageUnavailable': '当前浏览器无法使用本机存储（可能处于隐私模式），照片只在本次打开期间有效',
+  'library.storageFull': '本机存储空间不足，照片未能保存；请删除部分照片或清理浏览器空间后重试',
+  'library.storageFailed': '照片保存失败：{detail}',
+  'library.budgetHint': '可在“参数设置”中提高画质档位或减少照片。',
+  'library.empty': '照片库为空，当前使用内置照片。上传后的照片会保存在本机浏览器中，刷新后仍然保留。',
+  'library.cropMode': '挂件裁剪方式',
+  'library.setTop': '设为顶部',
+  'library.unsetTop': '取消顶部',
+  'library.editMeta': '编辑说明',
+  'library.caption': '说明',
+  'library.captionPlaceholder': '写一句话，印在相框白边上',
+  'library.date': '日期',
+  'library.author': '作者',
+  'library.optional': '可选',
+  'library.focalHint': '点击图片设置焦点，树上的方形挂件会以焦点为中心裁剪',
+
+  // 背景音乐
+  'music.play': '播放音乐',
+  'music.pause': '暂停音乐',
+  'music.playing': '⏸ 音乐',
+  'music.paused': '♪ 音乐',
+  'music.volume': '音量 {percent}%',
+  'music.localTrack': '{name}（本地）',
+  'music.upload': '上传音乐',
+  'music.blocked': '浏览器阻止了自动播放，点击任意处开始播放',
+  'music.error.playback': '无法播放该音频文件',
+  'music.error.format': '请选择音频文件（mp3 / ogg / m4a / wav）',
+
+  // 贺卡时间线
+  'timeline.title': '贺卡时间线（{seconds} 秒）',
+  'timeline.play': '▶ 播放',
+  'timeline.stop': '■ 停止',
+  'timeline.loop': '循环',
+  'timeline.embed': '写入分享链接',
+  'timeline.angle': '角度',
+  'timeline.photo': '照片序号',
+  'timeline.duration': '时长（秒）',
+  'timeline.addStep': '添加步骤',
+  'timeline.reset': '恢复示例',
+  'timeline.invalidFile': '无法识别的时间线文件',
+  'timeline.imported': '时间线已导入',
+  'timeline.hint': '勾选“写入分享链接”后，复制的链接打开时会自动播放这段时间线；观看者点击屏幕即可停止播放、自由浏览。',
+  'timeline.defaultMessage': '圣诞快乐！',
+  'step.state': '切换场景',
+  'step.orbit': '镜头环绕',
+  'step.focus': '聚焦照片',
+  'step.message': '显示祝福',
+  'step.wait': '停留',
+
+  // 截图 / 录屏
+  'capture.title': '截图 / 录屏',
+  'capture.resolution': '分辨率（只渲染场景，不含页面按钮）',
+  'capture.sequence': '录屏脚本',
+  'capture.fps': '录屏帧率（固定帧率逐帧渲染，与实时帧率无关）',
+  'capture.rendering': '正在渲染截图…',
+  'capture.recording': '正在录制 {percent}%',
+  'capture.cancel': '取消',
+  'capture.savePng': '保存 PNG',
+  'capture.recordWebm': '录制 WebM',
+  'capture.note': '导出时画面会临时缩放为所选比例；高分辨率录制较慢，请耐心等待。',
+  'capture.saved': '已保存 {filename}',
+  'capture.cancelled': '已取消',
+  'capture.tooLarge': '当前显卡最大支持 {max}px，无法导出该分辨率',
+  'capture.unsupported': '当前浏览器不支持录制视频',
+  'capture.failed': '导出失败：{detail}',
+  'capturePreset.4k': '4K 横屏（{width}×{height}）',
+  'capturePreset.1080p': '1080p 横屏（{width}×{height}）',
+  'capturePreset.square': '方形（{width}×{height}）',
+  'capturePreset.story': '竖屏 9:16（{width}×{height}）',
+  'captureSequence.assemble-orbit': '散开 → 聚合 → 环绕（{seconds} 秒）',
+  'captureSequence.orbit': '仅环绕当前场景（{seconds} 秒）',
+
+  // 说明面板：与实际交互保持一致（点击在三种状态间循环）
+  'decor.title': '装饰模式',
+  'decor.tool.move': '✋ 移动',
+  'decor.tool.add': '➕ 添加',
+  'decor.tool.remove': '🗑 删除',
+  'decor.hint.move': '按住照片或元素拖到树上的新位置；拖动空白处旋转视角。',
+  'decor.hint.add': '选择类型与颜色，点击树身即可在该处挂上新元素。',
+  'decor.hint.remove': '点击元素将其从树上移除。',
+  'decor.kind': '类型',
+  'decor.color': '颜色',
+  'decor.customColor': '自定义颜色',
+  'decor.formedOnly': '装饰模式仅在聚合状态下可用，请先聚合成树。',
+  'decor.status': '元素 {elements} 个，已摆放照片 {photos} 张',
+  'decor.saved': '布局已保存在本机',
+  'decor.random': '随机布局',
+  'decor.reset': '恢复随机布局',
+  'decor.resetConfirm': '确定放弃手动摆放，恢复随机布局？',
+  'element.gift': '礼物盒',
+  'element.ball': '彩球',
+  'element.candy': '拐杖糖',
+  'theme.title': '配色主题',
+  'theme.preset.classic': '经典',
+  'theme.preset.snow': '雪夜银白',
+  'theme.preset.gold': '鎏金',
+  'theme.preset.neon': '霓虹',
+  'theme.preset.pastel': '马卡龙',
+  'theme.presetHint': '修改下方任一颜色即保存为自定义主题。',
+  'theme.custom': '自定义主题（基于修改前的配色）',
+  'theme.color.foliage': '树叶',
+  'theme.color.star': '星星',
+  'theme.color.sparkles': '闪光粒子',
+  'theme.color.background': '背景',
+  'theme.color.ambient': '环境光',
+  'theme.color.keyLight': '主光',
+  'theme.color.fillLight': '补光',
+  'theme.color.bottomLight': '底光',
+  'theme.color.elements': '礼物盒 / 彩球',
+  'theme.color.candy': '拐杖糖',
+  'theme.color.bulbs': '彩灯',
+  'theme.decorHint': '装饰模式中手动添加或固定过的元素保留各自的颜色；单色灯泡在“参数设置”中调整。',
+  'theme.invalidFile': '无法识别的主题文件',
+  'theme.imported': '主题已导入',
+  'help.title': '使用说明',
+  'help.states': '🖱 点击屏幕空白处，依次切换三种状态：聚合成树 → 散开 → 照片墙。在照片墙中点击空白处不会离开，请用右下角“返回树”回到聚合状态；右下角按钮也可以直接切换任一状态。',
+  'help.gallery': '🖼 照片墙：点击照片即可放大聚焦，再次点击取消；用底部按钮、键盘 ← / →、左右滑动切换照片，空格键开关自动播放，Esc 取消聚焦。',
+  'help.upload': '📸 上传照片：点击右下角“上传照片”，从电脑或手机选择多张图片或短视频（jpg / png / webp / gif / mp4 / webm）。上传后将仅使用你上传的照片来组成圣诞树，照片会保存在本机浏览器中，刷新后仍然保留。照片逐张加载，左下角显示进度；无法加载的照片以灰色占位相框显示并列在左下角，可重试或移除。',
+  'help.library': '🗂 照片库：点击右上角“照片库”，可追加照片、调整顺序、删除、用 ★ 指定顶部照片，选择挂件裁剪方式，并用 ✎ 为照片添加说明、日期与作者。',
+  'help.music': '🎵 背景音乐：左上角可播放 / 暂停、调节音量、切换曲目或上传本地音乐，彩灯、星星和光晕会跟随节拍闪烁。浏览器阻止自动播放时，点击任意处即可开始。',
+  'help.timeline': '💌 贺卡时间线：右上角“贺卡时间线”可编排“散开开场 → 聚合成树 → 镜头环绕 → 聚焦照片 → 显示祝福”等步骤并试播；勾选“写入分享链接”后，对方打开链接即自动播放，点击屏幕可停止。',
+  'help.greeting': '✉️ 祝福语：在“参数设置”中修改标题、副标题、收件人与字体，并可在五角星上方显示发光或立体的 3D 标题；这些内容会写入分享链接，也可以直接在链接后加参数，例如 #to=妈妈&title=Merry%20Christmas。',
+  'help.decorate': '🎀 装饰：点击右上角“装饰”进入装饰模式，可拖动照片与元素到树上的任意位置，或选择类型与颜色点击树身添加元素、点击元素删除。布局按树形自动保存在本机，导出的场景 JSON 也会包含布局。',
+  'help.capture': '📷 截图 / 录屏：右上角“截图 / 录屏”可按 4K、方形、9:16 竖屏等分辨率保存 PNG（不含页面按钮），或按脚本（散开 → 聚合 → 环绕）以固定帧率录制 WebM 视频。',
+  'help.weather': '❄️ 降雪：“参数设置”中可调节雪花数量、大小、风力与风向；下雪时树下的地面会逐渐积雪，树叶顶部也会覆上一层白雪，停雪后慢慢融化。低画质档位会自动减少雪花数量。',
+  'help.garland': '🎗 彩带与灯串：“参数设置”中可调节缠绕的缎带 / 金属丝带条数、颜色与圈数，以及彩灯串的条数、圈数和灯泡颜色（灯串条数为 0 时彩灯随机散布）。散开时彩带和灯串从顶端松开、飘散成长带，聚合时再自下而上绕回树上。',
+  'help.theme': '🎨 配色主题：右上角“配色”可在经典、雪夜银白、鎏金、霓虹、马卡龙之间切换，或逐项修改树叶、星星、元素、彩灯、背景与灯光的颜色，修改即时生效并保存在本机。主题会写入分享链接，也可以单独导出 / 导入 JSON。',
+  'help.settings': '⚙️ 参数说明：树叶粒子数量=树身密度；拍立得照片数量=挂件数量（不足时循环纹理）；圣诞元素数量=礼物盒/球/拐杖糖的总数；彩灯数量=闪烁灯泡数。数值越大，视觉更华丽，但对性能的影响也更明显，尤其在移动端。画质默认按帧率自动升降档，也可手动锁定。',
+  'help.share': '🔗 分享：“参数设置”底部可复制链接或导出 / 导入 JSON，打开链接即可复现同一棵树。',
+  'help.advent': '🎁 降临节日历：在设置中开启后，前 24 张照片依次对应 12 月 1–24 日，到日期之前显示为写着日期的礼物，当天打开页面时礼物会摇晃、拆开并换成照片，顶部显示圣诞倒计时。日期按所选时区计算，随分享链接一起保存；“预览日期”可临时查看某一天的效果。',
+  'help.offline': '📲 离线使用：首次打开后页面、字体、环境贴图与内置照片都会缓存在本机，可从浏览器菜单“安装”或“添加到主屏幕”，断网时照常打开；上传到照片库的照片同样可用。发布新版本后会提示刷新。',
+  'help.language': '🌐 语言：右上角可在中文与 English 之间切换，选择会保存在本机浏览器中。',
+  'help.outro': '🎄 圣诞快乐！',
+};
+
+export type MessageKey = keyof typeof zhCN;
+export type MessageParams = Record<string, string | number>;
+
+const en: Record<MessageKey, string> = {
+  'banner.hint': 'Click anywhere to begin (best viewed on a desktop)',
+  'banner.recipient': 'To {name}',
+  'banner.timelinePlaying': 'Playing greeting card · click anywhere to explore',
+  'advent.countdown': '{days} days {time} until Christmas',
+  'advent.christmas': '🎄 Merry Christmas!',
+  'advent.previewing': ' (preview: {day})',
+
+  'stats.memories': 'Memories',
+  'stats.photos': 'photos',
+  'stats.foliage': 'Foliage',
+  'stats.particles': 'particles',
+  'stats.quality': 'Quality',
+  'stats.auto': 'Auto',
+  'stats.locked': 'Locked',
+  'stats.fps': '{fps} FPS',
+  'stats.processing': 'Processing {count} photos…',
+  'stats.loadingPhotos': 'Loading photos {loaded} / {total}',
+  'stats.photoErrors': '{count} photos could not be loaded',
+  'stats.budgetWarning': 'Photo textures need about {total} MB, over the {budget} MB budget of the “{tier}” tier; only the first {count} photos are used on the tree',
+
+  'button.upload': 'Upload photos',
+  'button.backToTree': 'Back to tree',
+  'button.assemble': 'Assemble',
+  'button.scatter': 'Scatter',
+  'button.gallery': 'Gallery',
+  'button.settings': 'Settings',
+  'button.timeline': 'Greeting card',
+  'button.capture': 'Capture',
+  'button.library': 'Library',
+  'button.decorate': '🎀 Decorate',
+  'button.theme': '🎨 Theme',
+  'button.help': 'Help',
+  'button.moveUp': 'Move up',
+  'button.moveDown': 'Move down',
+  'button.remove': 'Remove',
+  'button.retry': 'Retry',
+  'pwa.updateReady': 'A new version is ready',
+  'pwa.reload': 'Reload',
+  'pwa.later': 'Later',
+  'pwa.offlineReady': 'Cached on this device — works offline',
+  'button.exportJson': 'Export JSON',
+  'button.importJson': 'Import JSON',
+  'locale.label': 'Language',
+
+  'gallery.prev': 'Previous (←)',
+  'gallery.next': 'Next (→)',
+  'gallery.autoplay': 'Autoplay (Space)',
+  'gallery.paused': '⏸ Paused',
+  'gallery.playing': '⏸ Playing',
+  'gallery.start': '▶ Autoplay',
+
+  'settings.title': 'Settings',
+  'settings.foliage': 'Foliage particles (denser, but heavier)',
+  'settings.ornaments': 'Polaroid ornaments (photos repeat if there are fewer)',
+  'settings.elements': 'Christmas elements (gifts, baubles, candy canes)',
+  'settings.lights': 'Fairy lights (twinkling bulbs)',
+  'settings.cameraDistance': 'Default camera distance (smaller is closer)',
+  'settings.galleryPhotos': 'Gallery: number of photos',
+  'settings.galleryLayout': 'Gallery: layout',
+  'settings.galleryScale': 'Gallery: photo size (scale)',
+  'settings.galleryRadius': 'Gallery: radius / spacing (density)',
+  'settings.galleryInterval': 'Gallery: autoplay interval (seconds)',
+  'settings.galleryMoveSpeed': 'Gallery: transition speed (scatter → gallery)',
+  'settings.seed': 'Layout seed (same seed + same counts = same tree)',
+  'settings.randomSeed': 'Generate a new random layout',
+  'settings.shape': 'Tree shape',
+  'settings.mask': 'Silhouette image (black shape on white)',
+  'settings.maskMissing': ': none selected, using the cone',
+  'settings.pickImage': 'Choose image',
+  'settings.maskError': 'Could not read the silhouette: use a black shape on a white (or transparent) background',
+  'settings.quality': 'Quality tier (Auto adapts to the frame rate)',
+  'settings.qualityAuto': 'Auto (currently {tier})',
+  'settings.qualityLocked': 'Locked: {tier}',
+  'settings.hd': 'HD mode (sharper, slightly heavier)',
+  'settings.snowDensity': 'Snow: number of flakes (0 = off, this quality tier shows up to {max})',
+  'settings.snowSize': 'Snow: flake size',
+  'settings.snowWind': 'Snow: wind strength',
+  'settings.snowDirection': 'Snow: wind direction ({degrees}°)',
+  'settings.garlandCount': 'Garlands',
+  'settings.garlandStyle': 'Garland style / color',
+  'settings.garlandColor': 'Garland color',
+  'settings.garlandTurns': 'Garland turns',
+  'settings.lightStringCount': 'Light strings (0 = scattered)',
+  'settings.lightStringTurns': 'Light string turns',
+  'settings.bulbColor': 'Bulb color',
+  'settings.bulbMulti': 'Multicolor',
+  'settings.advent': 'Advent calendar (photos unlock by date)',
+  'settings.adventTimeZone': 'Calendar time zone',
+  'settings.adventLocalZone': 'Viewer’s local time',
+  'settings.adventPreview': 'Preview date (this device only)',
+  'settings.adventPreviewOff': 'Actual date',
+  'advent.previewBefore': 'Before December',
+  'advent.previewDay': 'December {day}',
+  'settings.greetingTitle': 'Greeting: title',
+  'settings.greetingSubtitle': 'Greeting: subtitle (shows the usage hint when empty)',
+  'settings.greetingRecipient': 'Greeting: recipient (shown as “To …”, optional)',
+  'settings.greetingFont': 'Greeting: font',
+  'settings.title3d': '3D title (above the star)',
+  'settings.hint': 'Tip: larger values look richer but may stutter on phones. Adjust step by step to find a good balance.',
+  'share.copyLink': 'Copy link',
+  'share.copied': 'Link copied',
+  'share.copyPrompt': 'Copy this link',
+  'share.invalidFile': 'Unrecognized scene file',
+  'share.imported': 'Scene imported',
+
+  'quality.low': 'Smooth',
+  'quality.medium': 'Balanced',
+  'quality.high': 'Fine',
+  'quality.ultra': 'Ultra',
+  'layout.ring': 'Ring',
+  'layout.grid': 'Grid wall',
+  'layout.helix': 'Helix tower',
+  'layout.sphere': 'Sphere',
+  'layout.coverflow': 'Cover flow',
+  'shape.cone': 'Classic cone',
+  'shape.fir': 'Layered fir',
+  'shape.spiral': 'Spiral',
+  'shape.heart': 'Heart',
+  'shape.star': 'Star',
+  'shape.mask': 'Silhouette image',
+  'crop.fit': 'Show whole photo',
+  'crop.fill': 'Center crop',
+  'crop.focal': 'Focal-point crop',
+  'font.script': 'Script (Great Vibes)',
+  'font.festive': 'Festive (Mountains of Christmas)',
+  'font.serif': 'Serif',
+  'font.kai': 'Kai (Chinese brush)',
+  'font.sans': 'Sans-serif',
+  'title3d.off': 'Off',
+  'title3d.glow': 'Glowing text',
+  'title3d.extruded': 'Extruded gold',
+  'garland.ribbon': 'Ribbon',
+  'garland.tinsel': 'Tinsel',
+  'state.CHAOS': 'Scattered',
+  'state.FORMED': 'Assembled tree',
+  'state.GALLERY': 'Gallery',
+
+  'library.title': 'Photo library ({count})',
+  'library.add': 'Add photos',
+  'library.clear': 'Clear',
+  'library.clearConfirm': 'Clear the photo library?',
+  'library.processing': 'Processing {count} photos (fixing orientation, resizing)…',
+  'library.skipped': '{count} photos could not be decoded and were skipped',
+  'library.storageUnavailable': 'Browser storage is unavailable (private browsing?), so photos only last for this visit',
+  'library.storageFull': 'Browser storage is full and the photos were not saved. Remove some photos or free up space, then try again',
+  'library.storageFailed': 'Could not save photos: {detail}',
+  'library.budgetHint': 'Raise the quality tier in Settings or use fewer photos.',
+  'library.empty': 'The library is empty, so the bundled photos are shown. Uploaded photos are stored in this browser and survive a reload.',
+  'library.cropMode': 'Ornament crop mode',
+  'library.setTop': 'Pin to top',
+  'library.unsetTop': 'Unpin from top',
+  'library.editMeta': 'Edit caption',
+  'library.caption': 'Caption',
+  'library.captionPlaceholder': 'A line printed on the polaroid border',
+  'library.date': 'Date',
+  'library.author': 'Author',
+  'library.optional': 'Optional',
+  'library.focalHint': 'Click the image to set the focal point; square ornaments are cropped around it',
+
+  'music.play': 'Play music',
+  'music.pause': 'Pause music',
+  'music.playing': '⏸ Music',
+  'music.paused': '♪ Music',
+  'music.volume': 'Volume {percent}%',
+  'music.localTrack': '{name} (local)',
+  'music.upload': 'Upload music',
+  'music.blocked': 'The browser blocked autoplay; click anywhere to start the music',
+  'music.error.playback': 'This audio file cannot be played',
+  'music.error.format': 'Please choose an audio file (mp3 / ogg / m4a / wav)',
+
+  'timeline.title': 'Greeting card timeline ({seconds}s)',
+  'timeline.play': '▶ Play',
+  'timeline.stop': '■ Stop',
+  'timeline.loop': 'Loop',
+  'timeline.embed': 'Include in share link',
+  'timeline.angle': 'Angle',
+  'timeline.photo': 'Photo #',
+  'timeline.duration': 'Duration (seconds)',
+  'timeline.addStep': 'Add step',
+  'timeline.reset': 'Restore example',
+  'timeline.invalidFile': 'Unrecognized timeline file',
+  'timeline.imported': 'Timeline imported',
+  'timeline.hint': 'With “Include in share link” checked, the copied link plays this timeline automatically; viewers can click the screen to stop it and explore freely.',
+  'timeline.defaultMessage': 'Merry Christmas!',
+  'step.state': 'Change scene',
+  'step.orbit': 'Orbit camera',
+  'step.focus': 'Focus photo',
+  'step.message': 'Show message',
+  'step.wait': 'Wait',
+
+  'capture.title': 'Capture',
+  'capture.resolution': 'Resolution (scene only, without page buttons)',
+  'capture.sequence': 'Recording script',
+  'capture.fps': 'Recording frame rate (rendered frame by frame, independent of the live frame rate)',
+  'capture.rendering': 'Rendering screenshot…',
+  'capture.recording': 'Recording {percent}%',
+  'capture.cancel': 'Cancel',
+  'capture.savePng': 'Save PNG',
+  'capture.recordWebm': 'Record WebM',
+  'capture.note': 'The view is temporarily scaled to the chosen aspect ratio while exporting; high-resolution recordings are slow, please be patient.',
+  'capture.saved': 'Saved {filename}',
+  'capture.cancelled': 'Cancelled',
+  'capture.tooLarge': 'This GPU supports at most {max}px, so this resolution cannot be exported',
+  'capture.unsupported': 'This browser cannot record video',
+  'capture.failed': 'Export failed: {detail}',
+  'capturePreset.4k': '4K landscape ({width}×{height})',
+  'capturePreset.1080p': '1080p landscape ({width}×{height})',
+  'capturePreset.square': 'Square ({width}×{height})',
+  'capturePreset.story': 'Portrait 9:16 ({width}×{height})',
+  'captureSequence.assemble-orbit': 'Scatter → assemble → orbit ({seconds}s)',
+  'captureSequence.orbit': 'Orbit the current scene ({seconds}s)',
+
+  'decor.title': 'Decorate',
+  'decor.tool.move': '✋ Move',
+  'decor.tool.add': '➕ Add',
+  'decor.tool.remove': '🗑 Remove',
+  'decor.hint.move': 'Press and drag a photo or element to a new spot on the tree; drag empty space to orbit the view.',
+  'decor.hint.add': 'Pick a type and color, then click the tree to hang a new element there.',
+  'decor.hint.remove': 'Click an element to take it off the tree.',
+  'decor.kind': 'Type',
+  'decor.color': 'Color',
+  'decor.customColor': 'Custom color',
+  'decor.formedOnly': 'Decorating only works while the tree is assembled. Assemble it first.',
+  'decor.status': '{elements} elements, {photos} photos placed',
+  'decor.saved': 'layout saved on this device',
+  'decor.random': 'random layout',
+  'decor.reset': 'Restore random layout',
+  'decor.resetConfirm': 'Discard your arrangement and go back to the random layout?',
+  'element.gift': 'Gift box',
+  'element.ball': 'Bauble',
+  'element.candy': 'Candy cane',
+  'theme.title': 'Color theme',
+  'theme.preset.classic': 'Classic',
+  'theme.preset.snow': 'Snowy silver',
+  'theme.preset.gold': 'Gold luxe',
+  'theme.preset.neon': 'Neon',
+  'theme.preset.pastel': 'Pastel',
+  'theme.presetHint': 'Change any color below to save it as a custom theme.',
+  'theme.custom': 'Custom theme (based on the previous colors)',
+  'theme.color.foliage': 'Foliage',
+  'theme.color.star': 'Star',
+  'theme.color.sparkles': 'Sparkles',
+  'theme.color.background': 'Background',
+  'theme.color.ambient': 'Ambient light',
+  'theme.color.keyLight': 'Key light',
+  'theme.color.fillLight': 'Fill light',
+  'theme.color.bottomLight': 'Bottom light',
+  'theme.color.elements': 'Gifts / baubles',
+  'theme.color.candy': 'Candy canes',
+  'theme.color.bulbs': 'Fairy lights',
+  'theme.decorHint': 'Elements you added or pinned in decorating mode keep their own colors; single-color bulbs are set in Settings.',
+  'theme.invalidFile': 'Unrecognized theme file',
+  'theme.imported': 'Theme imported',
+  'help.title': 'How to use',
+  'help.states': '🖱 Click an empty part of the screen to cycle through three states: assembled tree → scattered → gallery. Clicking in the gallery does not leave it; use “Back to tree” at the bottom right to reassemble. The bottom-right buttons also switch to any state directly.',
+  'help.gallery': '🖼 Gallery: click a photo to zoom in and click again to release it. Switch photos with the buttons at the bottom, the ← / → keys or a swipe; Space toggles autoplay and Esc clears the focus.',
+  'help.upload': '📸 Upload photos: click “Upload photos” at the bottom right and pick several images or short clips (jpg / png / webp / gif / mp4 / webm). The tree is then built only from your photos, which are stored in this browser and survive a reload. Photos load one by one with progress shown at the bottom left; any that cannot be loaded appear as grey placeholder polaroids and are listed at the bottom left, where you can retry or remove them.',
+  'help.library': '🗂 Photo library: click “Library” at the top right to add, reorder or remove photos, pin a top photo with ★, choose how ornaments are cropped, and use ✎ to add a caption, date and author.',
+  'help.music': '🎵 Music: the top-left controls play / pause, set the volume, switch tracks or upload your own music; the lights, star and glow pulse with the beat. If the browser blocks autoplay, click anywhere to start.',
+  'help.timeline': '💌 Greeting card: “Greeting card” at the top right lets you script steps such as scattered opening → assemble → orbit → focus photos → show a message and preview them. With “Include in share link” checked, the recipient’s link plays it automatically; a click stops it.',
+  'help.greeting': '✉️ Greeting: change the title, subtitle, recipient and font in Settings, and show a glowing or extruded 3D title above the star. These are written into the share link; you can also append parameters yourself, e.g. #to=Mom&title=Merry%20Christmas.',
+  'help.decorate': '🎀 Decorate: click “Decorate” at the top right to drag photos and elements anywhere on the tree, click the tree to add an element of the chosen type and color, or click an element to remove it. The arrangement is saved per tree shape in this browser and included in exported scene JSON.',
+  'help.capture': '📷 Capture: “Capture” at the top right saves a PNG at 4K, square, 9:16 portrait and other sizes (without page buttons), or records a WebM video at a fixed frame rate following a script (scatter → assemble → orbit).',
+  'help.weather': '❄️ Snow: Settings control the number of flakes, their size, and the wind strength and direction. While it snows, snow slowly builds up on the ground under the tree and dusts the tops of the foliage, then melts after the snow stops. Lower quality tiers automatically show fewer flakes.',
+  'help.garland': '🎗 Garlands and light strings: Settings control how many ribbon or tinsel garlands wrap the tree, their color and number of turns, plus the number of light strings, their turns and bulb color (with 0 strings the lights are scattered). When the tree scatters, garlands and strings unwind from the top into long drifting strands, then wrap back on from the bottom when it reassembles.',
+  'help.theme': '🎨 Color theme: “Theme” at the top right switches between Classic, Snowy silver, Gold luxe, Neon and Pastel, or lets you change the foliage, star, element, light, background and lighting colors one by one. Changes apply immediately and are saved in this browser. The theme is written into the share link and can also be exported / imported as JSON on its own.',
+  'help.settings': '⚙️ Settings: foliage particles = density of the tree body; polaroid ornaments = number of hanging photos (photos repeat if there are fewer); Christmas elements = total gifts, baubles and candy canes; fairy lights = twinkling bulbs. Larger values look richer but cost more performance, especially on phones. Quality adapts to the frame rate by default and can be locked manually.',
+  'help.share': '🔗 Sharing: the bottom of Settings can copy a link or export / import JSON; opening the link recreates the same tree.',
+  'help.advent': '🎁 Advent calendar: once enabled in Settings, the first 24 photos map to December 1–24 and appear as gifts labelled with their date until that day arrives; on the day, the gift shakes, unwraps and turns into the photo, and a Christmas countdown shows at the top. Dates follow the chosen time zone, which is saved with share links; use “Preview date” to try out any day.',
+  'help.offline': '📲 Offline: after the first visit the page, fonts, environment map and bundled photos are cached in this browser. Use “Install” or “Add to Home Screen” from the browser menu to open it without a connection; photos in your library keep working too. You will be asked to reload when a new version is published.',
+  'help.language': '🌐 Language: switch between 中文 and English at the top right; the choice is remembered in this browser.',
+  'help.outro': '🎄 Merry Christmas!',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { 'zh-CN': zhCN, en };
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams) =>
+  CATALOGS[locale][key].replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params?.[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+
+// 需要随语言切换重新翻译的提示：保存消息键与参数，而不是翻译后的文字
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+// --- 语言检测：优先使用上次手动选择，其次按浏览器语言（zh* → 中文，其余 → 英文） ---
+const STORAGE_KEY = 'christmas-tree-locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALE_OPTIONS.some(o => o.id === value);
+
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch { /* 隐私模式下 localStorage 不可用 */ }
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const lang of languages) {
+    const code = lang?.toLowerCase() ?? '';
+    if (code.startsWith('zh')) return 'zh-CN';
+    if (code.startsWith('en')) return 'en';
+  }
+  return 'en';
+};
+
+// --- React 绑定：GrandTreeApp 持有语言状态，经 I18nContext 提供给各面板组件 ---
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+const createI18n = (locale: Locale, setLocale: (locale: Locale) => void): I18n => ({
+  locale,
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  formatNumber: (value, options) => formatNumber(locale, value, options),
+});
+
+export const I18nContext = createContext<I18n>(createI18n('zh-CN', () => {}));
+
+export const useI18n = () => useContext(I18nContext);
+
+export const useLocaleState = (): I18n => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+  useEffect(() => { document.documentElement.lang = locale; }, [locale]);
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch { /* 忽略：仅本次会话生效 */ }
+  }, []);
+  return useMemo(() => createI18n(locale, setLocale), [locale, setLocale]);
+};
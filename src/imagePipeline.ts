@@ -0,0 +1,135 @@
+import { orientationSwapsAxes, readExif } from './exif';
+
+// --- 上传照片预处理：按 EXIF 摆正、按画质档位缩小，生成树上缩略图与聚焦大图，并读取拍摄日期 ---
+// 只依赖 createImageBitmap / (Offscreen)Canvas，主线程与 Web Worker 中都可运行
+
+export interface PhotoPipelineOptions {
+  // 树上挂件使用的缩略图最长边（px）
+  thumbEdge: number;
+  // 照片墙聚焦时使用的大图最长边（px）
+  largeEdge: number;
+}
+
+export interface PhotoSizes {
+  width: number;
+  height: number;
+  thumbWidth: number;
+  thumbHeight: number;
+}
+
+export interface ProcessedPhoto extends PhotoSizes {
+  large: Blob;
+  thumb: Blob;
+  // EXIF 拍摄日期（YYYY-MM-DD）
+  date?: string;
+}
+
+const OUTPUT_TYPE = 'image/jpeg';
+const OUTPUT_QUALITY = 0.85;
+// EXIF 位于文件开头，读前 128KB 足够
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+export const fitEdge = (width: number, height: number, maxEdge: number) => {
+  const ratio = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * ratio)), height: Math.max(1, Math.round(height * ratio)) };
+};
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width; canvas.height = height;
+  return canvas;
+};
+
+const canvasToBlob = (canvas: AnyCanvas): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type: OUTPUT_TYPE, quality: OUTPUT_QUALITY });
+  return new Promise((resolve, reject) => canvas.toBlob(
+    blob => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))),
+    OUTPUT_TYPE, OUTPUT_QUALITY,
+  ));
+};
+
+// EXIF 方向 2–8 对应的画布变换；width / height 为摆正后的输出尺寸
+const applyOrientation = (ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, height); break;
+  }
+};
+
+// 把源图缩放到 maxEdge 以内并按 orientation 摆正
+const drawScaled = (source: ImageBitmap | AnyCanvas, orientation: number, maxEdge: number) => {
+  const swap = orientationSwapsAxes(orientation);
+  const { width, height } = fitEdge(swap ? source.height : source.width, swap ? source.width : source.height, maxEdge);
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.imageSmoothingQuality = 'high';
+  applyOrientation(ctx, orientation, width, height);
+  ctx.drawImage(source, 0, 0, swap ? height : width, swap ? width : height);
+  return canvas;
+};
+
+// 把任意画面（如视频帧）缩放到 maxEdge 以内并编码为 JPEG
+export const encodeFrame = async (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, maxEdge: number) => {
+  const { width, height } = fitEdge(sourceWidth, sourceHeight, maxEdge);
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  return { blob: await canvasToBlob(canvas), width, height };
+};
+
+// 支持 imageOrientation 的浏览器解码时即已按 EXIF 摆正；旧浏览器不认识该选项会抛错，此时自行旋转
+const decode = async (blob: Blob) => {
+  try {
+    return { bitmap: await createImageBitmap(blob, { imageOrientation: 'from-image' }), oriented: true };
+  } catch {
+    return { bitmap: await createImageBitmap(blob), oriented: false };
+  }
+};
+
+export const processPhoto = async (blob: Blob, options: PhotoPipelineOptions): Promise<ProcessedPhoto> => {
+  const { orientation, date } = readExif(await blob.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  const { bitmap, oriented } = await decode(blob);
+  try {
+    const large = drawScaled(bitmap, oriented ? 1 : orientation, options.largeEdge);
+    // 缩略图从大图再缩一次，避免一步缩小过多产生锯齿
+    const thumb = drawScaled(large, 1, options.thumbEdge);
+    return {
+      large: await canvasToBlob(large), width: large.width, height: large.height,
+      thumb: await canvasToBlob(thumb), thumbWidth: thumb.width, thumbHeight: thumb.height,
+      date,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// --- 纹理显存预算 ---
+const MB = 1024 * 1024;
+
+// RGBA8 纹理；mipmap 链额外约 1/3
+export const estimateTextureBytes = (width: number, height: number, mipmaps: boolean) =>
+  width * height * 4 * (mipmaps ? 4 / 3 : 1);
+
+// 按顺序累加树上缩略图，并为一张聚焦大图预留空间；返回预算内可用的照片数量
+export const fitTextureBudget = (photos: PhotoSizes[], budgetMB: number, mipmaps: boolean) => {
+  const budget = budgetMB * MB;
+  const reserve = photos.reduce((max, p) => Math.max(max, estimateTextureBytes(p.width, p.height, mipmaps)), 0);
+  let total = reserve;
+  let count = photos.length;
+  photos.forEach((p, i) => {
+    total += estimateTextureBytes(p.thumbWidth, p.thumbHeight, mipmaps);
+    if (total > budget && count === photos.length) count = i;
+  });
+  return { count: Math.max(Math.min(1, photos.length), count), totalMB: total / MB, budgetMB };
+};
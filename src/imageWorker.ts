@@ -0,0 +1,11 @@
+import { processPhoto, type PhotoPipelineOptions } from './imagePipeline';
+
+// --- Web Worker 入口：在后台线程解码、摆正与缩放照片，避免上传大图时界面卡顿 ---
+self.onmessage = async (e: MessageEvent<{ id: number, blob: Blob, options: PhotoPipelineOptions }>) => {
+  const { id, blob, options } = e.data;
+  try {
+    self.postMessage({ id, photo: await processPhoto(blob, options) });
+  } catch (err) {
+    self.postMessage({ id, error: String((err as Error)?.message || err) });
+  }
+};
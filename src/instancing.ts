@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+
+// --- 实例化渲染辅助：逐实例颜色驱动自发光、彩灯闪烁着色器 ---
+
+// MeshStandardMaterial 的 emissive 默认不受 instanceColor 影响；
+// 这里把自发光乘上逐实例颜色，使一个 InstancedMesh 就能表现多种颜色的发光体
+export const createInstanceEmissiveMaterial = (params: THREE.MeshStandardMaterialParameters) => {
+  const material = new THREE.MeshStandardMaterial({ color: '#ffffff', emissive: '#ffffff', ...params });
+  material.onBeforeCompile = (shader) => {
+    shader.fragmentShader = shader.fragmentShader.replace(
+      '#include <emissivemap_fragment>',
+      `#include <emissivemap_fragment>
+      #ifdef USE_COLOR
+        totalEmissiveRadiance *= vColor.rgb;
+      #endif`
+    );
+  };
+  material.customProgramCacheKey = () => 'instance-emissive';
+  return material;
+};
+
+// 彩灯：闪烁由着色器计算 —— 每个实例的 aTwinkle = (速度, 相位)，
+// 亮度 = uLit * (3 + 4 * (sin(uTime * 速度 + 相位) + 1) / 2)，与原先逐个 mesh 的效果一致
+// 播放音乐时按 uAudio（0–1）过渡到音频亮度：按相位一半灯跟随低频 / 节拍，一半跟随高频
+export interface TwinkleUniforms {
+  uTime: { value: number };
+  uLit: { value: number };
+  uAudio: { value: number };
+  // (低频与节拍, 高频)，0–1
+  uBands: { value: THREE.Vector2 };
+}
+
+export const createTwinkleMaterial = () => {
+  const uniforms: TwinkleUniforms = { uTime: { value: 0 }, uLit: { value: 0 }, uAudio: { value: 0 }, uBands: { value: new THREE.Vector2() } };
+  const material = new THREE.MeshStandardMaterial({ color: '#ffffff', emissive: '#ffffff', emissiveIntensity: 1, toneMapped: false });
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.uTime = uniforms.uTime;
+    shader.uniforms.uLit = uniforms.uLit;
+    shader.uniforms.uAudio = uniforms.uAudio;
+    shader.uniforms.uBands = uniforms.uBands;
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>
+      attribute vec2 aTwinkle;
+      uniform float uTime;
+      uniform float uLit;
+      uniform float uAudio;
+      uniform vec2 uBands;
+      varying float vGlow;`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>
+      float sineGlow = 3.0 + (sin(uTime * aTwinkle.x + aTwinkle.y) + 1.0) * 0.5 * 4.0;
+      float band = fract(aTwinkle.y) < 0.5 ? uBands.x : uBands.y;
+      float audioGlow = 1.5 + band * 8.0;
+      vGlow = uLit * mix(sineGlow, audioGlow, uAudio);`);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>
+      varying float vGlow;`)
+      .replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>
+      #ifdef USE_COLOR
+        totalEmissiveRadiance *= vColor.rgb;
+      #endif
+      totalEmissiveRadiance *= vGlow;`);
+  };
+  material.customProgramCacheKey = () => 'fairy-twinkle';
+  return { material, uniforms };
+};
+
+// 将位置 / 欧拉角 / 统一缩放写入实例矩阵（复用临时对象，避免每帧分配）
+const tmpQuat = new THREE.Quaternion();
+const tmpScale = new THREE.Vector3();
+export const composeInstance = (target: THREE.Matrix4, position: THREE.Vector3, rotation: THREE.Euler, scale: number) => {
+  tmpQuat.setFromEuler(rotation);
+  tmpScale.setScalar(scale);
+  return target.compose(position, tmpQuat, tmpScale);
+};
@@ -0,0 +1,40 @@
+// --- 地址栏同步：场景与贺卡共用，合并短时间内的多次修改后再写入 ---
+// 浏览器限制 replaceState 的调用频率（约 100 次 / 10 秒），超出会抛出 SecurityError；
+// 拖动取色器或连续输入时每次变化都写入地址栏很容易触发
+
+type UrlUpdate = (url: URL) => void;
+
+const DELAY_MS = 300;
+const pending = new Map<string, UrlUpdate>();
+let timer: number | undefined;
+
+const applyPending = (href: string) => {
+  const url = new URL(href);
+  pending.forEach(update => update(url));
+  return url.toString();
+};
+
+// 当前地址加上尚未写入的修改（复制分享链接时使用，避免丢失最后几次输入）
+export const pendingHref = () => applyPending(window.location.href);
+
+export const flushLocation = () => {
+  window.clearTimeout(timer);
+  timer = undefined;
+  if (pending.size === 0) return;
+  const href = pendingHref();
+  pending.clear();
+  try {
+    window.history.replaceState(window.history.state, '', href);
+  } catch {
+    // 仍被限流或处于受限环境（沙箱 iframe）时放弃本次同步，不影响页面本身
+  }
+};
+
+// 同一 key 只保留最后一次修改；离开页面前立即写入，刷新后仍能恢复
+export const scheduleLocationUpdate = (key: string, update: UrlUpdate) => {
+  pending.set(key, update);
+  window.clearTimeout(timer);
+  timer = window.setTimeout(flushLocation, DELAY_MS);
+};
+
+window.addEventListener('pagehide', flushLocation);
@@ -0,0 +1,205 @@
+import * as THREE from 'three';
+
+// --- 动态照片：视频（mp4 / webm）与动图（GIF / 动态 WebP）作为会播放的纹理 ---
+
+export type MediaKind = 'image' | 'video' | 'animated';
+
+const VIDEO_EXT = /\.(mp4|webm|mov|m4v)(\?|#|$)/i;
+const GIF_EXT = /\.gif(\?|#|$)/i;
+
+// 按文件名粗略判断（内置资源）；动态 WebP 需读取文件头，见 detectMediaKind
+export const mediaKindFromName = (name: string): MediaKind => {
+  if (VIDEO_EXT.test(name)) return 'video';
+  if (GIF_EXT.test(name)) return 'animated';
+  return 'image';
+};
+
+export const isMediaKind = (value: unknown): value is MediaKind =>
+  value === 'image' || value === 'video' || value === 'animated';
+
+// WebP 扩展格式（VP8X）的第 1 个标志字节中 0x02 位表示含动画
+const isAnimatedWebp = (bytes: Uint8Array) => {
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  return bytes.length >= 21 && tag(0) === 'RIFF' && tag(8) === 'WEBP' && tag(12) === 'VP8X' && (bytes[20] & 0x02) !== 0;
+};
+
+export const detectMediaKind = async (blob: Blob, name: string): Promise<MediaKind> => {
+  if (blob.type.startsWith('video/')) return 'video';
+  if (blob.type === 'image/gif') return 'animated';
+  if (blob.type === 'image/webp' || /\.webp$/i.test(name)) {
+    const head = new Uint8Array(await blob.slice(0, 32).arrayBuffer());
+    return isAnimatedWebp(head) ? 'animated' : 'image';
+  }
+  return mediaKindFromName(name);
+};
+
+// 上传 / 选择文件时接受的类型
+export const MEDIA_ACCEPT = 'image/*,video/mp4,video/webm';
+
+export interface MediaPlayer {
+  kind: 'video' | 'animated';
+  texture: THREE.Texture;
+  // 画面尺寸（未加载完成时为 0）
+  width: number;
+  height: number;
+  setPlaying: (playing: boolean) => void;
+  setMuted: (muted: boolean) => void;
+  // 每帧调用：动图按各帧时长推进（视频由 VideoTexture 自行更新）
+  update: (deltaSeconds: number) => void;
+  dispose: () => void;
+}
+
+// --- 视频 ---
+export const createVideoPlayer = (url: string, onReady: () => void): MediaPlayer => {
+  const video = document.createElement('video');
+  video.src = url;
+  video.muted = true;
+  video.loop = true;
+  video.playsInline = true;
+  video.crossOrigin = 'anonymous';
+  video.preload = 'auto';
+  const texture = new THREE.VideoTexture(video);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const player: MediaPlayer = {
+    kind: 'video',
+    texture,
+    width: 0,
+    height: 0,
+    setPlaying: (playing) => {
+      if (playing && video.paused) video.play().catch(() => { /* 自动播放被拒绝时保持静止画面 */ });
+      else if (!playing && !video.paused) video.pause();
+    },
+    setMuted: (muted) => { video.muted = muted; },
+    update: () => {},
+    dispose: () => {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      texture.dispose();
+    },
+  };
+  video.addEventListener('loadedmetadata', () => {
+    player.width = video.videoWidth;
+    player.height = video.videoHeight;
+    onReady();
+  }, { once: true });
+  return player;
+};
+
+// --- 动图：WebCodecs ImageDecoder 逐帧解码到画布；不支持的浏览器只显示第一帧 ---
+interface DecodedFrame {
+  image: CanvasImageSource & { displayWidth: number, displayHeight: number, duration: number | null, close: () => void };
+}
+interface ImageDecoderLike {
+  tracks: { ready: Promise<void>, selectedTrack: { frameCount: number } | null };
+  decode: (options: { frameIndex: number }) => Promise<DecodedFrame>;
+  close: () => void;
+}
+type ImageDecoderConstructor = new (init: { data: ArrayBuffer, type: string }) => ImageDecoderLike;
+
+// 帧时长缺失或过短时按 10fps 播放（与浏览器对 GIF 的处理一致）
+const MIN_FRAME_SECONDS = 0.02;
+const DEFAULT_FRAME_SECONDS = 0.1;
+
+export const createAnimatedPlayer = (url: string, onReady: () => void): MediaPlayer => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1; canvas.height = 1;
+  const ctx = canvas.getContext('2d');
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  let decoder: ImageDecoderLike | null = null;
+  let frameCount = 1;
+  let frameIndex = 0;
+  let frameTime = 0;
+  let frameDuration = DEFAULT_FRAME_SECONDS;
+  let decoding = false;
+  let playing = false;
+  let disposed = false;
+
+  const draw = (image: CanvasImageSource, width: number, height: number) => {
+    if (!ctx || disposed) return;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width; canvas.height = height;
+      // 尺寸变化需要重新分配 GPU 纹理
+      texture.dispose();
+    }
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    texture.needsUpdate = true;
+  };
+
+  const showFrame = async (index: number) => {
+    if (!decoder || decoding) return;
+    decoding = true;
+    try {
+      const { image } = await decoder.decode({ frameIndex: index });
+      draw(image, image.displayWidth, image.displayHeight);
+      frameDuration = image.duration ? Math.max(MIN_FRAME_SECONDS, image.duration / 1e6) : DEFAULT_FRAME_SECONDS;
+      image.close();
+    } catch {
+      // 个别帧损坏时停在当前帧
+    } finally {
+      decoding = false;
+    }
+  };
+
+  const player: MediaPlayer = {
+    kind: 'animated',
+    texture,
+    width: 0,
+    height: 0,
+    setPlaying: (next) => { playing = next; },
+    setMuted: () => {},
+    update: (delta) => {
+      if (!playing || !decoder || frameCount <= 1 || decoding) return;
+      frameTime += delta;
+      if (frameTime < frameDuration) return;
+      frameTime = 0;
+      frameIndex = (frameIndex + 1) % frameCount;
+      showFrame(frameIndex);
+    },
+    dispose: () => {
+      disposed = true;
+      decoder?.close();
+      texture.dispose();
+    },
+  };
+
+  const Decoder = (globalThis as { ImageDecoder?: ImageDecoderConstructor }).ImageDecoder;
+  const loadFirstFrame = () => {
+    const img = new Image();
+    img.onload = () => {
+      player.width = img.naturalWidth; player.height = img.naturalHeight;
+      draw(img, img.naturalWidth, img.naturalHeight);
+      onReady();
+    };
+    img.src = url;
+  };
+  if (!Decoder) {
+    loadFirstFrame();
+  } else {
+    fetch(url)
+      .then(async res => {
+        const blob = await res.blob();
+        const type = blob.type || (GIF_EXT.test(url) ? 'image/gif' : 'image/webp');
+        decoder = new Decoder({ data: await blob.arrayBuffer(), type });
+        await decoder.tracks.ready;
+        frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+        const { image } = await decoder.decode({ frameIndex: 0 });
+        player.width = image.displayWidth; player.height = image.displayHeight;
+        draw(image, image.displayWidth, image.displayHeight);
+        frameDuration = image.duration ? Math.max(MIN_FRAME_SECONDS, image.duration / 1e6) : DEFAULT_FRAME_SECONDS;
+        image.close();
+        if (!disposed) onReady();
+      })
+      .catch(() => {
+        decoder?.close();
+        decoder = null;
+        if (!disposed) loadFirstFrame();
+      });
+  }
+  return player;
+};
+
+export const createMediaPlayer = (url: string, kind: 'video' | 'animated', onReady: () => void) =>
+  (kind === 'video' ? createVideoPlayer(url, onReady) : createAnimatedPlayer(url, onReady));
@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+
+// --- 照片说明：拍立得底部白边上的手写体文字（说明 / 日期 / 作者） ---
+
+export interface PhotoMeta {
+  caption: string;
+  // YYYY-MM-DD，上传时从 EXIF 自动填入
+  date: string;
+  author: string;
+}
+
+export const EMPTY_META: PhotoMeta = { caption: '', date: '', author: '' };
+
+export const hasMeta = (meta: PhotoMeta | undefined): meta is PhotoMeta =>
+  !!meta && !!(meta.caption || meta.date || meta.author);
+
+// 从 IndexedDB / 外部数据恢复时校验
+export const sanitizeMeta = (raw: unknown): PhotoMeta => {
+  if (!raw || typeof raw !== 'object') return EMPTY_META;
+  const r = raw as Record<string, unknown>;
+  const text = (v: unknown, max: number) => (typeof v === 'string' ? v.slice(0, max) : '');
+  const date = text(r.date, 10);
+  return { caption: text(r.caption, 80), date: /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : '', author: text(r.author, 40) };
+};
+
+// 2024-12-25 → 2024.12.25
+export const formatMetaDate = (date: string) => date.replace(/-/g, '.');
+
+// 手写体：英文用 Great Vibes（index.html 已引入），中文退回系统楷体
+export const CAPTION_FONT_FAMILY = "'Great Vibes', 'Kaiti SC', STKaiti, KaiTi, cursive";
+
+const CAPTION_CANVAS_WIDTH = 512;
+const INK = '#3a3a3a';
+
+// 截断到最大宽度，超出部分以省略号结尾
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end -= 1;
+  return `${text.slice(0, end)}…`;
+};
+
+const drawCaption = (canvas: HTMLCanvasElement, meta: PhotoMeta) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  const pad = width * 0.06;
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = INK;
+  ctx.textBaseline = 'middle';
+  // 第一行：说明；第二行：日期（左）与作者（右）
+  const captionSize = Math.round(height * 0.36);
+  const smallSize = Math.round(height * 0.22);
+  const hasSecondLine = !!(meta.date || meta.author);
+  const captionY = hasSecondLine ? height * 0.38 : height * 0.5;
+  if (meta.caption) {
+    ctx.font = `${captionSize}px ${CAPTION_FONT_FAMILY}`;
+    ctx.textAlign = 'center';
+    ctx.fillText(fitText(ctx, meta.caption, width - pad * 2), width / 2, captionY);
+  }
+  if (hasSecondLine) {
+    const y = meta.caption ? height * 0.78 : height * 0.5;
+    ctx.font = `${smallSize}px ${CAPTION_FONT_FAMILY}`;
+    if (meta.date) {
+      ctx.textAlign = meta.author ? 'left' : 'center';
+      ctx.fillText(formatMetaDate(meta.date), meta.author ? pad : width / 2, y);
+    }
+    if (meta.author) {
+      ctx.textAlign = meta.date ? 'right' : 'center';
+      ctx.fillText(fitText(ctx, `— ${meta.author}`, width / 2 - pad), meta.date ? width - pad : width / 2, y);
+    }
+  }
+};
+
+// 生成白边文字纹理；aspect 为文字区域宽高比。字体异步加载完成后重绘一次
+export const createCaptionTexture = (meta: PhotoMeta, aspect: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CAPTION_CANVAS_WIDTH;
+  canvas.height = Math.max(32, Math.round(CAPTION_CANVAS_WIDTH / aspect));
+  drawCaption(canvas, meta);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.anisotropy = 4;
+  document.fonts?.load(`32px ${CAPTION_FONT_FAMILY}`).then(() => {
+    drawCaption(canvas, meta);
+    texture.needsUpdate = true;
+  }).catch(() => { /* 字体加载失败时保留系统字体 */ });
+  return texture;
+};
@@ -0,0 +1,52 @@
+// --- 照片裁剪：按图片宽高比决定拍立得照片区域的尺寸与纹理 UV 范围 ---
+
+// fit：完整显示，拍立得随图片宽高比变形；fill：方形相框居中裁剪；focal：方形相框按焦点裁剪
+export type CropMode = 'fit' | 'fill' | 'focal';
+
+export interface PhotoCrop {
+  mode: CropMode;
+  // 焦点（0–1，原点在左上角），仅 focal 模式使用
+  focusX: number;
+  focusY: number;
+}
+
+// 显示名称见 i18n 消息目录（crop.*）
+export const CROP_MODES: CropMode[] = ['fit', 'fill', 'focal'];
+
+export const DEFAULT_CROP: PhotoCrop = { mode: 'fit', focusX: 0.5, focusY: 0.5 };
+
+export const isCropMode = (value: unknown): value is CropMode =>
+  CROP_MODES.includes(value as CropMode);
+
+export interface PhotoFrame {
+  // 照片区域尺寸（较长边为 1）
+  width: number;
+  height: number;
+  // 纹理采样区域 [u0, v0, 宽, 高]（v 轴向上）
+  uv: [number, number, number, number];
+}
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const photoFrame = (aspect: number, crop: PhotoCrop = DEFAULT_CROP): PhotoFrame => {
+  const a = aspect > 0 && Number.isFinite(aspect) ? aspect : 1;
+  if (crop.mode === 'fit') {
+    return { width: a >= 1 ? 1 : a, height: a >= 1 ? 1 / a : 1, uv: [0, 0, 1, 1] };
+  }
+  // 方形裁剪：宽图裁左右，高图裁上下
+  const uw = a > 1 ? 1 / a : 1;
+  const vh = a < 1 ? a : 1;
+  const fx = crop.mode === 'focal' ? clamp01(crop.focusX) : 0.5;
+  const fy = crop.mode === 'focal' ? clamp01(crop.focusY) : 0.5;
+  const u0 = Math.min(1 - uw, Math.max(0, fx - uw / 2));
+  const v0 = Math.min(1 - vh, Math.max(0, (1 - fy) - vh / 2));
+  return { width: 1, height: 1, uv: [u0, v0, uw, vh] };
+};
+
+// 从 IndexedDB / 外部数据恢复时校验
+export const sanitizeCrop = (raw: unknown): PhotoCrop => {
+  if (!raw || typeof raw !== 'object') return DEFAULT_CROP;
+  const r = raw as Record<string, unknown>;
+  const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? clamp01(v) : 0.5);
+  return { mode: isCropMode(r.mode) ? r.mode : DEFAULT_CROP.mode, focusX: num(r.focusX), focusY: num(r.focusY) };
+};
@@ -0,0 +1,345 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { PhotoPipelineOptions, PhotoSizes, ProcessedPhoto } from './imagePipeline';
+import { processMediaFile, processPhotoFile } from './photoProcessor';
+import { isMediaKind, type MediaKind } from './mediaTextures';
+import { sanitizeCrop, type PhotoCrop } from './photoCrop';
+import { EMPTY_META, sanitizeMeta, type PhotoMeta } from './photoCaption';
+import type { LocalizedMessage } from './i18n';
+
+// --- 照片库：上传的照片持久化到 IndexedDB，刷新/标签页被回收后仍可恢复 ---
+
+const DB_NAME = 'christmas-tree';
+const DB_VERSION = 1;
+const STORE = 'photos';
+
+// IndexedDB 中保存的记录：blob 为预处理后的大图，thumb 为树上使用的缩略图
+// 早期版本保存的是原图且没有 thumb / 尺寸，加载时会补做预处理
+export interface PhotoRecord extends Partial<PhotoSizes> {
+  id: string;
+  name: string;
+  blob: Blob;
+  thumb?: Blob;
+  // 静态图 / 视频 / 动图（缺省为静态图）
+  kind?: MediaKind;
+  // 挂件裁剪方式（缺省为完整显示）
+  crop?: PhotoCrop;
+  // 说明 / 日期 / 作者
+  meta?: PhotoMeta;
+  order: number;
+  isTop: boolean;
+  createdAt: number;
+}
+
+// 运行期使用的照片条目（带 objectURL，供纹理加载与缩略图显示）
+export interface LibraryPhoto extends PhotoSizes {
+  id: string;
+  name: string;
+  // 聚焦大图
+  url: string;
+  // 树上挂件缩略图
+  thumbUrl: string;
+  kind: MediaKind;
+  isTop: boolean;
+  crop: PhotoCrop;
+  meta: PhotoMeta;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// 数据库打不开（浏览器不支持，或隐私模式下被禁用）：与写入失败区分，界面给出不同的提示
+const STORAGE_UNAVAILABLE = 'StorageUnavailable';
+const unavailableError = (message: string) => Object.assign(new Error(message), { name: STORAGE_UNAVAILABLE });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(unavailableError('IndexedDB is not available'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(unavailableError(req.error?.message ?? 'IndexedDB could not be opened'));
+  });
+  // 打开失败时允许下次重试
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T,>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// 存储错误转为消息键（随界面语言翻译）：不可用 / 空间不足 / 其他
+const storageError = (err: unknown): LocalizedMessage => {
+  const name = err instanceof Error || err instanceof DOMException ? err.name : '';
+  if (name === STORAGE_UNAVAILABLE) return { key: 'library.storageUnavailable' };
+  if (name === 'QuotaExceededError') return { key: 'library.storageFull' };
+  return { key: 'library.storageFailed', params: { detail: err instanceof Error || err instanceof DOMException ? err.message : String(err) } };
+};
+
+// 顶部照片永远排在第一位，其余按 order 升序
+const sortRecords = (records: PhotoRecord[]) => records.slice().sort((a, b) => {
+  if (a.isTop && !b.isTop) return -1;
+  if (!a.isTop && b.isTop) return 1;
+  return a.order - b.order;
+});
+
+export const readAllPhotos = async (): Promise<PhotoRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(STORE).getAll() as IDBRequest<PhotoRecord[]>);
+  return sortRecords(records);
+};
+
+const writeRecords = async (records: PhotoRecord[], replace = false) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  if (replace) store.clear();
+  records.forEach(r => store.put(r));
+  await transactionDone(tx);
+};
+
+export const putPhotoRecord = async (record: PhotoRecord) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const deletePhotoRecord = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// 逐张预处理（串行，避免同时解码多张大图占满内存）；无法解码的文件跳过
+const processFiles = async (files: File[], options: PhotoPipelineOptions) => {
+  const processed: { file: File, kind: MediaKind, photo: ProcessedPhoto }[] = [];
+  let failed = 0;
+  for (const file of files) {
+    try {
+      processed.push({ file, ...await processMediaFile(file, file.name, options) });
+    } catch {
+      failed += 1;
+    }
+  }
+  return { processed, failed };
+};
+
+const filesToRecords = (items: { file: File, kind: MediaKind, photo: ProcessedPhoto }[], startOrder: number): PhotoRecord[] => {
+  const now = Date.now();
+  return items.map(({ file, kind, photo }, i) => ({
+    id: uuidv4(),
+    name: file.name || `photo-${startOrder + i + 1}`,
+    blob: photo.large,
+    thumb: photo.thumb,
+    kind,
+    width: photo.width,
+    height: photo.height,
+    thumbWidth: photo.thumbWidth,
+    thumbHeight: photo.thumbHeight,
+    meta: { ...EMPTY_META, date: photo.date ?? '' },
+    order: startOrder + i,
+    isTop: false,
+    createdAt: now,
+  }));
+};
+
+// 按当前排列重写 order/isTop（重排、设为顶部后调用）
+const normalizeRecords = (records: PhotoRecord[], topId: string | null): PhotoRecord[] =>
+  records.map((r, i) => ({ ...r, order: i, isTop: r.id === topId }));
+
+// 早期记录缺少缩略图：用原图重新预处理，保留 id / 排序等字段
+const upgradeRecords = async (records: PhotoRecord[], options: PhotoPipelineOptions) => {
+  const upgraded: PhotoRecord[] = [];
+  for (const r of records) {
+    try {
+      const photo = await processPhotoFile(r.blob, options);
+      upgraded.push({
+        ...r, blob: photo.large, thumb: photo.thumb, width: photo.width, height: photo.height, thumbWidth: photo.thumbWidth, thumbHeight: photo.thumbHeight,
+        meta: r.meta ?? { ...EMPTY_META, date: photo.date ?? '' },
+      });
+    } catch {
+      // 解码失败的旧记录保持原样
+    }
+  }
+  return upgraded;
+};
+
+interface CachedUrls {
+  blob: Blob;
+  url: string;
+  thumbUrl: string;
+}
+
+const revokeUrls = (urls: CachedUrls) => {
+  URL.revokeObjectURL(urls.url);
+  if (urls.thumbUrl !== urls.url) URL.revokeObjectURL(urls.thumbUrl);
+};
+
+// --- Hook: usePhotoLibrary ---
+// 维护 IndexedDB 记录与 objectURL 的映射；URL 在照片移除或组件卸载时回收
+// options 为上传时的预处理尺寸（随画质档位变化，只影响之后上传的照片）
+export const usePhotoLibrary = (options: PhotoPipelineOptions) => {
+  const [records, setRecords] = useState<PhotoRecord[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  // 上一次上传中无法解析、已跳过的照片数量（提示文字由界面按语言生成）
+  const [skipped, setSkipped] = useState(0);
+  // 正在预处理的照片数量（用于界面提示）
+  const [processing, setProcessing] = useState(0);
+  const urlCache = useRef(new Map<string, CachedUrls>());
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // 预处理是异步的，完成时需要基于最新的记录追加
+  const recordsRef = useRef(records);
+  recordsRef.current = records;
+
+  useEffect(() => {
+    let cancelled = false;
+    readAllPhotos()
+      .then(async r => {
+        if (cancelled) return;
+        setRecords(r);
+        setLoaded(true);
+        const stale = r.filter(rec => !rec.thumb);
+        if (stale.length === 0) return;
+        // 与上传共用计数，只增减自己的部分
+        setProcessing(n => n + stale.length);
+        const upgraded = await upgradeRecords(stale, optionsRef.current)
+          .finally(() => setProcessing(n => n - stale.length));
+        if (cancelled) return;
+        // 升级期间可能已删除或清空照片：只写回仍在图库中的记录，避免删掉的照片重新出现；
+        // 期间的排序、置顶、裁剪与说明以当前记录为准，只换上新的图像数据
+        const current = new Map(recordsRef.current.map(rec => [rec.id, rec]));
+        const kept = upgraded.flatMap(({ id, blob, thumb, width, height, thumbWidth, thumbHeight, meta }) => {
+          const cur = current.get(id);
+          return cur ? [{ ...cur, blob, thumb, width, height, thumbWidth, thumbHeight, meta: cur.meta ?? meta }] : [];
+        });
+        const byId = new Map(kept.map(rec => [rec.id, rec]));
+        setRecords(prev => prev.map(rec => byId.get(rec.id) ?? rec));
+        await Promise.all(kept.map(putPhotoRecord));
+      })
+      .catch(err => { if (!cancelled) setError(storageError(err)); })
+      .finally(() => { if (!cancelled) setLoaded(true); });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    const cache = urlCache.current;
+    return () => {
+      cache.forEach(revokeUrls);
+      cache.clear();
+    };
+  }, []);
+
+  const photos: LibraryPhoto[] = useMemo(() => records.map(r => {
+    let urls = urlCache.current.get(r.id);
+    // 记录被重新预处理后 Blob 会变化，需要换新的 URL
+    if (!urls || urls.blob !== r.blob) {
+      if (urls) revokeUrls(urls);
+      const url = URL.createObjectURL(r.blob);
+      urls = { blob: r.blob, url, thumbUrl: r.thumb ? URL.createObjectURL(r.thumb) : url };
+      urlCache.current.set(r.id, urls);
+    }
+    return {
+      id: r.id, name: r.name, url: urls.url, thumbUrl: urls.thumbUrl, kind: isMediaKind(r.kind) ? r.kind : 'image', isTop: r.isTop, crop: sanitizeCrop(r.crop), meta: sanitizeMeta(r.meta),
+      width: r.width ?? 0, height: r.height ?? 0, thumbWidth: r.thumbWidth ?? 0, thumbHeight: r.thumbHeight ?? 0,
+    };
+  }), [records]);
+
+  // 写入成功后清除之前的错误提示（例如腾出空间后重试成功）
+  const clearError = useCallback(() => setError(null), []);
+  const reportError = useCallback((err: unknown) => setError(storageError(err)), []);
+
+  // 先更新内存状态保证 UI 立即响应，再异步写入 IndexedDB
+  const commit = useCallback((next: PhotoRecord[], replace = false) => {
+    const keep = new Set(next.map(r => r.id));
+    urlCache.current.forEach((urls, id) => {
+      if (!keep.has(id)) { revokeUrls(urls); urlCache.current.delete(id); }
+    });
+    setRecords(next);
+    writeRecords(next, replace).then(clearError, reportError);
+  }, [clearError, reportError]);
+
+  // 预处理上传文件；返回可写入的记录（部分失败时给出提示）
+  const ingest = useCallback(async (files: File[], startOrder: number) => {
+    setProcessing(n => n + files.length);
+    try {
+      const { processed, failed } = await processFiles(files, optionsRef.current);
+      setSkipped(failed);
+      return filesToRecords(processed, startOrder);
+    } finally {
+      setProcessing(n => Math.max(0, n - files.length));
+    }
+  }, []);
+
+  const addPhotos = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    const added = await ingest(files, recordsRef.current.length);
+    if (added.length > 0) commit([...recordsRef.current, ...added]);
+  }, [ingest, commit]);
+
+  const replacePhotos = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    const next = await ingest(files, 0);
+    if (next.length > 0) commit(next, true);
+  }, [ingest, commit]);
+
+  const removePhoto = useCallback((id: string) => {
+    const urls = urlCache.current.get(id);
+    if (urls) { revokeUrls(urls); urlCache.current.delete(id); }
+    setRecords(prev => normalizeRecords(prev.filter(r => r.id !== id), prev.find(r => r.isTop && r.id !== id)?.id ?? null));
+    deletePhotoRecord(id).then(clearError, reportError);
+  }, [clearError, reportError]);
+
+  const movePhoto = useCallback((id: string, offset: number) => {
+    const idx = records.findIndex(r => r.id === id);
+    const target = idx + offset;
+    if (idx < 0 || target < 0 || target >= records.length) return;
+    const next = records.slice();
+    const [item] = next.splice(idx, 1);
+    next.splice(target, 0, item);
+    const topId = next.find(r => r.isTop)?.id ?? null;
+    // 顶部照片固定在第一位，移动后仍需保持该约束
+    commit(sortRecords(normalizeRecords(next, topId)));
+  }, [records, commit]);
+
+  const setTopPhoto = useCallback((id: string | null) => {
+    commit(sortRecords(normalizeRecords(records, id)));
+  }, [records, commit]);
+
+  // 裁剪 / 焦点 / 说明只改动一条记录：只写回这一条，不重写其余照片的 Blob
+  const updatePhoto = useCallback((id: string, patch: Partial<PhotoRecord>) => {
+    const current = recordsRef.current.find(r => r.id === id);
+    if (!current) return;
+    const updated = { ...current, ...patch };
+    setRecords(prev => prev.map(r => (r.id === id ? updated : r)));
+    putPhotoRecord(updated).then(clearError, reportError);
+  }, [clearError, reportError]);
+
+  const setPhotoCrop = useCallback((id: string, crop: PhotoCrop) => updatePhoto(id, { crop }), [updatePhoto]);
+
+  const setPhotoMeta = useCallback((id: string, meta: PhotoMeta) => updatePhoto(id, { meta }), [updatePhoto]);
+
+  const clearPhotos = useCallback(() => commit([], true), [commit]);
+
+  return { photos, loaded, error, skipped, processing, addPhotos, replacePhotos, removePhoto, movePhoto, setTopPhoto, setPhotoCrop, setPhotoMeta, clearPhotos };
+};
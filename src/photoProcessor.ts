@@ -0,0 +1,95 @@
+import { encodeFrame, processPhoto, type PhotoPipelineOptions, type ProcessedPhoto } from './imagePipeline';
+import { detectMediaKind, type MediaKind } from './mediaTextures';
+
+// --- 照片处理调度：优先交给 Web Worker，不支持 OffscreenCanvas 或 Worker 加载失败时退回主线程 ---
+// 视频需要 <video> 元素解码，只能在主线程截取封面
+
+type WorkerReply = { id: number, photo?: ProcessedPhoto, error?: string };
+
+let worker: Worker | null = null;
+let workerBroken = false;
+let nextId = 0;
+const pending = new Map<number, { resolve: (photo: ProcessedPhoto) => void, reject: (err: Error) => void }>();
+
+const canUseWorker = () => !workerBroken
+  && typeof Worker !== 'undefined'
+  && typeof OffscreenCanvas !== 'undefined'
+  && 'convertToBlob' in OffscreenCanvas.prototype;
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+    const job = pending.get(e.data.id);
+    if (!job) return;
+    pending.delete(e.data.id);
+    if (e.data.photo) job.resolve(e.data.photo);
+    else job.reject(new Error(e.data.error || 'Photo processing failed'));
+  };
+  // Worker 本身不可用：标记后所有任务改在主线程处理
+  worker.onerror = () => {
+    workerBroken = true;
+    worker?.terminate();
+    worker = null;
+    pending.forEach(job => job.reject(new Error('Photo worker failed')));
+    pending.clear();
+  };
+  return worker;
+};
+
+const runInWorker = (blob: Blob, options: PhotoPipelineOptions) => new Promise<ProcessedPhoto>((resolve, reject) => {
+  const id = ++nextId;
+  pending.set(id, { resolve, reject });
+  getWorker().postMessage({ id, blob, options });
+});
+
+export const processPhotoFile = async (blob: Blob, options: PhotoPipelineOptions): Promise<ProcessedPhoto> => {
+  if (canUseWorker()) {
+    try {
+      return await runInWorker(blob, options);
+    } catch (err) {
+      // 单张图片解码失败直接上报；只有 Worker 崩溃时才重试
+      if (!workerBroken) throw err;
+    }
+  }
+  return processPhoto(blob, options);
+};
+
+// 视频封面：跳过开头可能的黑帧，截取一帧作为树上缩略图
+const VIDEO_POSTER_SECONDS = 0.5;
+
+const waitForEvent = (target: HTMLVideoElement, event: string) => new Promise<void>((resolve, reject) => {
+  target.addEventListener(event, () => resolve(), { once: true });
+  target.addEventListener('error', () => reject(new Error('Video cannot be decoded')), { once: true });
+});
+
+const processVideo = async (blob: Blob, options: PhotoPipelineOptions): Promise<ProcessedPhoto> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    const seeked = waitForEvent(video, 'seeked');
+    video.currentTime = Math.min(VIDEO_POSTER_SECONDS, (video.duration || 0) / 2);
+    await seeked;
+    const thumb = await encodeFrame(video, video.videoWidth, video.videoHeight, options.thumbEdge);
+    // 视频本体不转码，原样保存
+    return { large: blob, width: video.videoWidth, height: video.videoHeight, thumb: thumb.blob, thumbWidth: thumb.width, thumbHeight: thumb.height };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+// 按文件类型分派：静态图压缩；动图只生成第一帧缩略图、保留原文件；视频截取封面
+export const processMediaFile = async (file: Blob, name: string, options: PhotoPipelineOptions): Promise<{ kind: MediaKind, photo: ProcessedPhoto }> => {
+  const kind = await detectMediaKind(file, name);
+  if (kind === 'video') return { kind, photo: await processVideo(file, options) };
+  const photo = await processPhotoFile(file, options);
+  return { kind, photo: kind === 'animated' ? { ...photo, large: file } : photo };
+};
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+
+// --- 照片纹理：逐张加载（限制并发），照片陆续出现在树上；单张损坏只影响自己的挂件 ---
+
+export type TextureStatus = 'loading' | 'loaded' | 'error';
+
+interface TextureEntry {
+  status: TextureStatus;
+  texture: THREE.Texture | null;
+}
+
+export interface TextureProgress {
+  total: number;
+  loaded: number;
+  failed: number;
+}
+
+export interface PhotoTextures {
+  // 与传入的 urls 一一对应；未加载完成或失败时为 null
+  textures: (THREE.Texture | null)[];
+  // null 表示该位置不需要加载（视频 / 动图由播放器提供纹理）
+  statuses: (TextureStatus | null)[];
+  progress: TextureProgress;
+  retry: (url: string) => void;
+}
+
+// 同时解码的张数：太多会让主线程在解码时卡顿
+const MAX_CONCURRENT = 4;
+// 加载结果攒一批再刷新界面，避免每张照片都重建一次相框几何体
+const FLUSH_MS = 200;
+
+const loader = new THREE.TextureLoader();
+
+// urls 变化时只加载新增的照片；移出列表的纹理立即释放
+export const usePhotoTextures = (urls: (string | null)[]): PhotoTextures => {
+  const cache = useRef(new Map<string, TextureEntry>());
+  const queue = useRef<string[]>([]);
+  const active = useRef(0);
+  const flushTimer = useRef<number | null>(null);
+  // 界面读取的快照（cache 中的条目会被加载回调原地修改）
+  const [snapshot, setSnapshot] = useState<ReadonlyMap<string, TextureEntry>>(() => new Map());
+  const publish = useCallback(() => {
+    setSnapshot(new Map(Array.from(cache.current, ([url, entry]) => [url, { ...entry }])));
+  }, []);
+
+  const scheduleFlush = useCallback(() => {
+    if (flushTimer.current !== null) return;
+    flushTimer.current = window.setTimeout(() => {
+      flushTimer.current = null;
+      publish();
+    }, FLUSH_MS);
+  }, [publish]);
+
+  const pump = useCallback(() => {
+    while (active.current < MAX_CONCURRENT && queue.current.length > 0) {
+      const url = queue.current.shift()!;
+      const entry = cache.current.get(url);
+      if (!entry || entry.status !== 'loading') continue;
+      active.current++;
+      const settle = (texture: THREE.Texture | null) => {
+        active.current--;
+        // 加载期间已移出列表（或已卸载）：直接丢弃
+        if (cache.current.get(url) !== entry) texture?.dispose();
+        else {
+          entry.status = texture ? 'loaded' : 'error';
+          entry.texture = texture;
+          scheduleFlush();
+        }
+        pump();
+      };
+      loader.load(url, (texture) => {
+        texture.colorSpace = THREE.SRGBColorSpace;
+        settle(texture);
+      }, undefined, () => settle(null));
+    }
+  }, [scheduleFlush]);
+
+  useEffect(() => {
+    const wanted = new Set(urls.filter((url): url is string => url !== null));
+    cache.current.forEach((entry, url) => {
+      if (wanted.has(url)) return;
+      entry.texture?.dispose();
+      cache.current.delete(url);
+    });
+    queue.current = queue.current.filter(url => wanted.has(url));
+    wanted.forEach(url => {
+      if (cache.current.has(url)) return;
+      cache.current.set(url, { status: 'loading', texture: null });
+      queue.current.push(url);
+    });
+    pump();
+    publish();
+  }, [urls, pump, publish]);
+
+  // 卸载时释放全部纹理（StrictMode 下重新挂载会重新加载）
+  useEffect(() => {
+    const entries = cache.current;
+    return () => {
+      entries.forEach(entry => entry.texture?.dispose());
+      entries.clear();
+      queue.current = [];
+      if (flushTimer.current !== null) window.clearTimeout(flushTimer.current);
+      flushTimer.current = null;
+    };
+  }, []);
+
+  const retry = useCallback((url: string) => {
+    const entry = cache.current.get(url);
+    if (!entry || entry.status !== 'error') return;
+    // 换一个新对象：旧的加载回调（如果还有）不会写回
+    cache.current.set(url, { status: 'loading', texture: null });
+    queue.current.push(url);
+    pump();
+    publish();
+  }, [pump, publish]);
+
+  return useMemo(() => {
+    const entries = urls.map(url => (url === null ? null : snapshot.get(url) ?? null));
+    const statuses = entries.map(entry => entry?.status ?? null);
+    return {
+      textures: entries.map(entry => entry?.texture ?? null),
+      statuses,
+      progress: {
+        total: statuses.filter(s => s !== null).length,
+        loaded: statuses.filter(s => s === 'loaded').length,
+        failed: statuses.filter(s => s === 'error').length,
+      },
+      retry,
+    };
+  }, [urls, snapshot, retry]);
+};
+
+// 加载失败的照片在挂件上显示的占位图：深灰底 + 断开的图片标记
+let errorTexture: THREE.Texture | null = null;
+export const getErrorTexture = () => {
+  if (errorTexture) return errorTexture;
+  const canvas = document.createElement('canvas');
+  canvas.width = 256; canvas.height = 256;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = '#3A3A3A';
+    ctx.fillRect(0, 0, 256, 256);
+    ctx.strokeStyle = '#9E9E9E';
+    ctx.lineWidth = 10;
+    ctx.strokeRect(48, 64, 160, 128);
+    ctx.beginPath();
+    ctx.moveTo(60, 180); ctx.lineTo(110, 120); ctx.lineTo(140, 150); ctx.lineTo(165, 125); ctx.lineTo(196, 160);
+    ctx.stroke();
+    ctx.strokeStyle = '#FF7043';
+    ctx.lineWidth = 14;
+    ctx.beginPath();
+    ctx.moveTo(40, 216); ctx.lineTo(216, 40);
+    ctx.stroke();
+  }
+  errorTexture = new THREE.CanvasTexture(canvas);
+  errorTexture.colorSpace = THREE.SRGBColorSpace;
+  return errorTexture;
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// --- 离线安装：注册 Service Worker（见 sw.ts），新版本下载完成后提示刷新 ---
+// 仅在生产构建中注册：开发服务器没有 sw.js，也不应缓存正在修改的文件
+
+// 已打开的页面每小时检查一次新版本
+const UPDATE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface ServiceWorkerStatus {
+  // 新版本已下载，等待用户确认刷新
+  updateReady: boolean;
+  // 首次安装完成，之后断网也能打开
+  offlineReady: boolean;
+  applyUpdate: () => void;
+  dismiss: () => void;
+}
+
+export const useServiceWorker = (): ServiceWorkerStatus => {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const [offlineReady, setOfflineReady] = useState(false);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    const container = navigator.serviceWorker;
+    // 注册前已有控制页面的 worker：之后出现的新 worker 是更新而不是首次安装
+    const hadController = !!container.controller;
+    let registration: ServiceWorkerRegistration | null = null;
+    let disposed = false;
+
+    const track = (worker: ServiceWorker | null) => {
+      if (!worker) return;
+      const check = () => {
+        if (disposed || worker.state !== 'installed') return;
+        if (container.controller) setWaiting(worker);
+        else setOfflineReady(true);
+      };
+      worker.addEventListener('statechange', check);
+      check();
+    };
+    const handleUpdateFound = () => track(registration?.installing ?? null);
+    // 新 worker 接管后重新加载，让页面使用新版本的脚本
+    const handleControllerChange = () => {
+      if (hadController) window.location.reload();
+    };
+
+    container.addEventListener('controllerchange', handleControllerChange);
+    container.register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL }).then((reg) => {
+      if (disposed) return;
+      registration = reg;
+      track(reg.waiting);
+      track(reg.installing);
+      reg.addEventListener('updatefound', handleUpdateFound);
+    }).catch(() => { /* 不支持或被禁用（如隐私模式）：照常在线使用 */ });
+    const timer = window.setInterval(() => {
+      registration?.update().catch(() => { /* 离线：下次再查 */ });
+    }, UPDATE_INTERVAL_MS);
+
+    return () => {
+      disposed = true;
+      window.clearInterval(timer);
+      container.removeEventListener('controllerchange', handleControllerChange);
+      registration?.removeEventListener('updatefound', handleUpdateFound);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    waiting?.postMessage({ type: 'SKIP_WAITING' });
+  }, [waiting]);
+
+  const dismiss = useCallback(() => {
+    setWaiting(null);
+    setOfflineReady(false);
+  }, []);
+
+  return { updateReady: waiting !== null, offlineReady, applyUpdate, dismiss };
+};
@@ -0,0 +1,137 @@
+// --- 画质档位与自适应调节：按实测帧时间升降档，取代 UA 判断 ---
+
+export type QualityTierId = 'low' | 'medium' | 'high' | 'ultra';
+
+export interface QualityTier {
+  // 显示名称见 i18n 消息目录（quality.*）
+  id: QualityTierId;
+  // 各类元素数量上限（参数面板的值超过上限时按上限渲染）
+  foliage: number;
+  ornaments: number;
+  elements: number;
+  lights: number;
+  // 渲染分辨率上限（实际取 min(dpr, devicePixelRatio)）
+  dpr: number;
+  bloom: boolean;
+  environment: boolean;
+  sparkles: number;
+  stars: number;
+  pointScale: number;
+  // 照片纹理是否生成 mipmap（低档省显存）
+  mipmaps: boolean;
+  // 上传照片预处理尺寸（最长边 px）：树上缩略图 / 照片墙聚焦大图
+  thumbEdge: number;
+  largeEdge: number;
+  // 照片纹理显存预算（MB），超出时树上只使用预算内的照片
+  textureBudgetMB: number;
+  // 雪花数量上限；地面积雪与树叶积雪不受档位影响（开销很小）
+  snow: number;
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+  { id: 'low', foliage: 3000, ornaments: 40, elements: 60, lights: 80, dpr: 1, bloom: false, environment: false, sparkles: 100, stars: 1000, pointScale: 36, mipmaps: false, thumbEdge: 256, largeEdge: 1024, textureBudgetMB: 48, snow: 600 },
+  { id: 'medium', foliage: 8000, ornaments: 160, elements: 120, lights: 180, dpr: 1.5, bloom: false, environment: false, sparkles: 200, stars: 2000, pointScale: 36, mipmaps: false, thumbEdge: 384, largeEdge: 1600, textureBudgetMB: 96, snow: 2000 },
+  { id: 'high', foliage: 30000, ornaments: 600, elements: 600, lights: 800, dpr: 2, bloom: true, environment: true, sparkles: 600, stars: 5000, pointScale: 60, mipmaps: true, thumbEdge: 512, largeEdge: 2048, textureBudgetMB: 256, snow: 8000 },
+  { id: 'ultra', foliage: 80000, ornaments: 2000, elements: 2000, lights: 2000, dpr: 2, bloom: true, environment: true, sparkles: 600, stars: 5000, pointScale: 60, mipmaps: true, thumbEdge: 1024, largeEdge: 4096, textureBudgetMB: 512, snow: 20000 },
+];
+
+export type QualityMode = 'auto' | QualityTierId;
+
+export const tierIndex = (id: QualityTierId) => QUALITY_TIERS.findIndex(t => t.id === id);
+
+// 初始档位：按设备能力估计（触屏 / 少核 / 小内存从“均衡”起步），之后由实测帧率接管
+export const guessInitialTier = (): QualityTierId => {
+  const nav = navigator as Navigator & { deviceMemory?: number };
+  const coarse = typeof window.matchMedia === 'function' && window.matchMedia('(pointer: coarse)').matches;
+  const cores = nav.hardwareConcurrency || 4;
+  const memory = nav.deviceMemory ?? 8;
+  if (coarse || cores < 4 || memory < 4) return 'medium';
+  return 'high';
+};
+
+// 降档 / 升档阈值（帧率）与持续窗口数构成迟滞，避免来回抖动
+const WINDOW_SECONDS = 1;
+const DOWNGRADE_FPS = 40;
+const UPGRADE_FPS = 57;
+const DOWNGRADE_WINDOWS = 2;
+const UPGRADE_WINDOWS = 5;
+// 切档后重建几何体会产生卡顿，冷却期内不采样
+const COOLDOWN_SECONDS = 3;
+// 刚降过档时暂停升档，防止在两档之间反复
+const UPGRADE_BLOCK_SECONDS = 20;
+
+export interface QualityGovernor {
+  // 每帧调用；返回本窗口的平均帧率（窗口未结束时为 null）。adjust 为 false 时只测帧率不切档（手动锁定）
+  sample: (deltaSeconds: number, adjust?: boolean) => number | null;
+  setTier: (index: number) => void;
+}
+
+export const createQualityGovernor = (initialTier: number, onChange: (index: number) => void): QualityGovernor => {
+  let tier = initialTier;
+  let clock = 0;
+  let windowTime = 0; let windowFrames = 0;
+  let slowWindows = 0; let fastWindows = 0;
+  let cooldownUntil = COOLDOWN_SECONDS;
+  let upgradeBlockedUntil = 0;
+
+  const change = (next: number) => {
+    tier = next;
+    slowWindows = 0; fastWindows = 0;
+    cooldownUntil = clock + COOLDOWN_SECONDS;
+    onChange(next);
+  };
+
+  return {
+    sample: (delta, adjust = true) => {
+      // 标签页切到后台后的超长帧不计入
+      if (delta <= 0 || delta > 0.5) return null;
+      clock += delta;
+      windowTime += delta; windowFrames += 1;
+      if (windowTime < WINDOW_SECONDS) return null;
+      const fps = windowFrames / windowTime;
+      windowTime = 0; windowFrames = 0;
+      if (!adjust || clock < cooldownUntil) return fps;
+
+      if (fps < DOWNGRADE_FPS) { slowWindows += 1; fastWindows = 0; }
+      else if (fps > UPGRADE_FPS) { fastWindows += 1; slowWindows = 0; }
+      else { slowWindows = 0; fastWindows = 0; }
+
+      if (slowWindows >= DOWNGRADE_WINDOWS && tier > 0) {
+        upgradeBlockedUntil = clock + UPGRADE_BLOCK_SECONDS;
+        change(tier - 1);
+      } else if (fastWindows >= UPGRADE_WINDOWS && tier < QUALITY_TIERS.length - 1 && clock >= upgradeBlockedUntil) {
+        change(tier + 1);
+      }
+      return fps;
+    },
+    setTier: (index) => {
+      tier = index;
+      slowWindows = 0; fastWindows = 0;
+      cooldownUntil = clock + COOLDOWN_SECONDS;
+    },
+  };
+};
+
+// --- 帧率读数：只有统计面板显示它，以订阅方式通知，避免每秒重新渲染整个应用 ---
+export interface FpsMeter {
+  report: (fps: number) => void;
+  subscribe: (listener: () => void) => () => void;
+  // 尚未测得时为 null
+  get: () => number | null;
+}
+
+export const createFpsMeter = (): FpsMeter => {
+  let fps: number | null = null;
+  const listeners = new Set<() => void>();
+  return {
+    report: (value) => {
+      fps = value;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    get: () => fps,
+  };
+};
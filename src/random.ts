@@ -0,0 +1,55 @@
+// --- 可复现随机数：同一 seed + 同一数量 → 完全相同的布局 ---
+
+export type Rng = () => number;
+
+// 各组件使用独立的随机序列，修改某一类数量不会打乱其他组件
+export const SEED_SALT = {
+  foliage: 1,
+  ornaments: 2,
+  elements: 3,
+  lights: 4,
+  garlands: 5,
+  lightStrings: 6,
+} as const;
+
+export const MAX_SEED = 0xffffffff;
+
+// mulberry32：32 位状态，速度快，分布足够用于视觉布局
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// 将多个整数混合成一个新 seed（用于按组件、按元素序号派生独立序列）
+export const mixSeed = (...parts: number[]) => {
+  let h = 0x9e3779b9;
+  for (const p of parts) {
+    h = Math.imul(h ^ (p >>> 0), 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+  }
+  return h >>> 0;
+};
+
+// 第 index 个元素的随机序列：数量增减时已有元素保持原样
+export const itemRng = (seed: number, salt: number, index: number) => createRng(mixSeed(seed, salt, index));
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED) >>> 0;
+
+export const pick = <T,>(rng: Rng, list: readonly T[]) => list[Math.floor(rng() * list.length)];
+
+// 球体内均匀分布的点
+export const inSphere = (rng: Rng, radius: number): [number, number, number] => {
+  const theta = rng() * Math.PI * 2;
+  const phi = Math.acos(2 * rng() - 1);
+  const r = radius * Math.cbrt(rng());
+  const sinPhi = Math.sin(phi);
+  return [r * sinPhi * Math.cos(theta), r * sinPhi * Math.sin(theta), r * Math.cos(phi)];
+};
@@ -0,0 +1,211 @@
+import type { SceneCounts, SceneState } from './types';
+import { MAX_SEED } from './random';
+import { type TreeShapeId, isTreeShapeId } from './treeShapes';
+import { isGalleryLayoutId } from './galleryLayouts';
+import { type Timeline, sanitizeTimeline } from './timeline';
+import { type DecorLayout, sanitizeDecorLayout } from './decorations';
+import { MULTI_COLOR, isGarlandStyle, isHexColor } from './garlands';
+import { type Theme, sanitizeTheme, themeToData } from './themes';
+import { type AdventSettings, sanitizeAdvent } from './advent';
+import { pendingHref, scheduleLocationUpdate } from './locationSync';
+
+// --- 场景分享链接：参数序列化到 URL，启动时解析 ---
+// 格式：#scene=<base64url(JSON)>，也兼容 ?scene=<...>；JSON 带版本号 v 便于后续扩展
+
+export const SCENE_VERSION = 1;
+const PARAM = 'scene';
+
+// 可分享的场景内容（不含版本号）
+export interface SceneSettings {
+  state: SceneState;
+  counts: SceneCounts;
+  // 布局随机种子：相同 seed + 相同数量 → 相同的树
+  seed: number;
+  shape: TreeShapeId;
+  // 贺卡时间线：存在时打开链接即自动播放
+  timeline?: Timeline;
+  // 装饰模式的手动布局：只随导出的 JSON 保存，不写入链接（元素多时链接过长）
+  decor?: DecorLayout;
+  // 配色主题：预设只记录 id，自定义主题记录全部颜色
+  theme?: Theme;
+  // 降临节日历：存在即开启，照片按日期解锁（作者的预览日期不写入）
+  advent?: AdventSettings;
+}
+
+export interface SceneDescriptor extends SceneSettings {
+  v: number;
+}
+
+// 与参数面板输入框的取值范围保持一致（面板与链接解析共用）
+export const COUNT_LIMITS = {
+  foliage: { min: 1000, max: 80000 },
+  ornaments: { min: 1, max: 2000 },
+  elements: { min: 0, max: 2000 },
+  lights: { min: 0, max: 2000 },
+  cameraDistance: { min: 25, max: 120 },
+  galleryPhotos: { min: 3, max: 100 },
+  galleryScale: { min: 0.5, max: 2.5 },
+  galleryRadius: { min: 8, max: 30 },
+  galleryMoveSpeed: { min: 0.2, max: 20 },
+  galleryInterval: { min: 1, max: 60 },
+  snowDensity: { min: 0, max: 20000 },
+  snowSize: { min: 0.3, max: 3 },
+  snowWind: { min: 0, max: 10 },
+  snowDirection: { min: 0, max: 360 },
+  garlandCount: { min: 0, max: 6 },
+  garlandTurns: { min: 1, max: 12 },
+  lightStringCount: { min: 0, max: 8 },
+  lightStringTurns: { min: 1, max: 12 },
+} as const;
+
+export type CountLimitKey = keyof typeof COUNT_LIMITS;
+
+export const clampCount = (key: CountLimitKey, value: number) => {
+  const { min, max } = COUNT_LIMITS[key];
+  return Math.max(min, Math.min(max, value));
+};
+
+// 链接中的值不可信：非数字回退默认值，越界值按面板范围截断
+const readNumber = (key: CountLimitKey, value: unknown, fallback: number) => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? clampCount(key, n) : fallback;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const sanitizeCounts = (raw: unknown, defaults: SceneCounts): SceneCounts => {
+  const c = isRecord(raw) ? raw : {};
+  const gallery = isRecord(c.gallery) ? c.gallery : {};
+  const camera = isRecord(c.camera) ? c.camera : {};
+  const snow = isRecord(c.snow) ? c.snow : {};
+  const garland = isRecord(c.garland) ? c.garland : {};
+  const lightStrings = isRecord(c.lightStrings) ? c.lightStrings : {};
+  return {
+    foliage: Math.round(readNumber('foliage', c.foliage, defaults.foliage)),
+    ornaments: Math.round(readNumber('ornaments', c.ornaments, defaults.ornaments)),
+    elements: Math.round(readNumber('elements', c.elements, defaults.elements)),
+    lights: Math.round(readNumber('lights', c.lights, defaults.lights)),
+    gallery: {
+      photos: Math.round(readNumber('galleryPhotos', gallery.photos, defaults.gallery.photos)),
+      scale: readNumber('galleryScale', gallery.scale, defaults.gallery.scale),
+      radius: readNumber('galleryRadius', gallery.radius, defaults.gallery.radius),
+      moveSpeed: readNumber('galleryMoveSpeed', gallery.moveSpeed, defaults.gallery.moveSpeed),
+      interval: readNumber('galleryInterval', gallery.interval, defaults.gallery.interval),
+      layout: isGalleryLayoutId(gallery.layout) ? gallery.layout : defaults.gallery.layout,
+    },
+    camera: { distance: readNumber('cameraDistance', camera.distance, defaults.camera.distance) },
+    hd: typeof c.hd === 'boolean' ? c.hd : defaults.hd,
+    snow: {
+      density: Math.round(readNumber('snowDensity', snow.density, defaults.snow.density)),
+      size: readNumber('snowSize', snow.size, defaults.snow.size),
+      wind: readNumber('snowWind', snow.wind, defaults.snow.wind),
+      direction: readNumber('snowDirection', snow.direction, defaults.snow.direction),
+    },
+    garland: {
+      count: Math.round(readNumber('garlandCount', garland.count, defaults.garland.count)),
+      style: isGarlandStyle(garland.style) ? garland.style : defaults.garland.style,
+      color: isHexColor(garland.color) ? garland.color : defaults.garland.color,
+      turns: readNumber('garlandTurns', garland.turns, defaults.garland.turns),
+    },
+    lightStrings: {
+      count: Math.round(readNumber('lightStringCount', lightStrings.count, defaults.lightStrings.count)),
+      turns: readNumber('lightStringTurns', lightStrings.turns, defaults.lightStrings.turns),
+      color: lightStrings.color === MULTI_COLOR || isHexColor(lightStrings.color) ? lightStrings.color : defaults.lightStrings.color,
+    },
+  };
+};
+
+export const sanitizeSeed = (raw: unknown, fallback: number) => {
+  const n = typeof raw === 'string' ? Number(raw) : raw;
+  return typeof n === 'number' && Number.isInteger(n) && n >= 0 && n <= MAX_SEED ? n : fallback;
+};
+
+export const SCENE_STATES: SceneState[] = ['CHAOS', 'FORMED', 'GALLERY'];
+
+// 解析任意来源（链接 / 导入的 JSON）的场景描述；无法识别时返回 null
+export const sanitizeScene = (raw: unknown, defaults: SceneSettings): SceneDescriptor | null => {
+  if (!isRecord(raw)) return null;
+  const v = typeof raw.v === 'number' ? raw.v : 0;
+  if (v < 1 || v > SCENE_VERSION) return null;
+  const state = SCENE_STATES.includes(raw.state as SceneState) ? raw.state as SceneState : defaults.state;
+  return {
+    v: SCENE_VERSION,
+    state,
+    counts: sanitizeCounts(raw.counts, defaults.counts),
+    seed: sanitizeSeed(raw.seed, defaults.seed),
+    shape: isTreeShapeId(raw.shape) ? raw.shape : defaults.shape,
+    timeline: sanitizeTimeline(raw.timeline) ?? undefined,
+    decor: sanitizeDecorLayout(raw.decor) ?? undefined,
+    theme: sanitizeTheme(raw.theme) ?? undefined,
+    advent: sanitizeAdvent(raw.advent) ?? undefined,
+  };
+};
+
+// base64url 编码（先转 UTF-8，兼容后续的中文文案等字段）
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let bin = '';
+  bytes.forEach(b => { bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const b64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(bin, ch => ch.charCodeAt(0)));
+};
+
+const serializeScene = (scene: SceneSettings) =>
+  ({ v: SCENE_VERSION, ...scene, theme: scene.theme && themeToData(scene.theme) });
+
+export const encodeScene = (scene: SceneSettings) =>
+  toBase64Url(JSON.stringify(serializeScene(scene)));
+
+export const decodeScene = (encoded: string, defaults: SceneSettings): SceneDescriptor | null => {
+  try {
+    return sanitizeScene(JSON.parse(fromBase64Url(encoded)), defaults);
+  } catch {
+    return null;
+  }
+};
+
+// 优先读取 hash，其次 query string
+export const readSceneParam = (loc: Location = window.location) => {
+  const hashParams = new URLSearchParams(loc.hash.replace(/^#/, ''));
+  return hashParams.get(PARAM) ?? new URLSearchParams(loc.search).get(PARAM);
+};
+
+export const readSceneFromLocation = (defaults: SceneSettings, loc: Location = window.location) => {
+  const encoded = readSceneParam(loc);
+  return encoded ? decodeScene(encoded, defaults) : null;
+};
+
+const setSceneParam = (url: URL, scene: SceneSettings) => {
+  url.searchParams.delete(PARAM);
+  const hashParams = new URLSearchParams(url.hash.replace(/^#/, ''));
+  hashParams.set(PARAM, encodeScene(scene));
+  url.hash = hashParams.toString();
+};
+
+export const buildShareUrl = (scene: SceneSettings, href: string = pendingHref()) => {
+  const url = new URL(href);
+  setSceneParam(url, scene);
+  return url.toString();
+};
+
+// 同步当前场景到地址栏（不产生历史记录，合并连续修改），刷新后可恢复
+export const writeSceneToLocation = (scene: SceneSettings) => {
+  scheduleLocationUpdate('scene', url => setSceneParam(url, scene));
+};
+
+export const sceneToJson = (scene: SceneSettings) =>
+  JSON.stringify(serializeScene(scene), null, 2);
+
+export const sceneFromJson = (text: string, defaults: SceneSettings): SceneDescriptor | null => {
+  try {
+    return sanitizeScene(JSON.parse(text), defaults);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,103 @@
+// --- Service Worker：预缓存构建产物、字体与环境贴图，断网时照常打开；新版本等待用户确认后再接管 ---
+// 构建时 vite.config.ts 的 precacheManifest 插件把占位符替换为实际的文件清单与版本号（开发模式不注册）
+
+declare const self: ServiceWorkerGlobalScope;
+
+interface PrecacheManifest {
+  // 构建产物的内容摘要：变化即为新版本
+  version: string;
+  // 相对部署目录的路径（打包后的脚本、样式、内置照片与音乐、public 中的文件）
+  assets: string[];
+  // 外部资源：Google Fonts 样式表（其中的字体文件安装时一并缓存）与 Environment “night” 预设的 HDR
+  external: string[];
+}
+
+const MANIFEST: PrecacheManifest = JSON.parse('__PRECACHE_MANIFEST__');
+
+const CACHE_PREFIX = 'christmas-tree-';
+const PRECACHE = `${CACHE_PREFIX}precache-${MANIFEST.version}`;
+// 外部资源与运行中补充缓存的文件：跨版本保留
+const RUNTIME = `${CACHE_PREFIX}runtime`;
+const EXTERNAL_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com', 'raw.githack.com'];
+
+const scopeUrl = (path: string) => new URL(path, self.registration.scope).href;
+
+// 外部资源逐个缓存，失败（安装时恰好断网）不影响安装，之后联网使用时由 fetch 补齐
+const cacheExternal = async (cache: Cache, url: string): Promise<void> => {
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) return;
+    await cache.put(url, response.clone());
+    // 字体样式表按当前浏览器返回对应格式的字体地址，继续缓存这些字体文件
+    if (response.headers.get('content-type')?.includes('text/css')) {
+      const css = await response.text();
+      const fonts = Array.from(css.matchAll(/url\((https:[^)]+)\)/g), match => match[1]);
+      await Promise.all(fonts.map(font => cacheExternal(cache, font)));
+    }
+  } catch { /* 离线：跳过 */ }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const precache = await caches.open(PRECACHE);
+    await precache.addAll(MANIFEST.assets.map(scopeUrl));
+    const runtime = await caches.open(RUNTIME);
+    await Promise.all(MANIFEST.external.map(url => cacheExternal(runtime, url)));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys
+      .filter(key => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME)
+      .map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// 页面点击“刷新”后才接管，避免新旧版本的脚本混用
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// 视频的 Range 请求：从缓存的完整文件中截取对应片段
+const rangeResponse = async (request: Request, response: Response) => {
+  const match = /bytes=(\d*)-(\d*)/.exec(request.headers.get('range') ?? '');
+  const blob = await response.blob();
+  const start = match?.[1] ? Number(match[1]) : 0;
+  const end = match?.[2] ? Math.min(Number(match[2]), blob.size - 1) : blob.size - 1;
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('content-type') ?? '',
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+    },
+  });
+};
+
+const cacheFirst = async (request: Request) => {
+  const cached = await caches.match(request, { ignoreVary: true });
+  if (cached) return request.headers.has('range') ? rangeResponse(request, cached) : cached;
+  const response = await fetch(request);
+  if (response.ok && !request.headers.has('range')) {
+    const runtime = await caches.open(RUNTIME);
+    await runtime.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  // 页面导航：直接返回预缓存的页面，不等待不稳定的网络（链接参数在 hash 中，不影响匹配）
+  if (request.mode === 'navigate' && request.url.startsWith(self.registration.scope)) {
+    event.respondWith(caches.match(scopeUrl('index.html')).then(cached => cached ?? fetch(request)));
+    return;
+  }
+  if (url.origin === self.location.origin || EXTERNAL_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { isHexColor } from './garlands';
+
+// --- 配色主题：内置预设 + 自定义编辑；保存在本机，随分享链接与 JSON 导出 ---
+
+export type ThemePresetId = 'classic' | 'snow' | 'gold' | 'neon' | 'pastel';
+// 显示名称见 i18n 消息目录（theme.preset.*）
+export const THEME_PRESET_IDS: ThemePresetId[] = ['classic', 'snow', 'gold', 'neon', 'pastel'];
+// 修改任一颜色后即为 custom
+export type ThemeId = ThemePresetId | 'custom';
+
+export interface ThemeColors {
+  foliage: string;
+  star: string;
+  // 礼物盒与彩球的随机颜色池
+  elements: string[];
+  // 拐杖糖的两种颜色
+  candy: string[];
+  // 彩灯（灯串为“彩色”时）的随机颜色池
+  bulbs: string[];
+  sparkles: string;
+  background: string;
+  // 灯光：环境光、右上主光、左后补光、底部光
+  ambient: string;
+  keyLight: string;
+  fillLight: string;
+  bottomLight: string;
+}
+
+// 颜色池长度固定（与经典配色一致）：随机挑色消耗的随机数与颜色无关，换主题不会改变布局
+export type ThemePaletteKey = 'elements' | 'candy' | 'bulbs';
+export const THEME_PALETTE_KEYS: ThemePaletteKey[] = ['elements', 'candy', 'bulbs'];
+export type ThemeColorKey = Exclude<keyof ThemeColors, ThemePaletteKey>;
+// 编辑器中的单色项（按显示顺序）
+export const THEME_COLOR_KEYS: ThemeColorKey[] = ['foliage', 'star', 'sparkles', 'background', 'ambient', 'keyLight', 'fillLight', 'bottomLight'];
+
+export const THEME_PRESETS: Record<ThemePresetId, ThemeColors> = {
+  // 经典：祖母绿树身、纯金星星
+  classic: {
+    foliage: '#004225',
+    star: '#FFD700',
+    elements: ['#D32F2F', '#FFD700', '#1976D2', '#2E7D32'],
+    candy: ['#D32F2F', '#FFFFFF'],
+    bulbs: ['#FF0000', '#00FF00', '#0000FF', '#FFFF00'],
+    sparkles: '#ECEFF1',
+    background: '#000300',
+    ambient: '#003311',
+    keyLight: '#FFD54F',
+    fillLight: '#FFD700',
+    bottomLight: '#FFFFFF',
+  },
+  // 雪夜银白
+  snow: {
+    foliage: '#4F6B7A',
+    star: '#E3F2FD',
+    elements: ['#FFFFFF', '#CFD8DC', '#90A4AE', '#B3E5FC'],
+    candy: ['#FFFFFF', '#90CAF9'],
+    bulbs: ['#FFFFFF', '#E3F2FD', '#B3E5FC', '#CFD8DC'],
+    sparkles: '#FFFFFF',
+    background: '#03060B',
+    ambient: '#1A2A38',
+    keyLight: '#E3F2FD',
+    fillLight: '#B0C4DE',
+    bottomLight: '#FFFFFF',
+  },
+  // 鎏金
+  gold: {
+    foliage: '#4A3A0A',
+    star: '#FFD700',
+    elements: ['#FFD700', '#DAA520', '#B8860B', '#FFF1B5'],
+    candy: ['#FFD700', '#FFF8E1'],
+    bulbs: ['#FFD54F', '#FFECB3', '#FFC107', '#FFE082'],
+    sparkles: '#FFE082',
+    background: '#0A0600',
+    ambient: '#2A1F00',
+    keyLight: '#FFD54F',
+    fillLight: '#FFB300',
+    bottomLight: '#FFF3E0',
+  },
+  // 霓虹
+  neon: {
+    foliage: '#00A86B',
+    star: '#FF00FF',
+    elements: ['#FF00FF', '#00FFFF', '#FFFF00', '#39FF14'],
+    candy: ['#FF1493', '#00FFFF'],
+    bulbs: ['#FF00FF', '#00FFFF', '#39FF14', '#FF3131'],
+    sparkles: '#00FFFF',
+    background: '#05000D',
+    ambient: '#1A0033',
+    keyLight: '#FF00FF',
+    fillLight: '#00FFFF',
+    bottomLight: '#7C4DFF',
+  },
+  // 马卡龙
+  pastel: {
+    foliage: '#5E9C84',
+    star: '#FFE4B5',
+    elements: ['#F8BBD0', '#B3E5FC', '#C8E6C9', '#FFF9C4'],
+    candy: ['#F48FB1', '#FFFFFF'],
+    bulbs: ['#F8BBD0', '#B3E5FC', '#E1BEE7', '#FFF9C4'],
+    sparkles: '#F3E5F5',
+    background: '#0B0A10',
+    ambient: '#2A2238',
+    keyLight: '#FCE4EC',
+    fillLight: '#E1F5FE',
+    bottomLight: '#FFFFFF',
+  },
+};
+
+export interface Theme {
+  id: ThemeId;
+  colors: ThemeColors;
+}
+
+export const DEFAULT_THEME: Theme = { id: 'classic', colors: THEME_PRESETS.classic };
+
+const isThemePresetId = (value: unknown): value is ThemePresetId => THEME_PRESET_IDS.includes(value as ThemePresetId);
+
+// --- 校验：本机存储、链接与导入的 JSON 都不可信；缺失或非法的颜色回退经典配色 ---
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readPalette = (raw: unknown, fallback: string[]) =>
+  fallback.map((color, i) => (Array.isArray(raw) && isHexColor(raw[i]) ? raw[i] as string : color));
+
+export const sanitizeTheme = (raw: unknown): Theme | null => {
+  if (!isRecord(raw)) return null;
+  // 预设只记录 id，颜色以当前版本的预设为准
+  if (isThemePresetId(raw.id)) return { id: raw.id, colors: THEME_PRESETS[raw.id] };
+  if (raw.id !== 'custom' || !isRecord(raw.colors)) return null;
+  const c = raw.colors;
+  const fallback = THEME_PRESETS.classic;
+  const colors = { ...fallback };
+  THEME_COLOR_KEYS.forEach(key => {
+    const color = c[key];
+    if (isHexColor(color)) colors[key] = color;
+  });
+  THEME_PALETTE_KEYS.forEach(key => { colors[key] = readPalette(c[key], fallback[key]); });
+  return { id: 'custom', colors };
+};
+
+// 导出的主题文件与链接共用同一结构；预设不写颜色，保持链接简短
+export const themeToData = (theme: Theme) =>
+  (theme.id === 'custom' ? { id: theme.id, colors: theme.colors } : { id: theme.id });
+
+export const themeToJson = (theme: Theme) => JSON.stringify({ type: 'christmas-tree-theme', ...themeToData(theme) }, null, 2);
+
+// 也接受导出的场景 JSON（取其中的 theme 字段）
+export const themeFromJson = (text: string): Theme | null => {
+  try {
+    const data: unknown = JSON.parse(text);
+    return sanitizeTheme(isRecord(data) && isRecord(data.theme) ? data.theme : data);
+  } catch {
+    return null;
+  }
+};
+
+// --- 本机存储 ---
+const STORAGE_KEY = 'christmas-tree-theme';
+
+const loadTheme = (): Theme | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? sanitizeTheme(JSON.parse(saved)) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveTheme = (theme: Theme) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(themeToData(theme)));
+  } catch { /* 隐私模式下 localStorage 不可用：主题仅本次会话有效 */ }
+};
+
+// --- 主题状态：选择预设或逐项改色（基于当前配色复制一份为自定义主题） ---
+export interface ThemeController {
+  theme: Theme;
+  selectPreset: (id: ThemePresetId) => void;
+  setColor: (key: ThemeColorKey, color: string) => void;
+  setPaletteColor: (key: ThemePaletteKey, index: number, color: string) => void;
+  restore: (theme: Theme) => void;
+}
+
+// initial：分享链接中的主题，优先于本机保存的主题
+// persist 为 false 时不读写本机保存的主题（嵌入模式：宿主页面设置的主题不能覆盖独立打开时的主题）
+export const useTheme = (initial?: Theme, persist = true): ThemeController => {
+  const [theme, setTheme] = useState<Theme>(() => initial ?? (persist ? loadTheme() : null) ?? DEFAULT_THEME);
+  useEffect(() => { if (persist) saveTheme(theme); }, [theme, persist]);
+
+  const edit = (update: (colors: ThemeColors) => ThemeColors) =>
+    setTheme(prev => ({ id: 'custom', colors: update(prev.colors) }));
+
+  return {
+    theme,
+    selectPreset: (id) => setTheme({ id, colors: THEME_PRESETS[id] }),
+    setColor: (key, color) => edit(colors => ({ ...colors, [key]: color })),
+    setPaletteColor: (key, index, color) => edit(colors => ({ ...colors, [key]: colors[key].map((c, i) => (i === index ? color : c)) })),
+    restore: setTheme,
+  };
+};
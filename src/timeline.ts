@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SceneState } from './types';
+
+// --- 贺卡时间线：按步骤自动切换场景、环绕镜头、聚焦照片、显示祝福语 ---
+// JSON 格式：{ "loop": true, "steps": [{ "type": "state", "state": "FORMED", "duration": 4 }, ...] }，duration 单位为秒
+
+export type TimelineStep =
+  // 切换场景状态并停留（如“散开开场”“用 4 秒聚合成树”）
+  | { type: 'state', state: SceneState, duration: number }
+  // 镜头绕树旋转 angle 度
+  | { type: 'orbit', angle: number, duration: number }
+  // 进入照片墙并聚焦第 photo 张照片（从 1 开始）
+  | { type: 'focus', photo: number, duration: number }
+  // 屏幕中央显示祝福语
+  | { type: 'message', text: string, duration: number }
+  | { type: 'wait', duration: number };
+
+export type TimelineStepType = TimelineStep['type'];
+
+export interface Timeline {
+  loop: boolean;
+  steps: TimelineStep[];
+}
+
+// 显示名称见 i18n 消息目录（step.*）
+export const TIMELINE_STEP_TYPES: TimelineStepType[] = ['state', 'orbit', 'focus', 'message', 'wait'];
+
+export const TIMELINE_LIMITS = {
+  steps: 40,
+  duration: { min: 0.5, max: 60 },
+  angle: { min: -720, max: 720 },
+  photo: { min: 1, max: 2000 },
+  text: 120,
+} as const;
+
+// 新建步骤时的默认值；message 为当前语言的默认祝福语
+export const createTimelineStep = (type: TimelineStepType, message: string): TimelineStep => {
+  switch (type) {
+    case 'state': return { type, state: 'FORMED', duration: 4 };
+    case 'orbit': return { type, angle: 90, duration: 6 };
+    case 'focus': return { type, photo: 1, duration: 5 };
+    case 'message': return { type, text: message, duration: 4 };
+    case 'wait': return { type, duration: 2 };
+  }
+};
+
+export const createDefaultTimeline = (message: string): Timeline => ({
+  loop: true,
+  steps: [
+    { type: 'state', state: 'CHAOS', duration: 2 },
+    { type: 'state', state: 'FORMED', duration: 4 },
+    { type: 'orbit', angle: 120, duration: 8 },
+    { type: 'focus', photo: 1, duration: 5 },
+    { type: 'focus', photo: 2, duration: 5 },
+    { type: 'message', text: message, duration: 5 },
+  ],
+});
+
+// 时间线总时长（秒）
+export const timelineDuration = (timeline: Timeline) =>
+  timeline.steps.reduce((sum, s) => sum + s.duration, 0);
+
+const SCENE_STATES: SceneState[] = ['CHAOS', 'FORMED', 'GALLERY'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clampNumber = (value: unknown, { min, max }: { min: number, max: number }, fallback: number) =>
+  (typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback);
+
+const sanitizeStep = (raw: unknown): TimelineStep | null => {
+  if (!isRecord(raw)) return null;
+  const duration = clampNumber(raw.duration, TIMELINE_LIMITS.duration, 3);
+  switch (raw.type) {
+    case 'state':
+      return SCENE_STATES.includes(raw.state as SceneState) ? { type: 'state', state: raw.state as SceneState, duration } : null;
+    case 'orbit':
+      return { type: 'orbit', angle: clampNumber(raw.angle, TIMELINE_LIMITS.angle, 90), duration };
+    case 'focus':
+      return { type: 'focus', photo: Math.round(clampNumber(raw.photo, TIMELINE_LIMITS.photo, 1)), duration };
+    case 'message':
+      return typeof raw.text === 'string' ? { type: 'message', text: raw.text.slice(0, TIMELINE_LIMITS.text), duration } : null;
+    case 'wait':
+      return { type: 'wait', duration };
+    default:
+      return null;
+  }
+};
+
+// 链接 / 文件中的时间线不可信：丢弃无法识别的步骤，数值按范围截断；没有有效步骤时返回 null
+export const sanitizeTimeline = (raw: unknown): Timeline | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.steps)) return null;
+  const steps = raw.steps.slice(0, TIMELINE_LIMITS.steps).map(sanitizeStep).filter((s): s is TimelineStep => s !== null);
+  return steps.length > 0 ? { loop: raw.loop !== false, steps } : null;
+};
+
+export const timelineToJson = (timeline: Timeline) => JSON.stringify(timeline, null, 2);
+
+export const timelineFromJson = (text: string) => {
+  try {
+    return sanitizeTimeline(JSON.parse(text));
+  } catch {
+    return null;
+  }
+};
+
+// --- 播放器：按步骤时长推进；环绕角度与祝福语由当前步骤导出，交给场景 / 页面渲染 ---
+export interface TimelinePlayer {
+  playing: boolean;
+  // 当前步骤序号（未播放时为 null）
+  stepIndex: number | null;
+  message: string | null;
+  // 当前环绕步骤：在 seconds 秒内转过 radians
+  orbit: { radians: number, seconds: number } | null;
+  play: () => void;
+  stop: () => void;
+}
+
+export const useTimelinePlayer = ({ timeline, autoplay, onSceneState, onFocusPhoto }: {
+  timeline: Timeline,
+  // 打开带时间线的链接时自动播放
+  autoplay: boolean,
+  onSceneState: (state: SceneState) => void,
+  // 照片序号从 0 开始
+  onFocusPhoto: (index: number) => void,
+}): TimelinePlayer => {
+  // tick 每推进一步加一：只有一个步骤且循环时也能重新触发
+  const [cursor, setCursor] = useState<{ index: number, tick: number } | null>(() => (autoplay && timeline.steps.length > 0 ? { index: 0, tick: 0 } : null));
+  const callbacks = useRef({ onSceneState, onFocusPhoto });
+  callbacks.current = { onSceneState, onFocusPhoto };
+  // 播放中编辑时间线不重新计时当前步骤：计时只在推进到新步骤时开始，届时读取最新的时间线
+  const timelineRef = useRef(timeline);
+  timelineRef.current = timeline;
+
+  // 编辑时间线后，越界的步骤视为播放结束
+  const step = cursor ? timeline.steps[cursor.index] ?? null : null;
+  useEffect(() => {
+    if (cursor && !step) setCursor(null);
+  }, [cursor, step]);
+
+  useEffect(() => {
+    if (!cursor) return;
+    const current = timelineRef.current.steps[cursor.index];
+    if (!current) return;
+    if (current.type === 'state') callbacks.current.onSceneState(current.state);
+    if (current.type === 'focus') {
+      callbacks.current.onSceneState('GALLERY');
+      callbacks.current.onFocusPhoto(current.photo - 1);
+    }
+    const timer = window.setTimeout(() => {
+      const { steps, loop } = timelineRef.current;
+      const next = cursor.index + 1;
+      if (next < steps.length) setCursor({ index: next, tick: cursor.tick + 1 });
+      else setCursor(loop ? { index: 0, tick: cursor.tick + 1 } : null);
+    }, current.duration * 1000);
+    return () => window.clearTimeout(timer);
+  }, [cursor]);
+
+  const play = useCallback(() => setCursor(timeline.steps.length > 0 ? { index: 0, tick: 0 } : null), [timeline]);
+  const stop = useCallback(() => setCursor(null), []);
+
+  return {
+    playing: step !== null,
+    stepIndex: step && cursor ? cursor.index : null,
+    message: step?.type === 'message' ? step.text : null,
+    orbit: step?.type === 'orbit' ? { radians: (step.angle * Math.PI) / 180, seconds: step.duration } : null,
+    play,
+    stop,
+  };
+};
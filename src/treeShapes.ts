@@ -0,0 +1,225 @@
+import { MathUtils } from 'three';
+import type { Rng } from './random';
+
+// --- 树形注册表：所有组件从同一个形状采样目标位置 ---
+// 形状以原点为中心，y ∈ [-height/2, height/2]；apex 为顶部五角星的挂载点
+
+export type Vec3 = [number, number, number];
+
+export interface TreeSize {
+  height: number;
+  radius: number;
+}
+
+export interface TreeShape {
+  id: TreeShapeId;
+  // 体内采样（树叶粒子）
+  sampleVolume: (rng: Rng) => Vec3;
+  // 表面采样（挂件 / 元素 / 彩灯）：scale 向内收缩，offset 向外偏移
+  sampleSurface: (rng: Rng, offset?: number, scale?: number) => Vec3;
+  // 点是否在树体内（装饰模式的射线拾取）
+  contains: (point: Vec3) => boolean;
+  // 把任意点投影到表面：保留方位与高度，offset / scale 含义同 sampleSurface
+  projectSurface: (point: Vec3, offset?: number, scale?: number) => Vec3;
+  apex: Vec3;
+}
+
+export type TreeShapeId = 'cone' | 'fir' | 'spiral' | 'heart' | 'star' | 'mask';
+
+// 显示名称见 i18n 消息目录（shape.*）
+export const TREE_SHAPE_IDS: TreeShapeId[] = ['cone', 'fir', 'spiral', 'heart', 'star', 'mask'];
+
+export const isTreeShapeId = (value: unknown): value is TreeShapeId =>
+  TREE_SHAPE_IDS.includes(value as TreeShapeId);
+
+// --- 旋转体：半径只随高度变化（圆锥 / 分层冷杉 / 螺旋） ---
+const revolutionShape = (
+  id: TreeShapeId,
+  size: TreeSize,
+  radiusAt: (normalizedY: number) => number,
+  angleAt?: (normalizedY: number, rng: Rng) => number,
+): TreeShape => {
+  const h = size.height;
+  const theta = (ny: number, rng: Rng) => (angleAt ? angleAt(ny, rng) : rng() * Math.PI * 2);
+  return {
+    id,
+    sampleVolume: (rng) => {
+      const y = (rng() * h) - (h / 2); const ny = (y + (h / 2)) / h;
+      const t = theta(ny, rng);
+      const r = rng() * radiusAt(ny);
+      return [r * Math.cos(t), y, r * Math.sin(t)];
+    },
+    sampleSurface: (rng, offset = 0, scale = 1) => {
+      const y = (rng() * h) - (h / 2); const ny = (y + (h / 2)) / h;
+      const r = radiusAt(ny) * scale + offset;
+      const t = theta(ny, rng);
+      return [r * Math.cos(t), y, r * Math.sin(t)];
+    },
+    contains: ([x, y, z]) => Math.abs(y) <= h / 2 && Math.hypot(x, z) <= radiusAt((y + (h / 2)) / h),
+    projectSurface: ([x, y, z], offset = 0, scale = 1) => {
+      const cy = MathUtils.clamp(y, -h / 2, h / 2);
+      const r = radiusAt((cy + (h / 2)) / h) * scale + offset;
+      const t = Math.atan2(z, x);
+      return [r * Math.cos(t), cy, r * Math.sin(t)];
+    },
+    apex: [0, h / 2, 0],
+  };
+};
+
+const createCone = (size: TreeSize) => revolutionShape('cone', size, ny => size.radius * (1 - ny));
+
+// 分层冷杉：多层“裙摆”，每层底部外扩、向上收窄
+const FIR_TIERS = 4;
+const createFir = (size: TreeSize) => revolutionShape('fir', size, ny => {
+  const t = Math.min(ny * FIR_TIERS, FIR_TIERS - 1e-6);
+  const tier = Math.floor(t); const f = t - tier;
+  const tierBase = size.radius * (1 - tier / FIR_TIERS * 0.8);
+  const tierTop = tier === FIR_TIERS - 1 ? 0 : tierBase * 0.45;
+  return MathUtils.lerp(tierBase, tierTop, f);
+});
+
+// 螺旋：沿圆锥表面的螺旋带，角度由高度决定并带少量抖动
+const SPIRAL_TURNS = 5;
+const SPIRAL_BAND = 0.5;
+const createSpiral = (size: TreeSize) => revolutionShape(
+  'spiral', size,
+  ny => size.radius * (1 - ny),
+  (ny, rng) => ny * SPIRAL_TURNS * Math.PI * 2 + (rng() - 0.5) * SPIRAL_BAND,
+);
+
+// --- 平面轮廓挤出体（爱心 / 星形 / 剪影图片） ---
+// sampleInterior 返回轮廓内部的 (x, y)，inside 判断点是否在轮廓内；表面采样取正反两面
+const planarShape = (
+  id: TreeShapeId,
+  depth: number,
+  sampleInterior: (rng: Rng) => [number, number],
+  inside: (x: number, y: number) => boolean,
+  apex: Vec3,
+): TreeShape => ({
+  id,
+  sampleVolume: (rng) => {
+    const [x, y] = sampleInterior(rng);
+    return [x, y, (rng() * 2 - 1) * depth];
+  },
+  sampleSurface: (rng, offset = 0, scale = 1) => {
+    const [x, y] = sampleInterior(rng);
+    const side = rng() < 0.5 ? -1 : 1;
+    return [x * scale, y, side * (depth * scale + offset)];
+  },
+  contains: ([x, y, z]) => Math.abs(z) <= depth && inside(x, y),
+  projectSurface: ([x, y, z], offset = 0, scale = 1) => [x, y, (z < 0 ? -1 : 1) * (depth * scale + offset)],
+  apex,
+});
+
+// 在包围盒内拒绝采样；极端情况下退回中心点，避免死循环
+const rejectionSampler = (
+  inside: (x: number, y: number) => boolean,
+  minX: number, maxX: number, minY: number, maxY: number,
+  fallback: [number, number],
+) => (rng: Rng): [number, number] => {
+  for (let i = 0; i < 64; i++) {
+    const x = MathUtils.lerp(minX, maxX, rng()); const y = MathUtils.lerp(minY, maxY, rng());
+    if (inside(x, y)) return [x, y];
+  }
+  return fallback;
+};
+
+// 心形隐函数 (x² + y² - 1)³ - x²y³ ≤ 0，y ∈ [-1, 1.25]
+const createHeart = (size: TreeSize) => {
+  const s = size.height / 2.25;
+  const offsetY = -0.125 * s; // 使 y 范围居中
+  const inside = (x: number, y: number) => {
+    const u = x / s; const v = (y - offsetY) / s;
+    const a = u * u + v * v - 1;
+    return a * a * a - u * u * v * v * v <= 0;
+  };
+  const h = size.height / 2;
+  return planarShape('heart', size.radius * 0.25, rejectionSampler(inside, -1.2 * s, 1.2 * s, -h, h, [0, 0]), inside, [0, h, 0]);
+};
+
+// 五角星：外径取树高一半，内径约为外径的 0.45
+const createStar = (size: TreeSize) => {
+  const outer = size.height / 2; const inner = outer * 0.45;
+  const points: [number, number][] = [];
+  for (let i = 0; i < 10; i++) {
+    const r = i % 2 === 0 ? outer : inner;
+    const a = Math.PI / 2 + (i / 10) * Math.PI * 2;
+    points.push([r * Math.cos(a), r * Math.sin(a)]);
+  }
+  const inside = (x: number, y: number) => {
+    let hit = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const [xi, yi] = points[i]; const [xj, yj] = points[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) hit = !hit;
+    }
+    return hit;
+  };
+  return planarShape('star', size.radius * 0.25, rejectionSampler(inside, -outer, outer, -outer, outer, [0, 0]), inside, [0, outer, 0]);
+};
+
+// --- 剪影图片：黑色（不透明）像素为树身，白色 / 透明为背景 ---
+export interface ShapeMask {
+  width: number;
+  height: number;
+  // 树身像素的索引（y * width + x），y 向下
+  pixels: Uint32Array;
+}
+
+const MASK_MAX_EDGE = 128;
+
+export const loadShapeMask = async (file: Blob): Promise<ShapeMask> => {
+  const bitmap = await createImageBitmap(file);
+  const ratio = Math.min(1, MASK_MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * ratio));
+  const height = Math.max(1, Math.round(bitmap.height * ratio));
+  const canvas = document.createElement('canvas');
+  canvas.width = width; canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const pixels: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4]; const g = data[i * 4 + 1]; const b = data[i * 4 + 2]; const a = data[i * 4 + 3];
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    if (a > 127 && luminance < 128) pixels.push(i);
+  }
+  if (pixels.length === 0) throw new Error('Mask image has no dark pixels');
+  return { width, height, pixels: Uint32Array.from(pixels) };
+};
+
+const createMaskShape = (size: TreeSize, mask: ShapeMask) => {
+  // 高度对齐树高，宽度按图片比例
+  const cell = size.height / mask.height;
+  const halfW = (mask.width * cell) / 2; const halfH = size.height / 2;
+  let top = mask.height; let topX = mask.width / 2;
+  mask.pixels.forEach(p => {
+    const py = Math.floor(p / mask.width);
+    if (py < top) { top = py; topX = p % mask.width; }
+  });
+  const sampleInterior = (rng: Rng): [number, number] => {
+    const p = mask.pixels[Math.floor(rng() * mask.pixels.length)];
+    const px = (p % mask.width) + rng(); const py = Math.floor(p / mask.width) + rng();
+    return [px * cell - halfW, halfH - py * cell];
+  };
+  const solid = new Uint8Array(mask.width * mask.height);
+  mask.pixels.forEach(p => { solid[p] = 1; });
+  const inside = (x: number, y: number) => {
+    const px = Math.floor((x + halfW) / cell); const py = Math.floor((halfH - y) / cell);
+    return px >= 0 && px < mask.width && py >= 0 && py < mask.height && solid[py * mask.width + px] === 1;
+  };
+  return planarShape('mask', size.radius * 0.25, sampleInterior, inside, [(topX + 0.5) * cell - halfW, halfH - top * cell, 0]);
+};
+
+// 剪影形状缺少图片时退回经典圆锥
+export const createTreeShape = (id: TreeShapeId, size: TreeSize, mask?: ShapeMask | null): TreeShape => {
+  switch (id) {
+    case 'fir': return createFir(size);
+    case 'spiral': return createSpiral(size);
+    case 'heart': return createHeart(size);
+    case 'star': return createStar(size);
+    case 'mask': return mask ? createMaskShape(size, mask) : createCone(size);
+    default: return createCone(size);
+  }
+};
@@ -0,0 +1,26 @@
+// --- 共享类型 ---
+
+// 场景三态：聚合 / 散开 / 照片墙
+export type SceneState = 'CHAOS' | 'FORMED' | 'GALLERY';
+// 树体组件只关心聚合与散开
+export type TreeState = 'CHAOS' | 'FORMED';
+
+import type { GalleryLayoutId } from './galleryLayouts';
+import type { SnowSettings } from './weather';
+import type { GarlandSettings, LightStringSettings } from './garlands';
+
+// 参数面板可调的数量与照片墙参数
+export interface SceneCounts {
+  foliage: number;
+  ornaments: number;
+  elements: number;
+  lights: number;
+  gallery: { photos: number; scale: number; radius: number; moveSpeed: number; layout: GalleryLayoutId; interval: number };
+  camera: { distance: number };
+  hd: boolean;
+  // 降雪：雪花数量、大小与风（数量超过画质档位上限时按上限渲染）
+  snow: SnowSettings;
+  // 缠绕的彩带 / 金属丝带与彩灯串
+  garland: GarlandSettings;
+  lightStrings: LightStringSettings;
+}
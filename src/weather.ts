@@ -0,0 +1,136 @@
+import * as THREE from 'three';
+import { createRng } from './random';
+
+// --- 天气：GPU 降雪粒子与地面积雪 ---
+// 雪花位置全部在顶点着色器中按时间计算：CPU 每帧只更新几个 uniform，数量上万也不增加 JS 开销
+
+export interface SnowSettings {
+  // 雪花数量（0 = 关闭降雪，地面积雪随后慢慢融化）
+  density: number;
+  // 雪花大小倍数
+  size: number;
+  // 风力（单位 / 秒）与风向（度，0 = +x 方向，逆时针）
+  wind: number;
+  direction: number;
+}
+
+// 降雪范围（世界坐标）：底面与地面积雪同高，覆盖整棵树与照片墙
+export const SNOW_BOX = { min: new THREE.Vector3(-45, -17, -45), size: new THREE.Vector3(90, 52, 90) };
+// 积雪地面的半径
+export const SNOW_GROUND_RADIUS = 34;
+
+// 风向 + 风力 → 水平风速
+export const windVector = ({ wind, direction }: SnowSettings, target = new THREE.Vector2()) => {
+  const angle = (direction * Math.PI) / 180;
+  return target.set(Math.cos(angle) * wind, Math.sin(angle) * wind);
+};
+
+// position 存放雪花在降雪范围内的初始位置（0–1），aRandom 决定下落速度、大小与摇摆相位
+// 使用固定种子：截图 / 录屏与同一链接看到的雪花一致
+const SNOW_SEED = 0x5e0f1a4e;
+export const createSnowGeometry = (count: number) => {
+  const rng = createRng(SNOW_SEED);
+  const positions = new Float32Array(count * 3);
+  const randoms = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = rng();
+    positions[i * 3 + 1] = rng();
+    positions[i * 3 + 2] = rng();
+    randoms[i] = rng();
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('aRandom', new THREE.BufferAttribute(randoms, 1));
+  return geometry;
+};
+
+export interface SnowUniforms {
+  uTime: { value: number };
+  // 累计风漂移（由 CPU 积分，调节风向时雪花不会跳变）
+  uDrift: { value: THREE.Vector2 };
+  uSize: { value: number };
+  uBoxMin: { value: THREE.Vector3 };
+  uBoxSize: { value: THREE.Vector3 };
+}
+
+export const createSnowMaterial = () => {
+  const uniforms: SnowUniforms = {
+    uTime: { value: 0 },
+    uDrift: { value: new THREE.Vector2() },
+    uSize: { value: 1 },
+    uBoxMin: { value: SNOW_BOX.min.clone() },
+    uBoxSize: { value: SNOW_BOX.size.clone() },
+  };
+  const material = new THREE.ShaderMaterial({
+    uniforms: uniforms as unknown as Record<string, THREE.IUniform>,
+    transparent: true,
+    depthWrite: false,
+    vertexShader: `precision mediump float;
+    uniform float uTime; uniform vec2 uDrift; uniform float uSize; uniform vec3 uBoxMin; uniform vec3 uBoxSize;
+    attribute float aRandom;
+    varying float vAlpha;
+    void main() {
+      float fall = 1.2 + aRandom * 1.8;
+      float y = fract(position.y - uTime * fall / uBoxSize.y);
+      // 左右摇摆 + 风漂移，超出范围后从另一侧绕回
+      float phase = aRandom * 40.0;
+      vec2 sway = vec2(sin(uTime * (0.6 + aRandom) + phase), cos(uTime * (0.5 + aRandom * 0.8) + phase * 1.3)) * 0.8;
+      vec2 xz = mod(position.xz * uBoxSize.xz + uDrift + sway, uBoxSize.xz);
+      vec3 worldPos = uBoxMin + vec3(xz.x, y * uBoxSize.y, xz.y);
+      vec4 mvPosition = viewMatrix * vec4(worldPos, 1.0);
+      gl_PointSize = uSize * 160.0 * (0.5 + aRandom) / -mvPosition.z;
+      gl_Position = projectionMatrix * mvPosition;
+      // 顶部淡入、接近地面淡出
+      vAlpha = (0.45 + aRandom * 0.45) * smoothstep(0.0, 0.03, y) * (1.0 - smoothstep(0.92, 1.0, y));
+    }`,
+    fragmentShader: `precision mediump float;
+    varying float vAlpha;
+    void main() {
+      float a = (1.0 - smoothstep(0.1, 0.5, distance(gl_PointCoord, vec2(0.5)))) * vAlpha;
+      if (a < 0.01) discard;
+      gl_FragColor = vec4(vec3(0.85, 0.88, 0.95), a);
+    }`,
+  });
+  return { material, uniforms };
+};
+
+// 地面积雪：uCover（0–1）从树下向外扩展，边缘用噪声打散
+export interface SnowGroundUniforms {
+  uCover: { value: number };
+}
+
+export const createSnowGroundMaterial = () => {
+  const uniforms: SnowGroundUniforms = { uCover: { value: 0 } };
+  const material = new THREE.ShaderMaterial({
+    uniforms: uniforms as unknown as Record<string, THREE.IUniform>,
+    transparent: true,
+    depthWrite: false,
+    vertexShader: `varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }`,
+    fragmentShader: `precision mediump float;
+    uniform float uCover;
+    varying vec2 vUv;
+    float hash(vec2 p) { return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453); }
+    float noise(vec2 p) {
+      vec2 i = floor(p); vec2 f = fract(p);
+      vec2 u = f * f * (3.0 - 2.0 * f);
+      return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+    }
+    float fbm(vec2 p) { return noise(p) * 0.5 + noise(p * 2.1) * 0.3 + noise(p * 4.3) * 0.2; }
+    void main() {
+      vec2 p = (vUv - 0.5) * 2.0;
+      float r = length(p);
+      float n = fbm(p * 5.0);
+      // 覆盖范围：树下最先积雪，随 uCover 增大向外扩展
+      float reach = uCover * 1.35 - r + (n - 0.5) * 0.4;
+      float a = smoothstep(0.0, 0.12, reach) * (1.0 - smoothstep(0.8, 1.0, r)) * min(1.0, uCover * 4.0);
+      if (a < 0.01) discard;
+      vec3 color = mix(vec3(0.42, 0.46, 0.55), vec3(0.72, 0.75, 0.82), n);
+      gl_FragColor = vec4(color, a * 0.9);
+    }`,
+  });
+  return { material, uniforms };
+};
@@ -0,0 +1,103 @@
+// --- 极简 WebM（Matroska）封装：单条视频轨，供 WebCodecs 编码结果写入文件 ---
+// 只写播放所需的元素（EBML 头、Info、Tracks、Cluster/SimpleBlock），不写 Cues
+
+export interface WebmFrame {
+  data: Uint8Array;
+  // 毫秒
+  timestamp: number;
+  keyFrame: boolean;
+}
+
+type EbmlValue = number | string | Uint8Array | { float: number } | EbmlElement[];
+interface EbmlElement { id: number, value: EbmlValue }
+
+const el = (id: number, value: EbmlValue): EbmlElement => ({ id, value });
+
+const idBytes = (id: number) => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+
+const uintBytes = (value: number) => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes.length > 0 ? bytes : [0];
+};
+
+// 可变长度整数（EBML size）：首字节的前导 0 个数表示长度
+const sizeBytes = (size: number) => {
+  for (let length = 1; length <= 8; length++) {
+    if (size < 2 ** (7 * length) - 1) {
+      const bytes = new Array<number>(length);
+      let v = size;
+      for (let i = length - 1; i >= 0; i--) { bytes[i] = v & 0xff; v = Math.floor(v / 256); }
+      bytes[0] |= 1 << (8 - length);
+      return bytes;
+    }
+  }
+  throw new Error('EBML element too large');
+};
+
+const encodeValue = (value: EbmlValue): Uint8Array => {
+  if (value instanceof Uint8Array) return value;
+  if (typeof value === 'number') return new Uint8Array(uintBytes(value));
+  if (typeof value === 'string') return new TextEncoder().encode(value);
+  if (Array.isArray(value)) return concat(value.map(encodeElement));
+  const buffer = new DataView(new ArrayBuffer(8));
+  buffer.setFloat64(0, value.float);
+  return new Uint8Array(buffer.buffer);
+};
+
+const encodeElement = (element: EbmlElement) => {
+  const body = encodeValue(element.value);
+  return concat([new Uint8Array([...idBytes(element.id), ...sizeBytes(body.length)]), body]);
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+// SimpleBlock：轨道号（vint）+ 相对簇时间（int16）+ 标志位 + 帧数据
+const simpleBlock = (frame: WebmFrame, clusterTime: number) => {
+  const head = new Uint8Array(4);
+  const view = new DataView(head.buffer);
+  head[0] = 0x81;
+  view.setInt16(1, frame.timestamp - clusterTime);
+  head[3] = frame.keyFrame ? 0x80 : 0;
+  return el(0xA3, concat([head, frame.data]));
+};
+
+// 簇内相对时间为 int16，关键帧处或超过 30 秒时新开一个簇
+const MAX_CLUSTER_MS = 30000;
+
+export const buildWebm = ({ codec, width, height, frames, durationMs }: { codec: 'V_VP8' | 'V_VP9', width: number, height: number, frames: WebmFrame[], durationMs: number }) => {
+  const clusters: EbmlElement[] = [];
+  let blocks: EbmlElement[] = [];
+  let clusterTime = -Infinity;
+  frames.forEach(frame => {
+    if (blocks.length === 0 || frame.keyFrame || frame.timestamp - clusterTime > MAX_CLUSTER_MS) {
+      if (blocks.length > 0) clusters.push(el(0x1F43B675, [el(0xE7, clusterTime), ...blocks]));
+      clusterTime = frame.timestamp;
+      blocks = [];
+    }
+    blocks.push(simpleBlock(frame, clusterTime));
+  });
+  if (blocks.length > 0) clusters.push(el(0x1F43B675, [el(0xE7, clusterTime), ...blocks]));
+
+  const header = el(0x1A45DFA3, [
+    el(0x4286, 1), el(0x42F7, 1), el(0x42F2, 4), el(0x42F3, 8),
+    el(0x4282, 'webm'), el(0x4287, 2), el(0x4285, 2),
+  ]);
+  const segment = el(0x18538067, [
+    el(0x1549A966, [el(0x2AD7B1, 1000000), el(0x4D80, 'christmas-tree'), el(0x5741, 'christmas-tree'), el(0x4489, { float: durationMs })]),
+    el(0x1654AE6B, [
+      el(0xAE, [el(0xD7, 1), el(0x73C5, 1), el(0x83, 1), el(0x86, codec), el(0xE0, [el(0xB0, width), el(0xBA, height)])]),
+    ]),
+    ...clusters,
+  ]);
+  return new Blob([encodeElement(header), encodeElement(segment)], { type: 'video/webm' });
+};
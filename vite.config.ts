@@ -1,4 +1,7 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
@@ -6,4 +9,49 @@ import react from '@vitejs/plugin-react'
 //   plugins: [react()],
 // })
 
-export default defineConfig({ plugins: [react()], base: '/christmas-tree-plus/' })
\ No newline at end of file
+// Environment preset="night" 的 HDR（drei 的 CUBEMAP_ROOT + presetsObj.night），离线时由 Service Worker 提供
+const NIGHT_HDR = 'https://raw.githack.com/pmndrs/drei-assets/456060a26bbeb8fdf79326f224b6d99b8bcce736/hdri/dikhololo_night_1k.hdr'
+
+// 以固定文件名输出到部署根目录的入口
+const FIXED_ENTRIES = ['sw', 'christmas-tree']
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)])
+
+// 把构建产物清单写入 src/sw.ts 的占位符：打包文件 + public 目录 + index.html 引用的 Google Fonts
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  // 在 index.html 生成之后执行
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const sw = bundle['sw.js']
+    if (!sw || sw.type !== 'chunk') return
+    const html = bundle['index.html']
+    const htmlSource = html && html.type === 'asset' ? String(html.source) : ''
+    const fonts = Array.from(htmlSource.matchAll(/href="(https:\/\/fonts\.googleapis\.com\/[^"]+)"/g), match => match[1].replace(/&amp;/g, '&'))
+    // public 中的 preview*.png 是 README 截图，不需要离线
+    const publicFiles = listFiles('public').map(file => relative('public', file).split('\\').join('/')).filter(file => !file.startsWith('preview'))
+    const built = Object.keys(bundle).filter(file => file !== 'sw.js' && !file.endsWith('.map'))
+    const assets = ['./', ...built, ...publicFiles].sort()
+    // 文件名已带内容哈希；index.html 与 public 文件没有，把它们的内容也算进版本号
+    const hash = createHash('sha256').update(assets.join('\n')).update(htmlSource)
+    publicFiles.forEach(file => hash.update(readFileSync(join('public', file))))
+    const manifest = { version: hash.digest('hex').slice(0, 12), assets, external: [...fonts, NIGHT_HDR] }
+    sw.code = sw.code.replace(/(["'])__PRECACHE_MANIFEST__\1/, JSON.stringify(JSON.stringify(manifest)))
+  },
+})
+
+export default defineConfig({
+  plugins: [react(), precacheManifest()],
+  base: '/christmas-tree-plus/',
+  build: {
+    rollupOptions: {
+      // Service Worker 单独打包为部署目录下固定名称的 sw.js（作用域为整个应用）
+      // <christmas-tree> 自定义元素同样使用固定名称，供其他页面直接引用
+      input: { main: 'index.html', sw: 'src/sw.ts', 'christmas-tree': 'src/christmasTreeElement.ts' },
+      output: { entryFileNames: chunk => (FIXED_ENTRIES.includes(chunk.name) ? `${chunk.name}.js` : 'assets/[name]-[hash].js') },
+    },
+  },
+})